@@ -130,6 +130,16 @@ const PreviewInstanceRow = memo(({ index, nodeId }: { index: number, nodeId: str
     const targetW = incomingPayload ? (incomingPayload.targetBounds?.w ?? incomingPayload.metrics.target.w) : 0;
     const targetH = incomingPayload ? (incomingPayload.targetBounds?.h ?? incomingPayload.metrics.target.h) : 0;
 
+    // Safe-area insets as a share of the rendered target (the preview canvas spans targetBounds)
+    const safeBounds = incomingPayload?.safeBounds;
+    const targetBounds = incomingPayload?.targetBounds;
+    const safeInsets = safeBounds && targetBounds ? {
+        top: `${((safeBounds.y - targetBounds.y) / targetBounds.h) * 100}%`,
+        right: `${((targetBounds.x + targetBounds.w - safeBounds.x - safeBounds.w) / targetBounds.w) * 100}%`,
+        bottom: `${((targetBounds.y + targetBounds.h - safeBounds.y - safeBounds.h) / targetBounds.h) * 100}%`,
+        left: `${((safeBounds.x - targetBounds.x) / targetBounds.w) * 100}%`
+    } : null;
+
     return (
         <div className="relative border-b border-emerald-900/30 bg-slate-900/20 p-2 flex flex-col space-y-2 first:rounded-t-none">
             {/* ABSOLUTE DOCKED HANDLES (Left Edge) */}
@@ -214,11 +224,21 @@ const PreviewInstanceRow = memo(({ index, nodeId }: { index: number, nodeId: str
 
                  {/* Content Render - Max Containment Strategy */}
                  {previewUrl && !isLoading && !error && (
-                     <img 
-                       src={previewUrl} 
-                       alt="Preview" 
-                       className="max-w-full max-h-full object-contain pointer-events-none drop-shadow-2xl relative z-10"
-                     />
+                     <div className="relative z-10 inline-flex max-w-full max-h-full overflow-hidden">
+                         <img 
+                           src={previewUrl} 
+                           alt="Preview" 
+                           className="max-w-full max-h-full object-contain pointer-events-none drop-shadow-2xl"
+                         />
+                         {/* Safe-area overlay: content outside the dotted rect sits under the target's UI chrome */}
+                         {safeInsets && (
+                             <div
+                                className="absolute border border-dotted border-amber-400/80 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.25)]"
+                                style={safeInsets}
+                                title="Safe area"
+                             />
+                         )}
+                     </div>
                  )}
 
                  {/* Scanning Effect */}
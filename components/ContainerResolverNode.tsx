@@ -62,8 +62,7 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
          };
       }
 
-      const containerName = edge.sourceHandle || '';
-      const containerContext = createContainerContext(globalTemplate, containerName);
+      const containerContext = createContainerContext(globalTemplate, edge.sourceHandle || '');
       
       if (!containerContext) {
         return { 
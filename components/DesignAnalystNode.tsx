@@ -2,15 +2,19 @@ import * as React from 'react';
 import { memo, useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Handle, Position, NodeResizer, useEdges, useReactFlow, useUpdateNodeInternals, useNodes } from 'reactflow';
 import type { NodeProps, Node, Edge } from 'reactflow';
-import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystInstanceState, ContainerContext, TemplateMetadata, ContainerDefinition, MappingContext, KnowledgeContext } from '../types';
+import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystInstanceState, ContainerContext, TemplateMetadata, ContainerDefinition, MappingContext, KnowledgeContext, ContainerConstraints, LAYER_PRIORITY_LOWEST } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject, findLayerByPath } from '../services/psdService';
+import { getSemanticThemeObject, findLayerByPath, findContainerByHandle, getContainerSafeRect, getSafeAreaInsetsFromRect } from '../services/psdService';
 import { useKnowledgeScoper } from '../hooks/useKnowledgeScoper';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Brain, BrainCircuit, Ban, ClipboardList, AlertCircle, RefreshCw, RotateCcw, Play, Eye, BookOpen, Tag, Activity } from 'lucide-react';
+import { getAIProvider, Type, AIModelTier, ResponseSchema } from '../services/aiProvider';
+import { analyzeLayoutHeuristically } from '../services/heuristicAnalyst';
+import { collectLayerIds, generateValidatedJson, validateLayoutStrategy } from '../services/strategyValidator';
+import { getAnalysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from '../services/analysisCache';
+import { AIRequestError, AI_ERROR_LABELS, DEFAULT_AI_TIMEOUTS, isCancelledError, runAIRequest, toAIRequestFailure } from '../services/requestRunner';
+import { Brain, BrainCircuit, Ban, ClipboardList, AlertCircle, RefreshCw, RotateCcw, Play, Eye, BookOpen, Tag, Activity, Square } from 'lucide-react';
 import { Psd } from 'ag-psd';
 
-type ModelKey = 'gemini-3-flash' | 'gemini-3-pro' | 'gemini-3-pro-thinking';
+type ModelKey = 'heuristic' | 'gemini-3-flash' | 'gemini-3-pro' | 'gemini-3-pro-thinking';
 
 const DEFAULT_INSTANCE_STATE: AnalystInstanceState = {
     chatHistory: [],
@@ -19,33 +23,43 @@ const DEFAULT_INSTANCE_STATE: AnalystInstanceState = {
     isKnowledgeMuted: false
 };
 
+// Analysis cache entry: the final strategy and the raw model response shown in the chat
+type CachedStrategy = { strategy: LayoutStrategy, text: string };
+
 interface ModelConfig {
-  apiModel: string;
+  tier?: Exclude<AIModelTier, 'image'>; // Resolved to a model name by the active AI provider; absent = rule-based, no provider call
   label: string;
   badgeClass: string;
   headerClass: string;
   thinkingBudget?: number;
+  timeoutMs?: number; // Per request; defaults to DEFAULT_AI_TIMEOUTS.json
 }
 
 const MODELS: Record<ModelKey, ModelConfig> = {
+  'heuristic': {
+    label: 'HEURISTIC',
+    badgeClass: 'bg-slate-600 text-slate-100 border-slate-400',
+    headerClass: 'border-slate-400/50 bg-slate-700/20'
+  },
   'gemini-3-flash': {
-    apiModel: 'gemini-3-flash-preview',
+    tier: 'fast',
     label: 'FLASH',
     badgeClass: 'bg-yellow-500 text-yellow-950 border-yellow-400',
     headerClass: 'border-yellow-500/50 bg-yellow-900/20'
   },
   'gemini-3-pro': {
-    apiModel: 'gemini-3-pro-preview',
+    tier: 'pro',
     label: 'PRO',
     badgeClass: 'bg-blue-600 text-white border-blue-500',
     headerClass: 'border-blue-500/50 bg-blue-900/20'
   },
   'gemini-3-pro-thinking': {
-    apiModel: 'gemini-3-pro-preview',
+    tier: 'pro',
     label: 'DEEP THINKING',
     badgeClass: 'bg-purple-600 text-white border-purple-500',
     headerClass: 'border-purple-500/50 bg-purple-900/20',
-    thinkingBudget: 16384
+    thinkingBudget: 16384,
+    timeoutMs: 240_000
   }
 };
 
@@ -53,6 +67,9 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
     const overrideCount = strategy.overrides?.length || 0;
     const directives = strategy.directives || [];
     const triangulation = strategy.triangulation;
+    const validation = strategy.validationReport;
+    const validationErrors = validation?.issues.filter(i => i.severity === 'error').length || 0;
+    const validationWarnings = (validation?.issues.length || 0) - validationErrors;
 
     let methodColor = 'text-slate-400 border-slate-600';
     if (strategy.method === 'GENERATIVE') methodColor = 'text-purple-300 border-purple-500 bg-purple-900/20';
@@ -78,6 +95,21 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
                 <span className={`text-[9px] px-1.5 py-0.5 rounded border font-mono font-bold tracking-wider ${methodColor}`}>
                     {strategy.method || 'GEOMETRIC'}
                 </span>
+                {strategy.cachedAt && (
+                    <span className="text-[9px] px-1.5 py-0.5 rounded border border-cyan-500 text-cyan-300 bg-cyan-900/20 font-mono font-bold" title={`Cached result from ${new Date(strategy.cachedAt).toLocaleString()}`}>
+                        CACHED
+                    </span>
+                )}
+                {strategy.isHeuristic && (
+                    <span className="text-[9px] px-1.5 py-0.5 rounded border border-slate-400 text-slate-200 bg-slate-700/40 font-mono font-bold" title="Derived from geometry, no model call">
+                        RULE-BASED
+                    </span>
+                )}
+                {validation && validation.issues.length === 0 && (
+                    <span className="text-[9px] px-1.5 py-0.5 rounded border border-emerald-500 text-emerald-300 bg-emerald-900/20 font-mono font-bold" title={validation.repairAttempts > 0 ? `Valid after ${validation.repairAttempts} repair request(s)` : 'Every field and layer reference checked'}>
+                        VALIDATED
+                    </span>
+                )}
                 {strategy.clearance && (
                     <span className="text-[9px] px-1.5 py-0.5 rounded border border-orange-500 text-orange-300 bg-orange-900/20 font-mono font-bold">
                         CLEARANCE
@@ -165,6 +197,26 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
                  </div>
              )}
              
+             {validation && validation.issues.length > 0 && (
+                 <div className="space-y-1 mt-2 border-t border-slate-700/50 pt-2">
+                     <div className="flex items-center justify-between">
+                         <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">Validation Report</span>
+                         <span className="text-[9px] font-mono text-slate-400">
+                             {validationErrors} repaired · {validationWarnings} clamped{validation.repairAttempts > 0 ? ` · ${validation.repairAttempts} re-ask` : ''}
+                         </span>
+                     </div>
+                     <div className="space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+                         {validation.issues.map((issue, i) => (
+                             <div key={i} className="flex items-start space-x-1.5 text-[9px] leading-tight">
+                                 <AlertCircle className={`w-2.5 h-2.5 mt-px shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`} />
+                                 <span className={`font-mono shrink-0 ${issue.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}`}>{issue.path}</span>
+                                 <span className="text-slate-400">{issue.message}</span>
+                             </div>
+                         ))}
+                     </div>
+                 </div>
+             )}
+             
              <div className="grid grid-cols-2 gap-4 mt-1">
                 <div>
                     <span className="block text-slate-500 text-[10px] uppercase tracking-wider">Global Scale</span>
@@ -189,7 +241,7 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
 };
 
 const InstanceRow: React.FC<any> = ({ 
-    nodeId, index, state, sourceData, targetData, onAnalyze, onModelChange, onToggleMute, onReset, isAnalyzing, compactMode, activeKnowledge 
+    nodeId, index, state, sourceData, targetData, onAnalyze, onCancel, onModelChange, onToggleMute, onReset, isAnalyzing, compactMode, activeKnowledge 
 }) => {
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const activeModelConfig = MODELS[state.selectedModel as ModelKey];
@@ -201,7 +253,7 @@ const InstanceRow: React.FC<any> = ({
         if (chatContainerRef.current) {
             chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
         }
-    }, [state.chatHistory.length, isAnalyzing]);
+    }, [state.chatHistory.length, isAnalyzing, state.lastError]);
 
     useEffect(() => {
         const container = chatContainerRef.current;
@@ -269,6 +321,7 @@ const InstanceRow: React.FC<any> = ({
                             onMouseDown={(e) => e.stopPropagation()}
                             className={`nodrag nopan appearance-none text-[9px] px-2 py-1 pr-4 rounded font-mono font-bold cursor-pointer outline-none border transition-colors duration-300 ${activeModelConfig.badgeClass}`}
                         >
+                            <option value="heuristic" className="text-black bg-white">HEURISTIC</option>
                             <option value="gemini-3-flash" className="text-black bg-white">FLASH</option>
                             <option value="gemini-3-pro" className="text-black bg-white">PRO</option>
                             <option value="gemini-3-pro-thinking" className="text-black bg-white">DEEP</option>
@@ -362,6 +415,18 @@ const InstanceRow: React.FC<any> = ({
                             )}
                         </div>
                     )}
+                    {!isAnalyzing && state.lastError && (
+                        <div className={`flex items-start space-x-2 rounded border p-2 text-[10px] ${state.lastError.kind === 'cancelled' ? 'border-slate-600 bg-slate-800/60 text-slate-400' : 'border-red-500/40 bg-red-900/20 text-red-300'}`}>
+                            <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
+                            <div className="flex flex-col">
+                                <span className="font-bold uppercase tracking-wider">
+                                    {AI_ERROR_LABELS[state.lastError.kind]}
+                                    {state.lastError.attempts > 1 && <span className="font-normal normal-case text-slate-400 ml-1">after {state.lastError.attempts} attempts</span>}
+                                </span>
+                                {state.lastError.kind !== 'cancelled' && <span className="break-words">{state.lastError.message}</span>}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex items-center space-x-2 pt-2 border-t border-slate-700/30">
@@ -378,6 +443,32 @@ const InstanceRow: React.FC<any> = ({
                         <Play className="w-3 h-3 fill-current" />
                         <span>Run Design Analysis</span>
                      </button>
+                     {isAnalyzing && activeModelConfig.tier && (
+                         <button
+                            onClick={(e) => { e.stopPropagation(); onCancel(index); }}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className="nodrag nopan h-9 px-3 shrink-0 rounded flex items-center justify-center space-x-1 border bg-red-900/30 text-red-300 border-red-500/50 hover:bg-red-900/50 transition-colors text-[10px] font-bold uppercase tracking-wider"
+                            title="Cancel the running analysis"
+                         >
+                            <Square className="w-3 h-3 fill-current" />
+                            <span>Cancel</span>
+                         </button>
+                     )}
+                     {!isAnalyzing && activeModelConfig.tier && (
+                         <button
+                            onClick={(e) => { e.stopPropagation(); onAnalyze(index, true); }}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            disabled={!isReady || isAnalyzing}
+                            className={`nodrag nopan h-9 w-9 shrink-0 rounded flex items-center justify-center border transition-colors
+                                ${isReady && !isAnalyzing
+                                    ? 'bg-slate-800 text-slate-300 border-slate-600 hover:text-white hover:border-indigo-400'
+                                    : 'bg-slate-800 text-slate-600 cursor-not-allowed border-slate-700'
+                                }`}
+                            title="Force Re-run (bypass the analysis cache)"
+                         >
+                            <RefreshCw className="w-3 h-3" />
+                         </button>
+                     )}
                 </div>
             </div>
         </div>
@@ -390,6 +481,8 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   const instanceCount = data.instanceCount || 1;
   const analystInstances = data.analystInstances || {};
   const draftTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // In-flight model calls per instance (analysis and its draft preview), aborted by Cancel, Reset and re-runs
+  const abortControllersRef = useRef<Record<number, AbortController>>({});
   const edges = useEdges();
   const nodes = useNodes(); 
   const { setNodes } = useReactFlow();
@@ -440,13 +533,11 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     const edge = edges.find(e => e.target === id && e.targetHandle === `target-in-${index}`);
     if (!edge) return null;
     const template = templateRegistry[edge.source];
-    if (!template) return null;
-    let containerName = edge.sourceHandle;
-    if (containerName?.startsWith('slot-bounds-')) {
-        containerName = containerName.replace('slot-bounds-', '');
-    }
-    const container = template.containers.find(c => c.name === containerName);
-    return container ? { bounds: container.bounds, name: container.name } : null;
+    if (!template || !edge.sourceHandle) return null;
+    const container = findContainerByHandle(template, edge.sourceHandle);
+    if (!container) return null;
+    const safeBounds = getContainerSafeRect(template, container) ?? undefined;
+    return { bounds: container.bounds, name: container.name, constraints: container.constraints, polygon: container.polygon, safeBounds };
   }, [edges, id, templateRegistry]);
 
   const extractSourcePixels = async (
@@ -502,6 +593,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   useEffect(() => {
     const syntheticContainers: ContainerDefinition[] = [];
     let canvasDims = { width: 0, height: 0 };
+    let canvasOrigin = { x: 0, y: 0 }; // Artboard offset (bounds are document-absolute)
 
     for (let i = 0; i < instanceCount; i++) {
         const sourceData = getSourceData(i);
@@ -530,7 +622,10 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 const edge = edges.find(e => e.target === id && e.targetHandle === `target-in-${i}`);
                 if (edge) {
                     const t = templateRegistry[edge.source];
-                    if (t) canvasDims = t.canvas;
+                    if (t) {
+                        canvasDims = t.canvas;
+                        canvasOrigin = t.origin || canvasOrigin;
+                    }
                 }
             }
             syntheticContainers.push({
@@ -539,16 +634,23 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 originalName: targetData.name,
                 bounds: targetData.bounds,
                 normalized: {
-                    x: canvasDims.width ? targetData.bounds.x / canvasDims.width : 0,
-                    y: canvasDims.height ? targetData.bounds.y / canvasDims.height : 0,
+                    x: canvasDims.width ? (targetData.bounds.x - canvasOrigin.x) / canvasDims.width : 0,
+                    y: canvasDims.height ? (targetData.bounds.y - canvasOrigin.y) / canvasDims.height : 0,
                     w: canvasDims.width ? targetData.bounds.w / canvasDims.width : 0,
                     h: canvasDims.height ? targetData.bounds.h / canvasDims.height : 0,
-                }
+                },
+                // Inherited safe areas are flattened onto the proxy, which has no parent container
+                constraints: targetData.safeBounds
+                    ? { ...targetData.constraints, safeArea: getSafeAreaInsetsFromRect(targetData.bounds, targetData.safeBounds) }
+                    : targetData.constraints,
+                polygon: targetData.polygon
             });
         }
     }
     if (syntheticContainers.length > 0) {
         const syntheticTemplate: TemplateMetadata = {
+            id: `proxy-${id}`,
+            origin: canvasOrigin.x !== 0 || canvasOrigin.y !== 0 ? canvasOrigin : undefined,
             canvas: canvasDims.width > 0 ? canvasDims : { width: 1024, height: 1024 },
             containers: syntheticContainers
         };
@@ -585,7 +687,12 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     }));
   }, [id, setNodes]);
   
+  const handleCancel = useCallback((index: number) => {
+      abortControllersRef.current[index]?.abort();
+  }, []);
+
   const handleReset = useCallback((index: number) => {
+      abortControllersRef.current[index]?.abort();
       updateInstanceState(index, DEFAULT_INSTANCE_STATE);
       flushPipelineInstance(id, `source-out-${index}`);
   }, [updateInstanceState, flushPipelineInstance, id]);
@@ -599,33 +706,21 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       updateInstanceState(index, { isKnowledgeMuted: !currentState });
   };
 
-  const generateDraft = async (prompt: string, sourceReference?: string): Promise<string | null> => {
-     try {
-         const apiKey = process.env.API_KEY;
-         if (!apiKey) return null;
-         const ai = new GoogleGenAI({ apiKey });
-         const parts: any[] = [];
-         if (sourceReference) {
-             const base64Data = sourceReference.includes('base64,') ? sourceReference.split('base64,')[1] : sourceReference;
-             parts.push({ inlineData: { mimeType: 'image/png', data: base64Data } });
-         }
-         parts.push({ text: `Generate a draft sketch (256x256) for: ${prompt}` });
-         const response = await ai.models.generateContent({
-             model: 'gemini-2.5-flash-image',
-             contents: { parts },
-             config: { imageConfig: { aspectRatio: "1:1" } }
-         });
-         for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) { return `data:image/png;base64,${part.inlineData.data}`; }
-         }
-         return null;
-     } catch (e) {
-         console.error("Draft Generation Failed", e);
-         return null;
-     }
+  const generateDraft = async (prompt: string, sourceReference: string | undefined, signal: AbortSignal): Promise<string | null> => {
+     const provider = getAIProvider();
+     if (!provider.isAvailable) return null;
+     return runAIRequest(
+         requestSignal => provider.generateImage({
+             prompt: `Generate a draft sketch (256x256) for: ${prompt}`,
+             aspectRatio: "1:1",
+             reference: sourceReference,
+             signal: requestSignal
+         }),
+         { signal, timeoutMs: DEFAULT_AI_TIMEOUTS.image, label: 'Analyst Draft' }
+     );
   };
 
-  const generateSystemInstruction = (sourceData: any, targetData: any, effectiveRules: string | null) => {
+  const generateSystemInstruction = (sourceData: any, targetData: any, effectiveRules: string | null, baseline: LayoutStrategy) => {
     const sourceW = sourceData.container.bounds.w;
     const sourceH = sourceData.container.bounds.h;
     const targetW = targetData.bounds.w;
@@ -638,7 +733,9 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 id: l.id, name: l.name, type: l.type, depth: depth,
                 relX: (l.coords.x - sourceData.container.bounds.x) / sourceW,
                 relY: (l.coords.y - sourceData.container.bounds.y) / sourceH,
-                width: l.coords.w, height: l.coords.h
+                width: l.coords.w, height: l.coords.h,
+                ...(l.text ? { text: l.text.text.slice(0, 80), fontSize: Math.round(l.text.fontSize) } : {}),
+                ...(l.priority !== undefined ? { priority: l.priority } : {})
             });
             if (l.children) { flat = flat.concat(flattenLayers(l.children, depth + 1)); }
         });
@@ -647,6 +744,38 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
     const layerAnalysisData = flattenLayers(sourceData.layers as SerializableLayer[]);
 
+    // Template-authored constraints (e.g. '!!SYMBOLS[anchor=bottom; pad=24]') are non-negotiable defaults
+    const constraints: ContainerConstraints | undefined = targetData.constraints;
+    const constraintBlock = constraints ? `
+        TEMPLATE CONSTRAINTS (HARD DEFAULTS, authored in the target template):
+        ${constraints.anchor ? `- ANCHOR: '${constraints.anchor}'. Content is pinned to this edge/corner of the target; do not contradict it.` : ''}
+        ${constraints.pad !== undefined ? `- PADDING: ${constraints.pad}px inset on every side. Treat the usable area as ${Math.max(0, targetW - constraints.pad * 2)}x${Math.max(0, targetH - constraints.pad * 2)}.` : ''}
+        ${constraints.fit ? `- FIT: '${constraints.fit}'. The engine derives the global scale from this mode; 'suggestedScale' is ignored when a fit is set.` : ''}
+        ${constraints.priority !== undefined ? `- PRIORITY: ${constraints.priority} (lower = more important). Weigh this container accordingly when trading off space.` : ''}
+        Knowledge rules and intuition may refine per-layer overrides but MUST NOT violate these constraints.
+` : '';
+
+    // Safe area: UI chrome of the target platform (e.g. story header/reply bar) covers the insets
+    const safeBounds = targetData.safeBounds;
+    const safeAreaBlock = safeBounds ? `
+        SAFE AREA (HARD, target UI chrome covers everything outside it):
+        - Usable rect relative to the target: x=${Math.round(safeBounds.x - targetData.bounds.x)}, y=${Math.round(safeBounds.y - targetData.bounds.y)}, ${Math.round(safeBounds.w)}x${Math.round(safeBounds.h)}.
+        - Only 'background' layers may extend into the insets. Text, logos, CTAs and every other role MUST stay inside the usable rect.
+` : '';
+
+    // Rule-based pre-analysis: the model refines it instead of starting from scratch
+    const baselineBlock = `
+        HEURISTIC BASELINE (deterministic, derived from geometry only; no pixels, names or knowledge were considered):
+        ${JSON.stringify({
+            suggestedScale: baseline.suggestedScale,
+            anchor: baseline.anchor,
+            layoutMode: baseline.layoutMode,
+            physicsRules: baseline.physicsRules,
+            overrides: baseline.overrides
+        })}
+        Start from these values. Keep them unless the image, the layer semantics or the knowledge rules justify a change, and name every deviation in 'reasoning'.
+`;
+
     let prompt = `
         ROLE: Senior Visual Systems Lead & Expert Graphic Designer.
         GOAL: Perform "Knowledge-Anchored Semantic Recomposition" with Intuition Fallback.
@@ -657,7 +786,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         
         LAYER HIERARCHY (JSON):
         ${JSON.stringify(layerAnalysisData.slice(0, 100))}
-
+${constraintBlock}${safeAreaBlock}${baselineBlock}
         SEMANTIC ROLE PROTOCOL (THE DETECTIVE):
         You must classify every layer into one of the following roles based on Visual and Structural Heuristics. 
         DO NOT wait for explicit instructions; rely on the patterns below:
@@ -680,7 +809,11 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
         LAYOUT & PHYSICS PROTOCOL:
         - Extract 'LAYOUT_METHOD' from Knowledge (e.g. "GRID_DISTRIBUTION" -> layoutMode: 'DISTRIBUTE_HORIZONTAL' or 'GRID').
+        - For layoutMode 'GRID', optionally set 'gridConfig' (rows, cols, gutter in target px, align). Omit rows/cols to let the engine derive them from the target aspect ratio.
+        - The layoutMode applies to the top-level layers; when they form a single wrapper group, it applies to that group's children instead (nested symbol sets are distributed too).
         - Extract 'BOUNDARY_PHYSICS' (e.g. "No Clipping" -> physicsRules.preventClipping: true).
+        - Express relative placement as 'constraints': layerId.attribute <relation> toLayerId.toAttribute * multiplier + constant. 'toLayerId' must be a sibling; omit it to reference the Target Bounds (for layers inside a group: the group's box); unit '%' makes the constant relative to the target width/height (e.g. LOGO.left = TARGET.left + 5%; CTA.top >= TITLE.bottom + 16). 'overrides' remain hard pins and win any conflict.
+        - Rank layers by importance in 'layerPriorities' (1 = essential such as logo, headline, CTA; ${LAYER_PRIORITY_LOWEST} = decorative, legal, secondary copy). When the target forces a small scale the engine hides the highest numbers first; priority 1 is never hidden. A 'priority' in the layer JSON was set by the designer; only override it with a cited rule.
         - CRITICAL: Do NOT use 'suggestedScale' to calculate positions. 'suggestedScale' applies ONLY to the Width/Height of the element. X/Y coordinates must be derived relative to the Target Bounds.
 
         TRIANGULATION PROTOCOL:
@@ -712,7 +845,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         - Add any other critical mandates as UPPERCASE_SNAKE_CASE strings.
         
         GROUNDING PROTOCOL:
-        1. Link every visual observation to a Metadata ID [layer-ID] using the deterministic path IDs provided in the JSON hierarchy.
+        1. Link every visual observation to a Metadata ID [layer-ID] using the stable layer IDs provided in the JSON hierarchy.
         2. Use the Image for visual auditing and JSON for coordinate mapping.
         3. The top-left corner (0,0) of your visual workspace is the top-left of the Target Container (${targetData.name}).
 
@@ -753,7 +886,60 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     return prompt;
   };
 
-  const performAnalysis = async (index: number, history: ChatMessage[]) => {
+  // Appends the strategy to the chat and relays it downstream on `source-out-<index>`
+  const publishStrategy = (index: number, history: ChatMessage[], strategy: LayoutStrategy, text: string, sourceData: any, targetData: any): MappingContext => {
+      const newAiMessage: ChatMessage = {
+          id: Date.now().toString(),
+          role: 'model',
+          parts: [{ text }],
+          strategySnapshot: strategy,
+          timestamp: Date.now()
+      };
+
+      const finalHistory = [...history, newAiMessage];
+      
+      updateInstanceState(index, { chatHistory: finalHistory, layoutStrategy: strategy });
+
+      const isExplicitIntent = history.some(msg => msg.role === 'user' && /\b(generate|recreate|nano banana)\b/i.test(msg.parts[0].text));
+      
+      const augmentedContext: MappingContext = {
+          ...sourceData,
+          aiStrategy: { ...strategy, isExplicitIntent },
+          previewUrl: undefined,
+          targetDimensions: targetData ? { w: targetData.bounds.w, h: targetData.bounds.h } : undefined
+      };
+      
+      registerResolved(id, `source-out-${index}`, augmentedContext);
+      return augmentedContext;
+  };
+
+  // GENERATIVE / HYBRID strategies get a free draft preview once published (fresh or cached)
+  const scheduleDraftPreview = (index: number, strategy: LayoutStrategy, augmentedContext: MappingContext, signal: AbortSignal) => {
+      if ((strategy.method !== 'GENERATIVE' && strategy.method !== 'HYBRID') || !strategy.generativePrompt) return;
+      if (draftTimeoutRef.current) clearTimeout(draftTimeoutRef.current);
+      draftTimeoutRef.current = setTimeout(async () => {
+          try {
+              const url = await generateDraft(strategy.generativePrompt, strategy.sourceReference, signal);
+              if (url) {
+                  const contextWithPreview: MappingContext = {
+                      ...augmentedContext,
+                      previewUrl: url,
+                      message: "Free Preview: Draft"
+                  };
+                  registerResolved(id, `source-out-${index}`, contextWithPreview);
+              }
+          } catch (e) {
+              // The strategy stands without its preview; the failure is still surfaced on the instance
+              if (isCancelledError(e)) return;
+              console.error("Draft Generation Failed", e);
+              const failure = toAIRequestFailure(e);
+              updateInstanceState(index, { lastError: { ...failure, message: `Draft preview: ${failure.message}` } });
+          }
+      }, 500);
+  };
+
+  // `force` skips the cache lookup; the fresh result replaces the cached one
+  const performAnalysis = async (index: number, history: ChatMessage[], force = false) => {
       const sourceData = getSourceData(index);
       const targetData = getTargetData(index);
       if (!sourceData || !targetData) return;
@@ -772,17 +958,53 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
       const effectiveKnowledge = (!isMuted && activeKnowledge) ? activeKnowledge : null;
 
+      abortControllersRef.current[index]?.abort();
+      const controller = new AbortController();
+      abortControllersRef.current[index] = controller;
+
       setAnalyzingInstances(prev => ({ ...prev, [index]: true }));
 
       try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY missing");
+        const baseline = analyzeLayoutHeuristically({
+            layers: sourceData.layers as SerializableLayer[],
+            sourceRect: sourceData.container.bounds,
+            targetRect: targetData.bounds,
+            safeRect: targetData.safeBounds,
+            constraints: targetData.constraints
+        });
 
-        const ai = new GoogleGenAI({ apiKey });
-        const systemInstruction = generateSystemInstruction(sourceData, targetData, effectiveRules);
-        
+        if (!modelConfig.tier) {
+            publishStrategy(index, history, isMuted ? { ...baseline, knowledgeMuted: true } : baseline, baseline.reasoning, sourceData, targetData);
+            return;
+        }
+
+        const provider = getAIProvider();
         const sourcePixelsBase64 = await extractSourcePixels(sourceData.layers as SerializableLayer[], sourceData.container.bounds);
 
+        const cacheKey = await getAnalysisCacheKey({
+            kind: 'analyst',
+            provider: provider.id,
+            model: instanceState.selectedModel,
+            modelName: provider.getModel(modelConfig.tier),
+            layers: sourceData.layers,
+            pixels: sourcePixelsBase64,
+            target: { name: targetData.name, bounds: targetData.bounds, safeBounds: targetData.safeBounds, constraints: targetData.constraints, polygon: targetData.polygon },
+            rules: effectiveRules,
+            anchors: effectiveKnowledge?.visualAnchors?.map(anchor => anchor.data),
+            history
+        });
+        const cached = cacheKey && !force ? await readCachedAnalysis<CachedStrategy>(cacheKey) : null;
+        if (cached) {
+            const cachedStrategy = { ...cached.value.strategy, cachedAt: cached.createdAt };
+            const cachedContext = publishStrategy(index, history, cachedStrategy, cached.value.text, sourceData, targetData);
+            scheduleDraftPreview(index, cachedStrategy, cachedContext, controller.signal);
+            return;
+        }
+
+        if (!provider.isAvailable) throw new AIRequestError('unavailable', "AI provider not configured");
+
+        const systemInstruction = generateSystemInstruction(sourceData, targetData, effectiveRules, baseline);
+
         const apiContents = history.map(msg => ({ role: msg.role, parts: [...msg.parts] }));
         const lastMessage = apiContents[apiContents.length - 1];
 
@@ -806,91 +1028,134 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             lastMessage.parts = newParts;
         }
 
-        const requestConfig: any = {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    reasoning: { type: Type.STRING },
-                    method: { 
-                        type: Type.STRING, 
-                        enum: ['GEOMETRIC', 'GENERATIVE', 'HYBRID'],
-                        description: "Knowledge-Locked Property. Defaults to 'GEOMETRIC'. 'GENERATIVE'/'HYBRID' require explicit rule authorization."
+        const responseSchema: ResponseSchema = {
+            type: Type.OBJECT,
+            properties: {
+                reasoning: { type: Type.STRING },
+                method: { 
+                    type: Type.STRING, 
+                    enum: ['GEOMETRIC', 'GENERATIVE', 'HYBRID'],
+                    description: "Knowledge-Locked Property. Defaults to 'GEOMETRIC'. 'GENERATIVE'/'HYBRID' require explicit rule authorization."
+                },
+                suggestedScale: { type: Type.NUMBER },
+                anchor: { type: Type.STRING, enum: ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] },
+                generativePrompt: { type: Type.STRING },
+                clearance: { type: Type.BOOLEAN },
+                knowledgeApplied: { type: Type.BOOLEAN },
+                directives: { type: Type.ARRAY, items: { type: Type.STRING } },
+                replaceLayerId: { type: Type.STRING },
+                
+                triangulation: {
+                    type: Type.OBJECT,
+                    properties: {
+                        visual_identification: { type: Type.STRING },
+                        knowledge_correlation: { type: Type.STRING },
+                        metadata_validation: { type: Type.STRING },
+                        evidence_count: { type: Type.NUMBER },
+                        confidence_verdict: { type: Type.STRING, enum: ['HIGH', 'MEDIUM', 'LOW'] }
                     },
-                    suggestedScale: { type: Type.NUMBER },
-                    anchor: { type: Type.STRING, enum: ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] },
-                    generativePrompt: { type: Type.STRING },
-                    clearance: { type: Type.BOOLEAN },
-                    knowledgeApplied: { type: Type.BOOLEAN },
-                    directives: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    replaceLayerId: { type: Type.STRING },
-                    
-                    triangulation: {
+                    required: ['visual_identification', 'knowledge_correlation', 'metadata_validation', 'evidence_count', 'confidence_verdict']
+                },
+                
+                layoutMode: { 
+                    type: Type.STRING, 
+                    enum: ['STANDARD', 'DISTRIBUTE_HORIZONTAL', 'DISTRIBUTE_VERTICAL', 'GRID'] 
+                },
+                gridConfig: {
+                    type: Type.OBJECT,
+                    properties: {
+                        rows: { type: Type.INTEGER },
+                        cols: { type: Type.INTEGER },
+                        gutter: { type: Type.NUMBER },
+                        align: { type: Type.STRING, enum: ['start', 'center', 'end'] }
+                    }
+                },
+                physicsRules: {
+                    type: Type.OBJECT,
+                    properties: {
+                        preventOverlap: { type: Type.BOOLEAN },
+                        preventClipping: { type: Type.BOOLEAN },
+                        overlapPadding: { type: Type.NUMBER }
+                    }
+                },
+                constraints: {
+                    type: Type.ARRAY,
+                    items: {
                         type: Type.OBJECT,
                         properties: {
-                            visual_identification: { type: Type.STRING },
-                            knowledge_correlation: { type: Type.STRING },
-                            metadata_validation: { type: Type.STRING },
-                            evidence_count: { type: Type.NUMBER },
-                            confidence_verdict: { type: Type.STRING, enum: ['HIGH', 'MEDIUM', 'LOW'] }
+                            layerId: { type: Type.STRING },
+                            attribute: { type: Type.STRING, enum: ['left', 'right', 'top', 'bottom', 'centerX', 'centerY', 'width', 'height', 'aspectRatio'] },
+                            relation: { type: Type.STRING, enum: ['eq', 'le', 'ge'] },
+                            toLayerId: { type: Type.STRING },
+                            toAttribute: { type: Type.STRING, enum: ['left', 'right', 'top', 'bottom', 'centerX', 'centerY', 'width', 'height'] },
+                            multiplier: { type: Type.NUMBER },
+                            constant: { type: Type.NUMBER },
+                            unit: { type: Type.STRING, enum: ['px', '%'] },
+                            strength: { type: Type.STRING, enum: ['required', 'strong', 'medium', 'weak'] }
                         },
-                        required: ['visual_identification', 'knowledge_correlation', 'metadata_validation', 'evidence_count', 'confidence_verdict']
-                    },
-                    
-                    layoutMode: { 
-                        type: Type.STRING, 
-                        enum: ['STANDARD', 'DISTRIBUTE_HORIZONTAL', 'DISTRIBUTE_VERTICAL', 'GRID'] 
-                    },
-                    physicsRules: {
+                        required: ['layerId', 'attribute', 'relation']
+                    }
+                },
+                layerPriorities: {
+                    type: Type.ARRAY,
+                    items: {
                         type: Type.OBJECT,
                         properties: {
-                            preventOverlap: { type: Type.BOOLEAN },
-                            preventClipping: { type: Type.BOOLEAN }
-                        }
-                    },
+                            layerId: { type: Type.STRING },
+                            priority: { type: Type.INTEGER }
+                        },
+                        required: ['layerId', 'priority']
+                    }
+                },
 
-                    overrides: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                layerId: { type: Type.STRING },
-                                xOffset: { type: Type.NUMBER },
-                                yOffset: { type: Type.NUMBER },
-                                individualScale: { type: Type.NUMBER },
-                                citedRule: { type: Type.STRING },
-                                anchorIndex: { type: Type.INTEGER },
-                                layoutRole: { type: Type.STRING, enum: ['flow', 'static', 'overlay', 'background'] },
-                                linkedAnchorId: { type: Type.STRING }
-                            },
-                            required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
-                        }
-                    },
-                    safetyReport: {
+                overrides: {
+                    type: Type.ARRAY,
+                    items: {
                         type: Type.OBJECT,
                         properties: {
-                            allowedBleed: { type: Type.BOOLEAN },
-                            violationCount: { type: Type.INTEGER }
+                            layerId: { type: Type.STRING },
+                            xOffset: { type: Type.NUMBER },
+                            yOffset: { type: Type.NUMBER },
+                            individualScale: { type: Type.NUMBER },
+                            citedRule: { type: Type.STRING },
+                            anchorIndex: { type: Type.INTEGER },
+                            layoutRole: { type: Type.STRING, enum: ['flow', 'static', 'overlay', 'background'] },
+                            linkedAnchorId: { type: Type.STRING }
                         },
-                        required: ['allowedBleed', 'violationCount']
+                        required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
                     }
                 },
-                required: ['reasoning', 'method', 'suggestedScale', 'anchor', 'generativePrompt', 'clearance', 'overrides', 'safetyReport', 'knowledgeApplied', 'directives', 'replaceLayerId', 'triangulation']
-            }
+                safetyReport: {
+                    type: Type.OBJECT,
+                    properties: {
+                        allowedBleed: { type: Type.BOOLEAN },
+                        violationCount: { type: Type.INTEGER }
+                    },
+                    required: ['allowedBleed', 'violationCount']
+                }
+            },
+            required: ['reasoning', 'method', 'suggestedScale', 'anchor', 'generativePrompt', 'clearance', 'overrides', 'safetyReport', 'knowledgeApplied', 'directives', 'replaceLayerId', 'triangulation']
         };
-        
-        if (modelConfig.thinkingBudget) {
-            requestConfig.thinkingConfig = { thinkingBudget: modelConfig.thinkingBudget };
-        }
-
-        const response = await ai.models.generateContent({
-            model: modelConfig.apiModel,
-            contents: apiContents,
-            config: requestConfig
-        });
 
-        const json = JSON.parse(response.text || '{}');
+        const validationContext = {
+            layerIds: collectLayerIds(sourceData.layers as SerializableLayer[]),
+            anchorCount: effectiveKnowledge?.visualAnchors?.length ?? 0,
+            fallback: baseline
+        };
+        const { value: validated, text: responseText, report } = await generateValidatedJson(
+            provider,
+            {
+                tier: modelConfig.tier,
+                systemInstruction,
+                contents: apiContents,
+                schema: responseSchema,
+                thinkingBudget: modelConfig.thinkingBudget
+            },
+            raw => validateLayoutStrategy(raw, validationContext),
+            undefined,
+            { signal: controller.signal, timeoutMs: modelConfig.timeoutMs, label: `Analyst #${index + 1}` }
+        );
+        const json: LayoutStrategy = { ...validated, validationReport: report };
         
         if ((json.method === 'GENERATIVE' || json.method === 'HYBRID') && json.replaceLayerId) {
              const isolatedTexture = await extractSourcePixels(
@@ -911,60 +1176,29 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         
         if (isMuted) json.knowledgeMuted = true;
 
-        const newAiMessage: ChatMessage = {
-            id: Date.now().toString(),
-            role: 'model',
-            parts: [{ text: response.text || '' }],
-            strategySnapshot: json,
-            timestamp: Date.now()
-        };
+        if (cacheKey) writeCachedAnalysis<CachedStrategy>(cacheKey, 'analyst', { strategy: json, text: responseText });
 
-        const finalHistory = [...history, newAiMessage];
-        
-        updateInstanceState(index, { chatHistory: finalHistory, layoutStrategy: json });
+        const augmentedContext = publishStrategy(index, history, json, responseText, sourceData, targetData);
 
-        const isExplicitIntent = history.some(msg => msg.role === 'user' && /\b(generate|recreate|nano banana)\b/i.test(msg.parts[0].text));
-        
-        const augmentedContext: MappingContext = {
-            ...sourceData,
-            aiStrategy: { ...json, isExplicitIntent },
-            previewUrl: undefined,
-            targetDimensions: targetData ? { w: targetData.bounds.w, h: targetData.bounds.h } : undefined
-        };
-        
-        registerResolved(id, `source-out-${index}`, augmentedContext);
-
-        if ((json.method === 'GENERATIVE' || json.method === 'HYBRID') && json.generativePrompt) {
-             if (draftTimeoutRef.current) clearTimeout(draftTimeoutRef.current);
-             draftTimeoutRef.current = setTimeout(async () => {
-                 const url = await generateDraft(json.generativePrompt, json.sourceReference);
-                 if (url) {
-                     const contextWithPreview: MappingContext = {
-                         ...augmentedContext,
-                         previewUrl: url,
-                         message: "Free Preview: Draft"
-                     };
-                     registerResolved(id, `source-out-${index}`, contextWithPreview);
-                 }
-             }, 500);
-        }
+        scheduleDraftPreview(index, json, augmentedContext, controller.signal);
 
       } catch (e: any) {
-          console.error("Analysis Failed:", e);
+          if (!isCancelledError(e)) console.error("Analysis Failed:", e);
+          updateInstanceState(index, { lastError: toAIRequestFailure(e) });
       } finally {
           setAnalyzingInstances(prev => ({ ...prev, [index]: false }));
       }
   };
 
-  const handleAnalyze = (index: number) => {
+  const handleAnalyze = (index: number, force = false) => {
       const initialMsg: ChatMessage = {
           id: Date.now().toString(),
           role: 'user',
           parts: [{ text: "Generate grid layout." }],
           timestamp: Date.now()
       };
-      updateInstanceState(index, { chatHistory: [initialMsg] });
-      performAnalysis(index, [initialMsg]);
+      updateInstanceState(index, { chatHistory: [initialMsg], lastError: null });
+      performAnalysis(index, [initialMsg], force);
   };
 
   return (
@@ -1003,7 +1237,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
               return (
                   <InstanceRow 
                       key={i} nodeId={id} index={i} state={state} sourceData={getSourceData(i)} targetData={getTargetData(i)}
-                      onAnalyze={handleAnalyze} onModelChange={handleModelChange} onToggleMute={handleToggleMute} onReset={handleReset}
+                      onAnalyze={handleAnalyze} onCancel={handleCancel} onModelChange={handleModelChange} onToggleMute={handleToggleMute} onReset={handleReset}
                       isAnalyzing={!!analyzingInstances[i]} compactMode={instanceCount > 1}
                       activeKnowledge={activeKnowledge}
                   />
@@ -2,14 +2,20 @@ import React, { memo, useState, useEffect, useCallback, useMemo, useRef } from '
 import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals, useEdges, useNodes } from 'reactflow';
 import { PSDNodeData, TransformedPayload, LayerOverride, ChatMessage, ReviewerStrategy, ReviewerInstanceState, TransformedLayer, FeedbackStrategy } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Check, MessageSquare, AlertCircle, ShieldCheck, Search, Activity, Brain, Ban, Link as LinkIcon, Layers, Lock, Move, Anchor, Zap } from 'lucide-react';
+import { getAIProvider, Type } from '../services/aiProvider';
+import { collectLayerIds, generateValidatedJson, validateReviewerStrategy } from '../services/strategyValidator';
+import { getAnalysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from '../services/analysisCache';
+import { AIRequestError, AI_ERROR_LABELS, isCancelledError, toAIRequestFailure } from '../services/requestRunner';
+import { Check, MessageSquare, AlertCircle, ShieldCheck, Search, Activity, Brain, Ban, Link as LinkIcon, Layers, Lock, Move, Anchor, Zap, Eye, EyeOff, RefreshCw, Square } from 'lucide-react';
 
 const DEFAULT_INSTANCE_STATE: ReviewerInstanceState = {
     chatHistory: [],
     reviewerStrategy: null
 };
 
+// Analysis cache entry: the adjustment and the chat reply it was shown with
+type CachedAdjustment = { strategy: ReviewerStrategy, text: string };
+
 interface SemanticBadgeProps {
     role?: 'flow' | 'static' | 'overlay' | 'background';
     anchorId?: string;
@@ -87,9 +93,9 @@ const checkSynchronization = (payload: TransformedPayload | null, strategy: Revi
 };
 
 const ReviewerInstanceRow = memo(({ 
-    index, instanceState, payload, onChat, onVerify, onCommit, isPolished, isAnalyzing, isSyncing, activeKnowledge 
+    index, instanceState, payload, onChat, onCancel, onForceRerun, onVerify, onCommit, onRestoreLayers, isPolished, isAnalyzing, isSyncing, activeKnowledge 
 }: { 
-    index: number, instanceState: ReviewerInstanceState, payload: TransformedPayload | null, onChat: (idx: number, msg: string) => void, onVerify: (idx: number) => void, onCommit: (idx: number) => void, isPolished: boolean, isAnalyzing: boolean, isSyncing: boolean, activeKnowledge: any 
+    index: number, instanceState: ReviewerInstanceState, payload: TransformedPayload | null, onChat: (idx: number, msg: string) => void, onCancel: (idx: number) => void, onForceRerun: (idx: number) => void, onVerify: (idx: number) => void, onCommit: (idx: number) => void, onRestoreLayers: (idx: number, layerIds: string[]) => void, isPolished: boolean, isAnalyzing: boolean, isSyncing: boolean, activeKnowledge: any 
 }) => {
     const [inputValue, setInputValue] = useState("");
     const [isInspectorOpen, setInspectorOpen] = useState(false);
@@ -104,6 +110,7 @@ const ReviewerInstanceRow = memo(({
     else if (triangulation?.confidence_verdict === 'LOW') confidenceColor = 'text-red-300 bg-red-900/30 border-red-500/50';
     
     const hasStrategy = !!instanceState.reviewerStrategy?.overrides?.length;
+    const restoredLayerIds = instanceState.restoredLayerIds || [];
 
     // Detect Synchronization Status & Auto-Verify
     useEffect(() => {
@@ -176,6 +183,19 @@ const ReviewerInstanceRow = memo(({
                  </div>
 
                  <div className="flex items-center space-x-2">
+                     {/* Cached adjustment: replayed without a model call */}
+                     {instanceState.reviewerStrategy?.cachedAt && (
+                         <button
+                            onClick={() => onForceRerun(index)}
+                            disabled={isAnalyzing}
+                            className="flex items-center space-x-1 px-1.5 py-0.5 rounded border border-cyan-500/50 text-cyan-300 bg-cyan-900/20 hover:bg-cyan-900/40 disabled:opacity-50 text-[9px] font-mono font-bold transition-colors"
+                            title={`Cached result from ${new Date(instanceState.reviewerStrategy.cachedAt).toLocaleString()}. Click to force a re-run.`}
+                         >
+                             <RefreshCw className={`w-2.5 h-2.5 ${isAnalyzing ? 'animate-spin' : ''}`} />
+                             <span>CACHED</span>
+                         </button>
+                     )}
+
                      {/* Semantic Inspector Toggle */}
                      <button 
                         onClick={() => setInspectorOpen(!isInspectorOpen)}
@@ -257,6 +277,39 @@ const ReviewerInstanceRow = memo(({
                 </div>
             )}
 
+            {/* Priority Drops: layers the Remapper hid on a small target */}
+            {(payload.droppedLayers || restoredLayerIds.length > 0) && (
+                <div className="px-3 pb-3">
+                    <div className="bg-amber-900/10 border border-amber-500/30 rounded p-2 flex flex-col space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[9px] font-bold text-amber-300 uppercase tracking-wider flex items-center gap-1">
+                                <EyeOff className="w-3 h-3" />
+                                Dropped Layers
+                            </span>
+                            {restoredLayerIds.length > 0 && (
+                                <button onClick={() => onRestoreLayers(index, [])} className="text-[8px] text-slate-400 hover:text-amber-200 uppercase tracking-wider" title="Let the Remapper drop restored layers again">
+                                    Reset {restoredLayerIds.length} Restored
+                                </button>
+                            )}
+                        </div>
+                        {payload.droppedLayers?.map(dropped => (
+                            <div key={dropped.layerId} className="flex items-center justify-between gap-2">
+                                <div className="flex flex-col min-w-0">
+                                    <span className="text-[10px] text-slate-300 truncate" title={dropped.layerName}>{dropped.layerName} <span className="text-[8px] text-amber-400/80 font-mono">P{dropped.priority}</span></span>
+                                    <span className="text-[8px] text-slate-500 leading-tight">{dropped.reason}</span>
+                                </div>
+                                <button
+                                    onClick={() => onRestoreLayers(index, [...restoredLayerIds, dropped.layerId])}
+                                    className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded border border-amber-500/40 text-amber-300 hover:bg-amber-500/20 text-[8px] font-bold uppercase tracking-wider transition-colors"
+                                >
+                                    <Eye className="w-2.5 h-2.5" /> Restore
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Manual Control / Chat Interface */}
             <div className="px-3 pb-3">
                 {instanceState.chatHistory.length > 0 && (
@@ -271,6 +324,23 @@ const ReviewerInstanceRow = memo(({
                         <div ref={chatEndRef} />
                     </div>
                 )}
+
+                {!isAnalyzing && instanceState.lastError && (
+                    <div className={`mb-2 flex items-start gap-1.5 px-2 py-1.5 rounded border text-[9px] ${instanceState.lastError.kind === 'cancelled' ? 'border-slate-600 bg-slate-800/60 text-slate-400' : 'border-red-500/40 bg-red-900/20 text-red-300'}`}>
+                        <AlertCircle className="w-3 h-3 shrink-0" />
+                        <span className="break-words">
+                            <span className="font-bold uppercase tracking-wider">{AI_ERROR_LABELS[instanceState.lastError.kind]}</span>
+                            {instanceState.lastError.kind !== 'cancelled' && `: ${instanceState.lastError.message}`}
+                            {instanceState.lastError.attempts > 1 && ` (${instanceState.lastError.attempts} attempts)`}
+                        </span>
+                        <button
+                            onClick={() => onForceRerun(index)}
+                            className="ml-auto shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded border border-slate-600 text-slate-300 hover:bg-slate-700 text-[8px] font-bold uppercase tracking-wider transition-colors"
+                        >
+                            <RefreshCw className="w-2.5 h-2.5" /> Retry
+                        </button>
+                    </div>
+                )}
                 
                 <div className="relative flex items-center">
                     <div className="absolute left-2 text-slate-500">
@@ -285,13 +355,23 @@ const ReviewerInstanceRow = memo(({
                         disabled={isAnalyzing}
                         className="w-full bg-slate-900 border border-slate-700 rounded pl-8 pr-8 py-1.5 text-[10px] text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500 transition-colors"
                     />
-                    <button 
-                        onClick={handleSend}
-                        disabled={!inputValue.trim() || isAnalyzing}
-                        className="absolute right-1.5 text-indigo-400 hover:text-indigo-300 disabled:opacity-30 disabled:cursor-not-allowed"
-                    >
-                         <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
-                    </button>
+                    {isAnalyzing ? (
+                        <button 
+                            onClick={() => onCancel(index)}
+                            className="absolute right-1.5 text-red-400 hover:text-red-300"
+                            title="Cancel the adjustment request"
+                        >
+                             <Square className="w-3 h-3 fill-current" />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSend}
+                            disabled={!inputValue.trim()}
+                            className="absolute right-1.5 text-indigo-400 hover:text-indigo-300 disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                             <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -304,9 +384,11 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     const edges = useEdges();
     const { setNodes } = useReactFlow();
     const updateNodeInternals = useUpdateNodeInternals();
-    const { payloadRegistry, updatePayload, unregisterNode, knowledgeRegistry, registerFeedback } = useProceduralStore();
+    const { payloadRegistry, updatePayload, unregisterNode, knowledgeRegistry, registerFeedback, feedbackRegistry } = useProceduralStore();
     const [analyzingInstances, setAnalyzingInstances] = useState<Record<number, boolean>>({});
     const [syncingInstances, setSyncingInstances] = useState<Record<number, boolean>>({});
+    // In-flight adjustment requests per instance, aborted by Cancel and superseded requests
+    const abortControllersRef = useRef<Record<number, AbortController>>({});
 
     useEffect(() => { return () => unregisterNode(id); }, [id, unregisterNode]);
     useEffect(() => { updateNodeInternals(id); }, [id, instanceCount, updateNodeInternals]);
@@ -345,13 +427,38 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         }));
     }, [id, setNodes]);
 
-    const performManualAudit = async (index: number, userMessage: string, currentHistory: ChatMessage[], payload: TransformedPayload) => {
+    // `force` skips the cache lookup; the fresh result replaces the cached one
+    const performManualAudit = async (index: number, userMessage: string, currentHistory: ChatMessage[], payload: TransformedPayload, force = false) => {
+        abortControllersRef.current[index]?.abort();
+        const controller = new AbortController();
+        abortControllersRef.current[index] = controller;
         setAnalyzingInstances(prev => ({ ...prev, [index]: true }));
         
         try {
-            const apiKey = process.env.API_KEY;
-            if (!apiKey) throw new Error("API_KEY missing");
-            const ai = new GoogleGenAI({ apiKey });
+            const provider = getAIProvider();
+            const promptLayers = payload.layers.map(l => ({ id: l.id, name: l.name, x: l.coords.x, y: l.coords.y }));
+
+            const cacheKey = await getAnalysisCacheKey({
+                kind: 'reviewer',
+                provider: provider.id,
+                model: 'review',
+                modelName: provider.getModel('review'),
+                layers: promptLayers,
+                rules: activeKnowledge ? activeKnowledge.rules : null,
+                history: currentHistory,
+                prompt: userMessage
+            });
+            const cached = cacheKey && !force ? await readCachedAnalysis<CachedAdjustment>(cacheKey) : null;
+            if (cached) {
+                const cachedMessage: ChatMessage = { id: Date.now().toString(), role: 'model', parts: [{ text: cached.value.text }], timestamp: Date.now() };
+                updateInstanceState(index, {
+                    chatHistory: [...currentHistory, cachedMessage],
+                    reviewerStrategy: { ...cached.value.strategy, cachedAt: cached.createdAt }
+                });
+                return;
+            }
+
+            if (!provider.isAvailable) throw new AIRequestError('unavailable', "AI provider not configured");
 
             const systemInstruction = `
                 ROLE: Design Reviewer (Manual Override Mode).
@@ -359,7 +466,7 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 CONTEXT: You are modifying a previously generated layout.
                 
                 CURRENT LAYERS (Simplified):
-                ${JSON.stringify(payload.layers.map(l => ({ id: l.id, name: l.name, x: l.coords.x, y: l.coords.y })), null, 2)}
+                ${JSON.stringify(promptLayers, null, 2)}
 
                 KNOWLEDGE CONTEXT:
                 ${activeKnowledge ? activeKnowledge.rules : "No active rules."}
@@ -378,55 +485,56 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 If the user says "Move title down 10px", find the title layer and add 10 to its yOffset.
             `;
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
+            const layerIds = collectLayerIds(payload.layers);
+            const { value: strategy, data: json, report } = await generateValidatedJson(provider, {
+                tier: 'review',
                 contents: [{ role: 'user', parts: [{ text: userMessage }] }],
-                config: {
-                    systemInstruction,
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            reasoning: { type: Type.STRING },
-                            overrides: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        layerId: { type: Type.STRING },
-                                        xOffset: { type: Type.NUMBER },
-                                        yOffset: { type: Type.NUMBER },
-                                        individualScale: { type: Type.NUMBER }
-                                    },
-                                    required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
-                                }
+                systemInstruction,
+                schema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        reasoning: { type: Type.STRING },
+                        overrides: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    layerId: { type: Type.STRING },
+                                    xOffset: { type: Type.NUMBER },
+                                    yOffset: { type: Type.NUMBER },
+                                    individualScale: { type: Type.NUMBER }
+                                },
+                                required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
                             }
                         }
                     }
                 }
-            });
-
-            const json = JSON.parse(response.text || '{}');
+            }, raw => validateReviewerStrategy(raw, { layerIds }), undefined, { signal: controller.signal, label: `Reviewer #${index + 1}` });
+            
+            const repairedCount = report.issues.filter(i => i.severity === 'error').length;
+            const reasoning = typeof json?.reasoning === 'string' && json.reasoning ? json.reasoning : "Adjustments applied.";
             
             // Construct the AI response message
             const aiMessage: ChatMessage = {
                 id: Date.now().toString(),
                 role: 'model',
-                parts: [{ text: json.reasoning || "Adjustments applied." }],
+                parts: [{ text: repairedCount > 0 ? `${reasoning}\n\n(${repairedCount} invalid field(s) were dropped or defaulted: ${report.issues.filter(i => i.severity === 'error').map(i => i.path).join(', ')})` : reasoning }],
                 timestamp: Date.now()
             };
 
             // Update Chat History and Reviewer Strategy
             const newHistory = [...currentHistory, aiMessage];
+            const reviewerStrategy: ReviewerStrategy = { CARO_Audit: "Manual Adjustment", overrides: strategy.overrides, validationReport: report };
             updateInstanceState(index, { 
                 chatHistory: newHistory, 
-                reviewerStrategy: { CARO_Audit: "Manual Adjustment", overrides: json.overrides } 
+                reviewerStrategy 
             });
+            if (cacheKey) writeCachedAnalysis<CachedAdjustment>(cacheKey, 'reviewer', { strategy: reviewerStrategy, text: aiMessage.parts[0].text });
 
         } catch (e) {
-            console.error("Manual Audit Failed", e);
-            const errorMsg: ChatMessage = { id: Date.now().toString(), role: 'model', parts: [{ text: "Failed to process adjustment." }], timestamp: Date.now() };
-            updateInstanceState(index, { chatHistory: [...currentHistory, errorMsg] });
+            // The request stays in the history so Force Re-run can resend it
+            if (!isCancelledError(e)) console.error("Manual Audit Failed", e);
+            updateInstanceState(index, { lastError: toAIRequestFailure(e) });
         } finally {
             setAnalyzingInstances(prev => ({ ...prev, [index]: false }));
         }
@@ -449,11 +557,29 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         };
 
         const newHistory = [...instanceState.chatHistory, userMsg];
-        updateInstanceState(index, { chatHistory: newHistory });
+        updateInstanceState(index, { chatHistory: newHistory, lastError: null });
 
         performManualAudit(index, message, newHistory, sourcePayload);
     };
 
+    // Re-sends the last adjustment request past the cache (the cached reply is replaced)
+    const handleForceRerun = (index: number) => {
+        const instanceState = reviewerInstances[index] || DEFAULT_INSTANCE_STATE;
+        const edge = edges.find(e => e.target === id && e.targetHandle === `source-in-${index}`);
+        const sourcePayload = edge ? payloadRegistry[edge.source]?.[edge.sourceHandle || ''] : null;
+
+        const lastUserIndex = instanceState.chatHistory.map(msg => msg.role).lastIndexOf('user');
+        if (!sourcePayload || lastUserIndex < 0) return;
+
+        const history = instanceState.chatHistory.slice(0, lastUserIndex + 1);
+        updateInstanceState(index, { chatHistory: history, lastError: null });
+        performManualAudit(index, history[lastUserIndex].parts[0].text, history, sourcePayload, true);
+    };
+
+    const handleCancel = useCallback((index: number) => {
+        abortControllersRef.current[index]?.abort();
+    }, []);
+
     const handleCommit = useCallback((index: number) => {
         const instanceState = (data.reviewerInstances || {})[index];
         if (!instanceState?.reviewerStrategy) return;
@@ -466,6 +592,7 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     
         const feedback: FeedbackStrategy = {
             overrides: instanceState.reviewerStrategy.overrides,
+            restoredLayerIds: instanceState.restoredLayerIds,
             isCommitted: true
         };
     
@@ -481,6 +608,19 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         }, 600);
     }, [data.reviewerInstances, findUpstreamRemapper, registerFeedback]);
 
+    // Restores apply immediately and keep whatever overrides were already pushed
+    const handleRestoreLayers = useCallback((index: number, layerIds: string[]) => {
+        const upstream = findUpstreamRemapper(index);
+        if (!upstream) {
+            console.warn("No upstream Remapper found for restore");
+            return;
+        }
+
+        updateInstanceState(index, { restoredLayerIds: layerIds });
+        const current = feedbackRegistry[upstream.nodeId]?.[upstream.handleId];
+        registerFeedback(upstream.nodeId, upstream.handleId, { ...current, overrides: current?.overrides || [], restoredLayerIds: layerIds });
+    }, [findUpstreamRemapper, updateInstanceState, feedbackRegistry, registerFeedback]);
+
     const handleVerify = (index: number) => {
         // "Verify" passes the payload through as 'polished' without changing geometry.
         const edge = edges.find(e => e.target === id && e.targetHandle === `source-in-${index}`);
@@ -548,8 +688,11 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                                 instanceState={instanceState}
                                 payload={sourcePayload}
                                 onChat={handleChat}
+                                onCancel={handleCancel}
+                                onForceRerun={handleForceRerun}
                                 onVerify={handleVerify}
                                 onCommit={handleCommit}
+                                onRestoreLayers={handleRestoreLayers}
                                 isPolished={isPolished}
                                 isAnalyzing={!!analyzingInstances[i]}
                                 isSyncing={!!syncingInstances[i]}
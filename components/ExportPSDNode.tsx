@@ -1,10 +1,11 @@
-import React, { memo, useState, useMemo, useEffect } from 'react';
+import React, { memo, useState, useMemo, useEffect, useRef } from 'react';
 import { Handle, Position, NodeProps, useEdges, useUpdateNodeInternals } from 'reactflow';
-import { TransformedLayer, TransformedPayload, MappingContext } from '../types';
+import { TransformedLayer, TransformedPayload, MappingContext, ContainerDefinition } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath, writePsdFile } from '../services/psdService';
-import { Layer, Psd } from 'ag-psd';
-import { GoogleGenAI } from "@google/genai";
+import { findContainerByHandle, findLayerByPath, writePsdFile, drawTextLayer, getEffectScale, scaleLayerEffects } from '../services/psdService';
+import { Layer, Psd, LayerTextData, TextStyle } from 'ag-psd';
+import { getAIProvider } from '../services/aiProvider';
+import { AIRequestError, AI_ERROR_LABELS, DEFAULT_AI_TIMEOUTS, isCancelledError, runAIRequest, toAIRequestFailure } from '../services/requestRunner';
 
 // Helper: Calculate closest supported aspect ratio for Nano Banana
 const getClosestAspectRatio = (width: number, height: number): string => {
@@ -61,6 +62,72 @@ const base64ToCanvas = (base64: string, width: number, height: number): Promise<
     });
 };
 
+/**
+ * Rewrites ag-psd text data for the remapped box. The transform scale is folded into the font size
+ * (identity scale), style runs are scaled proportionally and box text gets the new box bounds.
+ */
+const buildTextLayerData = (source: LayerTextData, metaLayer: TransformedLayer): LayerTextData => {
+  const text = metaLayer.text!;
+  const sourceScale = Math.abs(source.transform?.[3] ?? 1) || 1;
+  const sourceSize = (source.style?.fontSize ?? source.styleRuns?.[0]?.style?.fontSize ?? 12) * sourceScale;
+  const ratio = text.fontSize / sourceSize;
+  const scaleStyle = (style: TextStyle = {}): TextStyle => ({
+    ...style,
+    fontSize: style.fontSize !== undefined ? style.fontSize * sourceScale * ratio : undefined,
+    leading: style.leading !== undefined ? style.leading * sourceScale * ratio : undefined,
+  });
+
+  const { x, y, w, h } = metaLayer.coords;
+  const isPoint = source.shapeType !== 'box';
+
+  // Point text is positioned by its baseline origin; box text by its top-left corner
+  const originX = isPoint ? (text.justification === 'center' ? x + w / 2 : text.justification === 'right' ? x + w : x) : x;
+  const originY = isPoint ? y + text.fontSize : y;
+
+  return {
+    ...source,
+    text: text.text,
+    transform: [1, 0, 0, 1, originX, originY],
+    style: scaleStyle(source.style),
+    styleRuns: source.styleRuns?.map(run => ({ ...run, style: scaleStyle(run.style) })),
+    boxBounds: isPoint ? source.boxBounds : [0, 0, w, h],
+  };
+};
+
+/**
+ * Raster preview for the text layer (Photoshop replaces it when re-typesetting on open).
+ */
+const renderTextRaster = (metaLayer: TransformedLayer): HTMLCanvasElement | undefined => {
+  const w = Math.max(1, Math.ceil(metaLayer.coords.w));
+  const h = Math.max(1, Math.ceil(metaLayer.coords.h));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !metaLayer.text) return undefined;
+  drawTextLayer(ctx, metaLayer.text, 0, 0, w);
+  return canvas;
+};
+
+/**
+ * Layer effects are stored in source pixels; resize them with the layer so shadows/strokes keep their proportions.
+ */
+const getScaledEffects = (originalLayer: Layer, metaLayer: TransformedLayer) => {
+  return originalLayer.effects ? scaleLayerEffects(originalLayer.effects, getEffectScale(metaLayer.transform)) : undefined;
+};
+
+/**
+ * Payloads and template bounds share document coordinates; artboard templates export as their own canvas.
+ */
+const offsetLayers = (layers: TransformedLayer[], dx: number, dy: number): TransformedLayer[] => {
+  if (dx === 0 && dy === 0) return layers;
+  return layers.map(layer => ({
+    ...layer,
+    coords: { ...layer.coords, x: layer.coords.x + dx, y: layer.coords.y + dy },
+    children: layer.children ? offsetLayers(layer.children, dx, dy) : undefined,
+  }));
+};
+
 // Helper: Create a transformed version of a standard layer canvas (Rotation/Scale baking)
 const applyTransformToCanvas = (
     sourceCanvas: HTMLCanvasElement | HTMLImageElement,
@@ -96,68 +163,36 @@ const applyTransformToCanvas = (
     return canvas;
 };
 
-// Helper: Generate Image using GenAI SDK
+// Helper: Generate Image through the active AI provider (throws AIRequestError; the caller decides whether to skip the layer)
 const generateLayerImage = async (
     prompt: string, 
     width: number, 
     height: number, 
-    sourceReference?: string
+    sourceReference: string | undefined,
+    signal: AbortSignal
 ): Promise<HTMLCanvasElement | null> => {
-    try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API Key missing");
-
-        const ai = new GoogleGenAI({ apiKey });
-        
-        // Construct Multi-Modal Request Parts
-        const parts: any[] = [];
-        
-        if (sourceReference) {
-            const base64Data = sourceReference.includes('base64,') 
-                ? sourceReference.split('base64,')[1] 
-                : sourceReference;
-            
-            parts.push({
-                inlineData: {
-                    mimeType: 'image/png',
-                    data: base64Data
-                }
-            });
-        }
-        
-        parts.push({ text: prompt });
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                imageConfig: {
-                    aspectRatio: getClosestAspectRatio(width, height) as any
-                }
-            }
-        });
-        
-        let base64Data = null;
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                base64Data = part.inlineData.data;
-                break;
-            }
-        }
-        
-        if (!base64Data) throw new Error("No image data returned from API");
-        return base64ToCanvas(`data:image/png;base64,${base64Data}`, width, height);
-
-    } catch (e) {
-        console.error("Generative Fill Failed:", e);
-        return null;
-    }
+    const provider = getAIProvider();
+    if (!provider.isAvailable) throw new AIRequestError('unavailable', "AI provider not configured");
+
+    const dataUrl = await runAIRequest(
+        requestSignal => provider.generateImage({
+            prompt,
+            aspectRatio: getClosestAspectRatio(width, height),
+            reference: sourceReference,
+            signal: requestSignal
+        }),
+        { signal, timeoutMs: DEFAULT_AI_TIMEOUTS.image, label: 'Export' }
+    );
+    
+    if (!dataUrl) throw new AIRequestError('failed', "No image data returned from API");
+    return base64ToCanvas(dataUrl, width, height);
 };
 
 export const ExportPSDNode = memo(({ id }: NodeProps) => {
   const [isExporting, setIsExporting] = useState(false);
   const [exportStatus, setExportStatus] = useState<string>('Idle');
   const [exportError, setExportError] = useState<string | null>(null);
+  const exportControllerRef = useRef<AbortController | null>(null);
 
   const edges = useEdges();
   const updateNodeInternals = useUpdateNodeInternals();
@@ -183,7 +218,15 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
       if (edge.target !== id) return;
       if (!edge.targetHandle?.startsWith('input-')) return;
 
-      const slotName = edge.targetHandle.replace('input-', '');
+      // Slots are keyed by container id (names repeat across nesting levels); names are for messages only
+      const slotKey = edge.targetHandle.slice('input-'.length);
+      const container = templateMetadata ? findContainerByHandle(templateMetadata, slotKey) : null;
+      if (templateMetadata && !container) {
+          errors.push(`Slot '${slotKey}': UNKNOWN_SLOT. No template container matches this input, so it is not exported.`);
+          return;
+      }
+      const slotId = container?.id ?? slotKey;
+      const slotName = container?.name ?? slotKey;
       
       // PHASE 4: PRIORITY LOOKUP (Reviewer -> Error)
       // Note: ContainerPreviewNodes proxy their payload into reviewerRegistry to act as "Polished" sources.
@@ -225,13 +268,13 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
 
       if (payload) {
          if (payload.status !== 'error') {
-            map.set(slotName, payload);
+            map.set(slotId, payload);
          }
       }
     });
 
     return { slotConnections: map, validationErrors: errors };
-  }, [edges, id, payloadRegistry, reviewerRegistry, resolvedRegistry]);
+  }, [edges, id, templateMetadata, payloadRegistry, reviewerRegistry, resolvedRegistry]);
 
   // 3. Status Calculation
   const totalSlots = containers.length;
@@ -248,6 +291,8 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
   const handleExport = async () => {
     if (!templateMetadata || !isExportReady) return;
     
+    const controller = new AbortController();
+    exportControllerRef.current = controller;
     setIsExporting(true);
     setExportError(null);
     setExportStatus('Analyzing procedural graph...');
@@ -263,11 +308,12 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
       // B. Synthesis Phase: Pre-generate or Reuse AI assets
       const generatedAssets = new Map<string, HTMLCanvasElement>();
       const generationTasks: Promise<void>[] = [];
+      const generationFailures: string[] = [];
 
       setExportStatus('Synthesizing AI Layers...');
 
       for (const container of containers) {
-          const payload = slotConnections.get(container.name);
+          const payload = slotConnections.get(container.id);
           if (!payload) continue;
           
           const findGenerativeLayers = (layers: TransformedLayer[]) => {
@@ -294,14 +340,23 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                           generationTasks.push(task());
                       } else if (layer.generativePrompt) {
                           const task = async () => {
-                              const canvas = await generateLayerImage(
-                                  layer.generativePrompt!, 
-                                  layer.coords.w, 
-                                  layer.coords.h,
-                                  payload.sourceReference
-                              );
-                              if (canvas) {
-                                  generatedAssets.set(layer.id, canvas);
+                              try {
+                                  const canvas = await generateLayerImage(
+                                      layer.generativePrompt!, 
+                                      layer.coords.w, 
+                                      layer.coords.h,
+                                      payload.sourceReference,
+                                      controller.signal
+                                  );
+                                  if (canvas) {
+                                      generatedAssets.set(layer.id, canvas);
+                                  }
+                              } catch (err) {
+                                  // Cancel aborts the whole export; any other failure only skips this layer
+                                  if (isCancelledError(err)) throw err;
+                                  console.error("Generative Fill Failed:", err);
+                                  const failure = toAIRequestFailure(err);
+                                  generationFailures.push(`${layer.name} (${AI_ERROR_LABELS[failure.kind]}: ${failure.message})`);
                               }
                           };
                           generationTasks.push(task());
@@ -320,6 +375,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
           setExportStatus(`Compiling ${generationTasks.length} high-fidelity assets...`);
           await Promise.all(generationTasks);
       }
+      if (controller.signal.aborted) throw new AIRequestError('cancelled', 'Export cancelled');
 
       // C. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
       setExportStatus('Assembling PSD structure...');
@@ -359,7 +415,8 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                             bottom: metaLayer.coords.y + metaLayer.coords.h,
                             right: metaLayer.coords.x + metaLayer.coords.w,
                             hidden: !metaLayer.isVisible,
-                            opacity: metaLayer.opacity * 255,
+                            opacity: metaLayer.opacity,
+                            effects: getScaledEffects(originalLayer, metaLayer),
                             // CRITICAL: Overwrite canvas with AI asset
                             canvas: asset, 
                             // CRITICAL: Flatten hierarchy if swapped node was a group
@@ -375,7 +432,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                             bottom: metaLayer.coords.y + metaLayer.coords.h,
                             right: metaLayer.coords.x + metaLayer.coords.w,
                             hidden: !metaLayer.isVisible,
-                            opacity: metaLayer.opacity * 255,
+                            opacity: metaLayer.opacity,
                             canvas: asset
                         };
                     }
@@ -385,7 +442,23 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
             else if (sourcePsd) {
                 const originalLayer = findLayerByPath(sourcePsd, metaLayer.id);
                 
-                if (originalLayer) {
+                if (originalLayer && originalLayer.text && metaLayer.text) {
+                    // TEXT LAYER: Write real, editable text at the remapped point size
+                    newLayer = {
+                        ...originalLayer,
+                        top: metaLayer.coords.y,
+                        left: metaLayer.coords.x,
+                        bottom: metaLayer.coords.y + metaLayer.coords.h,
+                        right: metaLayer.coords.x + metaLayer.coords.w,
+                        hidden: !metaLayer.isVisible,
+                        opacity: metaLayer.opacity,
+                        children: undefined,
+                        effects: getScaledEffects(originalLayer, metaLayer),
+                        text: buildTextLayerData(originalLayer.text, metaLayer),
+                        canvas: renderTextRaster(metaLayer)
+                    };
+                }
+                else if (originalLayer) {
                     // Check if CARO applied overrides requiring raster bake (Rotation)
                     const hasRotation = !!metaLayer.transform.rotation && metaLayer.transform.rotation !== 0;
                     
@@ -408,8 +481,9 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                         bottom: metaLayer.coords.y + metaLayer.coords.h,
                         right: metaLayer.coords.x + metaLayer.coords.w,
                         hidden: !metaLayer.isVisible,
-                        opacity: metaLayer.opacity * 255,
+                        opacity: metaLayer.opacity,
                         children: undefined,
+                        effects: getScaledEffects(originalLayer, metaLayer),
                         canvas: bakedCanvas
                     };
                     
@@ -427,30 +501,40 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
         return resultLayers;
       };
 
-      const finalChildren: Layer[] = [];
+      const origin = templateMetadata.origin || { x: 0, y: 0 };
 
-      for (const container of containers) {
-          const payload = slotConnections.get(container.name);
+      // Nested slots are exported inside their parent container group
+      const buildContainerGroup = (container: ContainerDefinition): Layer | null => {
+          const payload = slotConnections.get(container.id);
+          const childGroups = (container.children || [])
+              .map(buildContainerGroup)
+              .filter((group): group is Layer => group !== null);
+
+          if (!payload && childGroups.length === 0) return null;
+
+          const reconstructedContent = payload ? reconstructHierarchy(
+              offsetLayers(payload.layers, -origin.x, -origin.y),
+              psdRegistry[payload.sourceNodeId], 
+              generatedAssets
+          ) : [];
           
-          if (payload) {
-              const sourcePsd = psdRegistry[payload.sourceNodeId];
-              
-              const reconstructedContent = reconstructHierarchy(
-                  payload.layers, 
-                  sourcePsd, 
-                  generatedAssets
-              );
-              
-              const containerGroup: Layer = {
-                  name: container.originalName,
-                  children: reconstructedContent,
-                  opened: true,
-                  top: container.bounds.y,
-                  left: container.bounds.x,
-                  bottom: container.bounds.y + container.bounds.h,
-                  right: container.bounds.x + container.bounds.w,
-              };
+          return {
+              name: container.originalName,
+              children: [...reconstructedContent, ...childGroups],
+              opened: true,
+              top: container.bounds.y - origin.y,
+              left: container.bounds.x - origin.x,
+              bottom: container.bounds.y + container.bounds.h - origin.y,
+              right: container.bounds.x + container.bounds.w - origin.x,
+          };
+      };
 
+      const finalChildren: Layer[] = [];
+
+      for (const container of containers) {
+          if (container.parentId) continue;
+          const containerGroup = buildContainerGroup(container);
+          if (containerGroup) {
               finalChildren.push(containerGroup);
           }
       }
@@ -461,11 +545,19 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
       setExportStatus('Finalizing binary...');
       await writePsdFile(newPsd, `PROCEDURAL_EXPORT_${Date.now()}.psd`);
       setExportStatus('Done');
+      if (generationFailures.length > 0) {
+          setExportError(`Exported without ${generationFailures.length} generative layer(s): ${generationFailures.join('; ')}`);
+      }
 
     } catch (e: any) {
-        console.error("Export Failed:", e);
-        setExportError(e.message || "Unknown export error");
+        if (isCancelledError(e)) {
+            setExportStatus('Cancelled');
+        } else {
+            console.error("Export Failed:", e);
+            setExportError(e.message || "Unknown export error");
+        }
     } finally {
+        exportControllerRef.current = null;
         setIsExporting(false);
         setTimeout(() => setExportStatus('Idle'), 3000);
     }
@@ -510,8 +602,8 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
               </div>
           ) : (
               containers.map(container => {
-                  const isFilled = slotConnections.has(container.name);
-                  const payload = slotConnections.get(container.name);
+                  const isFilled = slotConnections.has(container.id);
+                  const payload = slotConnections.get(container.id);
                   const isGen = payload?.requiresGeneration || payload?.previewUrl; 
                   const isConfirmed = payload?.isConfirmed;
                   const isPolished = payload?.isPolished;
@@ -528,7 +620,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                           <Handle 
                             type="target" 
                             position={Position.Left} 
-                            id={`input-${container.name}`}
+                            id={`input-${container.id}`}
                             className={`!w-3 !h-3 !-left-1.5 !border-2 transition-colors duration-200 ${
                                 isFilled 
                                 ? '!bg-indigo-500 !border-white' 
@@ -618,6 +710,14 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                     : "Export Full PSD"
              )}
           </button>
+          {isExporting && (
+              <button
+                onClick={() => exportControllerRef.current?.abort()}
+                className="w-full mt-2 py-1.5 px-4 rounded text-[10px] font-bold uppercase tracking-wider border border-red-800/50 bg-red-900/30 text-red-300 hover:bg-red-900/50 transition-colors"
+              >
+                  Cancel Export
+              </button>
+          )}
       </div>
     </div>
   );
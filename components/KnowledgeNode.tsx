@@ -1,10 +1,11 @@
 import React, { memo, useCallback, useState, useEffect, useRef } from 'react';
 import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { PSDNodeData, VisualAnchor, KnowledgeContext } from '../types';
-import { BookOpen, Image as ImageIcon, FileText, Trash2, UploadCloud, BrainCircuit, Loader2, CheckCircle2, AlertCircle, X, Layers, RefreshCw } from 'lucide-react';
+import { PSDNodeData, VisualAnchor, KnowledgeContext, AIRequestFailure } from '../types';
+import { BookOpen, Image as ImageIcon, FileText, Trash2, UploadCloud, BrainCircuit, Loader2, CheckCircle2, AlertCircle, X, Layers, RefreshCw, Square } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { GoogleGenAI } from "@google/genai";
+import { getAIProvider } from '../services/aiProvider';
+import { AI_ERROR_LABELS, isCancelledError, runAIRequest, toAIRequestFailure } from '../services/requestRunner';
 
 // Initialize PDF Worker from CDN to handle parsing off the main thread
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
@@ -118,7 +119,9 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isDistilling, setIsDistilling] = useState(false);
   const [lastSynced, setLastSynced] = useState<number | null>(null);
+  const [distillError, setDistillError] = useState<AIRequestFailure | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const distillControllerRef = useRef<AbortController | null>(null);
 
   const { registerKnowledge, unregisterNode } = useProceduralStore();
   const { setNodes } = useReactFlow();
@@ -229,7 +232,10 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   };
 
   const distillKnowledge = async () => {
+    const controller = new AbortController();
+    distillControllerRef.current = controller;
     setIsDistilling(true);
+    setDistillError(null);
     try {
         const rawText = stagedFiles
             .filter(f => f.type === 'pdf' && f.extractedText && f.file)
@@ -243,11 +249,11 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         let finalRules = "";
 
         if (rawText.trim().length > 0) {
-            const apiKey = process.env.API_KEY;
-            if (apiKey) {
-                const ai = new GoogleGenAI({ apiKey });
-                const response = await ai.models.generateContent({
-                    model: 'gemini-3-flash-preview',
+            const provider = getAIProvider();
+            if (provider.isAvailable) {
+                finalRules = await runAIRequest(signal => provider.generateText({
+                    tier: 'fast',
+                    signal,
                     contents: `
                         SOURCE MATERIAL:
                         ${rawText.substring(0, 25000)} // Truncate to be safe
@@ -271,13 +277,10 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                         For global rules, put them at the top without container tags.
                         Format as plain text.
                     `,
-                    config: {
-                        systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines using the // CONTAINER block syntax."
-                    }
-                });
-                finalRules = response.text || "No rules generated.";
+                    systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines using the // CONTAINER block syntax."
+                }), { signal: controller.signal, label: 'Knowledge' }) || "No rules generated.";
             } else {
-                 finalRules = "API Key missing. Rules could not be distilled from text.";
+                 finalRules = "AI provider not configured. Rules could not be distilled from text.";
             }
         } else if (visualAnchors.length > 0) {
             finalRules = "Adhere to the visual style, color palette, and spatial rhythm of the attached reference images.";
@@ -308,12 +311,19 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         }));
 
     } catch (e) {
-        console.error("Distillation error", e);
+        // The previously broadcast context stays active
+        if (!isCancelledError(e)) console.error("Distillation error", e);
+        setDistillError(toAIRequestFailure(e));
     } finally {
+        distillControllerRef.current = null;
         setIsDistilling(false);
     }
   };
 
+  const cancelDistillation = () => {
+    distillControllerRef.current?.abort();
+  };
+
   // derived state for the UI
   // If we have local staged files, show them.
   // If local is empty but we have persisted context (re-hydration), display persisted anchors.
@@ -493,6 +503,7 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         
         {/* Distillation & Broadcast Controls */}
         <div className="pt-2 border-t border-slate-700/50">
+           <div className="flex items-center space-x-2">
              <button 
                 onClick={distillKnowledge}
                 disabled={!hasContent || isDistilling}
@@ -522,6 +533,27 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                      </>
                  )}
              </button>
+             {isDistilling && (
+                 <button
+                    onClick={cancelDistillation}
+                    className="shrink-0 py-2 px-3 text-[10px] font-bold uppercase tracking-wider rounded border border-red-500/50 bg-red-900/30 text-red-300 hover:bg-red-900/50 flex items-center space-x-1 transition-colors"
+                    title="Cancel distillation"
+                 >
+                    <Square className="w-3 h-3 fill-current" />
+                    <span>Cancel</span>
+                 </button>
+             )}
+           </div>
+
+             {distillError && !isDistilling && (
+                 <div className={`flex items-start space-x-1.5 mt-2 p-1.5 rounded border text-[9px] ${distillError.kind === 'cancelled' ? 'border-slate-600 bg-slate-800/60 text-slate-400' : 'border-red-500/40 bg-red-900/20 text-red-300'}`}>
+                     <AlertCircle className="w-3 h-3 shrink-0" />
+                     <span className="break-words">
+                         <span className="font-bold uppercase tracking-wider">{AI_ERROR_LABELS[distillError.kind]}</span>
+                         {distillError.kind !== 'cancelled' && `: ${distillError.message}`}
+                     </span>
+                 </div>
+             )}
              
              {lastSynced && (
                  <div className="text-[8px] text-teal-500/70 text-center mt-1 font-mono">
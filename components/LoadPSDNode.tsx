@@ -1,9 +1,10 @@
-import React, { memo, useCallback, useState, useRef, useEffect } from 'react';
+import React, { memo, useCallback, useState, useRef, useEffect, useMemo } from 'react';
 import { Handle, Position, useReactFlow } from 'reactflow';
 import type { NodeProps } from 'reactflow';
-import { parsePsdFile, extractTemplateMetadata, mapLayersToContainers, getCleanLayerTree, getSemanticTheme } from '../services/psdService';
-import { PSDNodeData, TemplateMetadata } from '../types';
+import { parsePsdFile, isParseAbortError, PSD_PARSE_STAGE_LABELS, PsdParseProgress, comparePsdComposite, CompositeComparison, extractTemplateMetadata, mapLayersToContainers, getCleanLayerTree, getSemanticTheme } from '../services/psdService';
+import { PSDNodeData, TemplateMetadata, LayerRebindReport, DesignValidationReport, ValidationSeverity, Psd } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { buildLayerRebindMap, getDownstreamReach, rebindFeedbackRegistry, rebindGraphOverrides } from '../services/layerIdentity';
 
 // Sub-component for visualizing the template structure
 const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata }) => {
@@ -35,6 +36,20 @@ const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata })
             </div>
           )}
           
+          {/* Vector container shapes (non-rectangular slots) */}
+          {containers.some(c => c.polygon) && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${canvas.width} ${canvas.height}`} preserveAspectRatio="none">
+              {containers.filter(c => c.polygon).map(container => (
+                <polygon
+                  key={`shape-${container.id}`}
+                  points={container.polygon!.map(p => `${p.x},${p.y}`).join(' ')}
+                  className="fill-white/10 stroke-white/60"
+                  strokeWidth={Math.max(canvas.width, canvas.height) / 300}
+                />
+              ))}
+            </svg>
+          )}
+
           {containers.map((container, index) => (
             <div
               key={container.id}
@@ -58,14 +73,140 @@ const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata })
   );
 };
 
+const SEVERITY_STYLES: Record<ValidationSeverity, { dot: string, text: string, label: string }> = {
+  error: { dot: 'bg-red-500', text: 'text-red-300', label: 'Errors' },
+  warning: { dot: 'bg-orange-400', text: 'text-orange-200', label: 'Warnings' },
+  info: { dot: 'bg-blue-400', text: 'text-blue-200', label: 'Info' },
+};
+
+// Sub-component for the filterable validation issue list
+const ValidationReportPanel: React.FC<{ report: DesignValidationReport }> = ({ report }) => {
+  const [filter, setFilter] = useState<ValidationSeverity | 'all'>('all');
+
+  const counts = useMemo(() => {
+    const result: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0 };
+    report.issues.forEach(issue => { result[issue.severity ?? 'error']++; });
+    return result;
+  }, [report]);
+
+  // Legacy project files carry issues without a severity; treat them as errors
+  const visibleIssues = report.issues.filter(issue => filter === 'all' || (issue.severity ?? 'error') === filter);
+
+  return (
+    <div className={`mt-3 p-2 rounded border text-[10px] ${report.isValid ? 'border-green-800 bg-green-900/20 text-green-300' : 'border-orange-800 bg-orange-900/20 text-orange-200'}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-bold uppercase tracking-wider">{report.isValid ? 'Structure Valid' : 'Violations Detected'}</span>
+        <span className="text-[9px] opacity-70">{report.issues.length} issue(s)</span>
+      </div>
+
+      {report.issues.length > 0 && (
+        <>
+          <div className="flex space-x-1 mb-1.5">
+            {(['all', 'error', 'warning', 'info'] as const).map(key => (
+              <button
+                key={key}
+                onClick={() => setFilter(key)}
+                className={`nodrag px-1.5 py-0.5 rounded border text-[9px] uppercase tracking-wide transition-colors ${
+                  filter === key ? 'bg-slate-700 border-slate-500 text-slate-100' : 'bg-black/20 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {key === 'all' ? `All ${report.issues.length}` : `${SEVERITY_STYLES[key].label} ${counts[key]}`}
+              </button>
+            ))}
+          </div>
+
+          <ul className="nowheel space-y-1 max-h-40 overflow-y-auto pr-1 custom-scrollbar">
+            {visibleIssues.map((issue, i) => {
+              const style = SEVERITY_STYLES[issue.severity ?? 'error'];
+              return (
+                <li key={i} className="flex items-start space-x-1.5 leading-tight">
+                  <span className={`w-1.5 h-1.5 rounded-full mt-1 shrink-0 ${style.dot}`}></span>
+                  <div className="min-w-0">
+                    <div className={style.text}>{issue.message}</div>
+                    {issue.layerPath && (
+                      <div className="font-mono text-[9px] text-slate-500 truncate" title={issue.layerPath}>{issue.layerPath}</div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+            {visibleIssues.length === 0 && (
+              <li className="italic text-slate-500">No issues in this category</li>
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Compositor fidelity check: renders the untransformed document and diffs it against the PSD's own composite.
+ */
+const CompositorCheckPanel: React.FC<{ psd: Psd }> = ({ psd }) => {
+  const [result, setResult] = useState<CompositeComparison | null | undefined>(undefined);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Reset when the binary is replaced
+  useEffect(() => { setResult(undefined); }, [psd]);
+
+  const handleRun = useCallback(async () => {
+    setIsRunning(true);
+    try {
+      setResult(await comparePsdComposite(psd));
+    } catch (e) {
+      console.error('Compositor check failed', e);
+      setResult(null);
+    } finally {
+      setIsRunning(false);
+    }
+  }, [psd]);
+
+  const matchPercent = result ? (1 - result.mismatchRatio) * 100 : 0;
+
+  return (
+    <div className="mt-2 p-2 rounded border border-slate-700 bg-black/20 text-[10px] text-slate-300">
+      <div className="flex items-center justify-between">
+        <span className="font-bold uppercase tracking-wider text-slate-400">Compositor Check</span>
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="nodrag px-1.5 py-0.5 rounded border border-slate-600 bg-slate-700 hover:bg-slate-600 text-[9px] uppercase tracking-wide disabled:opacity-50"
+        >
+          {isRunning ? 'Rendering...' : 'Run'}
+        </button>
+      </div>
+
+      {result === null && (
+        <div className="mt-1 italic text-slate-500">No embedded composite to compare against.</div>
+      )}
+
+      {result && (
+        <div className="mt-1.5 flex items-start space-x-2">
+          <img src={result.diffUrl} alt="Composite diff" className="w-16 h-16 object-contain bg-slate-900 border border-slate-700 rounded shrink-0" />
+          <div className="leading-tight space-y-0.5">
+            <div className={matchPercent >= 98 ? 'text-green-400' : matchPercent >= 90 ? 'text-yellow-300' : 'text-red-300'}>
+              {matchPercent.toFixed(1)}% pixels match
+            </div>
+            <div className="text-slate-500">Mean error {(result.meanError * 100).toFixed(2)}%</div>
+            <div className="text-slate-500">{result.width}x{result.height}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<PsdParseProgress | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { setNodes } = useReactFlow();
+  const abortRef = useRef<AbortController | null>(null);
+  const { setNodes, getEdges } = useReactFlow();
   
   // Connect to Procedural Store
-  const { psdRegistry, registerPsd, registerTemplate, unregisterNode, triggerGlobalRefresh } = useProceduralStore();
+  const { psdRegistry, feedbackRegistry, registerPsd, registerTemplate, registerFeedback, unregisterNode, triggerGlobalRefresh } = useProceduralStore();
 
   // Determine State
   const isDataLoaded = !!data.template;
@@ -74,7 +215,10 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
 
   // Cleanup on unmount
   useEffect(() => {
-    return () => unregisterNode(id);
+    return () => {
+      abortRef.current?.abort();
+      unregisterNode(id);
+    };
   }, [id, unregisterNode]);
 
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -84,10 +228,16 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
     // Reset state
     setIsLoading(true);
     setLocalError(null);
+    setProgress(null);
+
+    // Supersede any parse still running for this node
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       console.log(`Parsing file: ${file.name}...`);
-      const parsedPsd = await parsePsdFile(file);
+      const parsedPsd = await parsePsdFile(file, { signal: controller.signal, onProgress: setProgress });
       
       console.log(`Parsed PSD: ${parsedPsd.width}x${parsedPsd.height}, children: ${parsedPsd.children?.length}`);
 
@@ -107,9 +257,30 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
       // Trigger global refresh to notify downstream logic of new binary availability
       triggerGlobalRefresh();
 
+      // RE-BINDING PASS: Saved overrides reference layer IDs of the previous tree (possibly legacy index paths).
+      // Remap them onto the new tree and report anything that no longer resolves. Only the instances this node
+      // feeds are touched: layer IDs of other documents may collide.
+      const previousLayers = data.designLayers;
+      const rebindMap = previousLayers ? buildLayerRebindMap(previousLayers, designLayers) : null;
+      const reach = getDownstreamReach(id, getEdges());
+      if (rebindMap) {
+        rebindFeedbackRegistry(feedbackRegistry, reach, rebindMap).forEach(entry => registerFeedback(entry.nodeId, entry.handleId, entry.strategy));
+      }
+
       // Update the node data in the global graph state
-      setNodes((nodes) =>
-        nodes.map((node) => {
+      setNodes((nodes) => {
+        let nextNodes = nodes;
+        let rebindReport: LayerRebindReport | null = null;
+        if (rebindMap) {
+          const result = rebindGraphOverrides(nodes, reach, rebindMap);
+          nextNodes = result.nodes;
+          rebindReport = result.report;
+          if (rebindReport.unmatched.length > 0) {
+            console.warn(`[Rebind] ${rebindReport.unmatched.length} override reference(s) could not be matched`, rebindReport.unmatched);
+          }
+        }
+
+        return nextNodes.map((node) => {
           if (node.id === id) {
             return {
               ...node,
@@ -119,14 +290,20 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
                 template: templateData,
                 validation: validationReport,
                 designLayers: designLayers, // This reference update helps downstream hooks re-run
+                layerRebindReport: rebindReport,
                 error: null,
               },
             };
           }
           return node;
-        })
-      );
+        });
+      });
     } catch (err: any) {
+      if (isParseAbortError(err)) {
+        console.log(`Parsing cancelled: ${file.name}`);
+        return;
+      }
+
       const errorMessage = err.message || 'Failed to parse PSD';
       setLocalError(errorMessage);
       console.error("PSD processing error:", err);
@@ -148,9 +325,22 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
         })
       );
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
+      // Allow re-selecting the same file after a cancel
+      event.target.value = '';
     }
-  }, [id, setNodes, registerPsd, registerTemplate, triggerGlobalRefresh]);
+  }, [id, data.designLayers, feedbackRegistry, setNodes, getEdges, registerPsd, registerTemplate, registerFeedback, triggerGlobalRefresh]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  }, []);
 
   const handleBoxClick = () => {
     fileInputRef.current?.click();
@@ -229,7 +419,25 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <span className="text-sm text-slate-300">Parsing structure...</span>
+            <span className="text-sm text-slate-300">
+              {progress ? PSD_PARSE_STAGE_LABELS[progress.stage] : 'Parsing structure...'}
+            </span>
+            <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden border border-slate-700">
+              <div
+                className="h-full bg-blue-500 transition-all duration-300"
+                style={{ width: `${progress?.percent ?? 0}%` }}
+              />
+            </div>
+            <div className="w-full flex justify-between items-center text-[10px] text-slate-500">
+              <span className="truncate pr-2">{progress?.message || 'Starting worker...'}</span>
+              <span className="font-mono">{progress?.percent ?? 0}%</span>
+            </div>
+            <button
+              onClick={handleCancel}
+              className="py-1 px-3 bg-slate-700 hover:bg-red-900/60 text-[10px] text-slate-300 hover:text-red-200 rounded transition-colors uppercase font-medium tracking-wide"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
@@ -249,18 +457,27 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
             {data.template && <TemplatePreview metadata={data.template} />}
 
             {/* Validation Report */}
-            {data.validation && (
-              <div className={`mt-3 p-2 rounded border text-[10px] ${data.validation.isValid ? 'border-green-800 bg-green-900/20 text-green-300' : 'border-orange-800 bg-orange-900/20 text-orange-200'}`}>
-                <div className="flex items-center space-x-1 mb-1">
-                  <span className="font-bold uppercase tracking-wider">{data.validation.isValid ? 'Structure Valid' : 'Violations Detected'}</span>
+            {data.validation && <ValidationReportPanel report={data.validation} />}
+            
+            {/* Compositor Fidelity vs. the PSD's embedded composite */}
+            {psdRegistry[id] && <CompositorCheckPanel psd={psdRegistry[id]} />}
+
+            {/* Layer Re-binding Report (shown after a reload/replace) */}
+            {data.layerRebindReport && (data.layerRebindReport.rebound > 0 || data.layerRebindReport.unmatched.length > 0) && (
+              <div className={`mt-2 p-2 rounded border text-[10px] ${data.layerRebindReport.unmatched.length === 0 ? 'border-blue-800 bg-blue-900/20 text-blue-200' : 'border-orange-800 bg-orange-900/20 text-orange-200'}`}>
+                <div className="font-bold uppercase tracking-wider mb-1">Override Re-binding</div>
+                <div className="leading-tight opacity-90">
+                  {data.layerRebindReport.rebound} reference(s) re-bound to the new layer tree.
                 </div>
-                {!data.validation.isValid && (
-                  <ul className="list-disc pl-3 space-y-0.5 opacity-90">
-                    {data.validation.issues.slice(0, 3).map((issue, i) => (
-                      <li key={i} className="leading-tight">{issue.message}</li>
+                {data.layerRebindReport.unmatched.length > 0 && (
+                  <ul className="list-disc pl-3 space-y-0.5 opacity-90 mt-1">
+                    {data.layerRebindReport.unmatched.slice(0, 3).map((u, i) => (
+                      <li key={i} className="leading-tight">
+                        Unmatched <span className="font-mono">{u.layerId}</span> ({u.source} #{u.instanceIndex}, {u.field})
+                      </li>
                     ))}
-                    {data.validation.issues.length > 3 && (
-                      <li className="italic text-orange-400">...and {data.validation.issues.length - 3} more</li>
+                    {data.layerRebindReport.unmatched.length > 3 && (
+                      <li className="italic text-orange-400">...and {data.layerRebindReport.unmatched.length - 3} more</li>
                     )}
                   </ul>
                 )}
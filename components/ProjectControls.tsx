@@ -2,10 +2,24 @@ import React, { useRef } from 'react';
 import { useReactFlow } from 'reactflow';
 import { ProjectExport } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { getRecordedAIFixtures, serializeAIFixtures } from '../services/aiProvider';
+import { migrateProjectHandles } from '../services/projectMigration';
 
 export const ProjectControls = () => {
     const { toObject, setNodes, setEdges, setViewport } = useReactFlow();
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Only set when AI_RECORD_FIXTURES is on; the map fills as the session makes AI calls
+    const recordedFixtures = getRecordedAIFixtures();
+
+    const downloadJson = (json: string, fileName: string) => {
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
 
     const onSave = () => {
         const flow = toObject();
@@ -44,14 +58,12 @@ export const ProjectControls = () => {
             viewport: flow.viewport
         };
         
-        const jsonString = JSON.stringify(projectData, null, 2);
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `PSD_PROJECT_${Date.now()}.json`;
-        link.click();
-        URL.revokeObjectURL(url);
+        downloadJson(JSON.stringify(projectData, null, 2), `PSD_PROJECT_${Date.now()}.json`);
+    };
+
+    // Replay the file with AI_PROVIDER=mock and AI_FIXTURES_URL
+    const onSaveFixtures = () => {
+        if (recordedFixtures) downloadJson(serializeAIFixtures(recordedFixtures), 'ai-fixtures.json');
     };
 
     const onLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -79,8 +91,8 @@ export const ProjectControls = () => {
                         return;
                     }
 
-                    // Strict Type Cast after validation
-                    const project = rawData as ProjectExport;
+                    // Strict Type Cast after validation; older name-keyed slot handles are rewritten to container ids
+                    const project = migrateProjectHandles(rawData as ProjectExport);
 
                     // Apply React Flow State
                     // This triggers the re-hydration effects in individual nodes (e.g., KnowledgeNode)
@@ -104,6 +116,15 @@ export const ProjectControls = () => {
 
     return (
         <div className="fixed top-4 right-4 z-50 flex space-x-2">
+            {recordedFixtures && (
+                <button 
+                    onClick={onSaveFixtures}
+                    className="bg-slate-800 hover:bg-slate-700 text-amber-300 border border-amber-600/60 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
+                    title="Download the AI responses recorded this session (AI_RECORD_FIXTURES)"
+                >
+                    <span>Save AI Fixtures</span>
+                </button>
+            )}
             <input 
                 type="file" 
                 ref={fileInputRef} 
@@ -1,10 +1,13 @@
 
 import React, { memo, useMemo, useEffect, useCallback, useState, useRef } from 'react';
 import { Handle, Position, NodeProps, useEdges, useReactFlow, useNodes, useUpdateNodeInternals } from 'reactflow';
-import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, MAX_BOUNDARY_VIOLATION_PERCENT, LayoutStrategy, LayerOverride } from '../types';
+import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, MAX_BOUNDARY_VIOLATION_PERCENT, LayoutStrategy, LayerOverride, ContainerConstraints, ConstraintAnchor, RemapStrategy, InstanceSettings, ValidationSeverity, AIRequestFailure } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { GoogleGenAI } from "@google/genai";
-import { Check, Sparkles, Info, Layers, Box, Cpu, BookOpen, Link as LinkIcon, Activity } from 'lucide-react';
+import { findContainerByHandle, getParentContainer, getContainerSafeRect, getLayerOpticalBounds, measureTextWidth } from '../services/psdService';
+import { remapLayers, resolveLayoutConstraints, mergeFeedbackStrategy, getSafetyViolationKey, DEFAULT_DROP_SCALE_THRESHOLD } from '../services/remapEngine';
+import { getAIProvider } from '../services/aiProvider';
+import { AIRequestError, AI_ERROR_LABELS, DEFAULT_AI_TIMEOUTS, runAIRequest, toAIRequestFailure } from '../services/requestRunner';
+import { Check, Sparkles, Info, Layers, Box, Cpu, BookOpen, Link as LinkIcon, Activity, AlertCircle, RefreshCw, Square } from 'lucide-react';
 
 interface InstanceData {
   index: number;
@@ -26,6 +29,7 @@ interface InstanceData {
   };
   payload: TransformedPayload | null;
   strategyUsed?: boolean;
+  layoutConstraints?: ContainerConstraints; // Effective fit/anchor after merging template, instance and Analyst
 }
 
 // --- SUB-COMPONENT: Generative Preview Overlay ---
@@ -149,6 +153,17 @@ interface OverrideMetric {
     anchorIndex?: number;
 }
 
+const REMAP_STRATEGY_LABELS: Record<RemapStrategy, string> = {
+    STRETCH: 'Stretch',
+    UNIFORM_FIT: 'Fit (Letterbox)',
+    UNIFORM_FILL: 'Fill (Crop)',
+    NONE: 'None (1:1)',
+};
+
+const REMAP_ANCHOR_OPTIONS: ConstraintAnchor[] = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+const DROP_THRESHOLD_OPTIONS = [0.75, 0.5, 0.35, 0.25];
+
 const calculateOverrideMetrics = (
     sourceLayers: SerializableLayer[],
     sourceRect: { x: number, y: number, w: number, h: number },
@@ -273,14 +288,28 @@ const getLayerAudit = (layers: TransformedLayer[]) => {
   return { pixel, group, generative, total: pixel + group + generative };
 };
 
+// Measured layout errors the user has not accepted yet (takes precedence over the generation gate)
+const isSafetyHold = (payload: TransformedPayload | null | undefined): boolean => {
+    const report = payload?.safetyReport;
+    return !!report && report.worstSeverity === 'error' && !report.isAccepted;
+};
+
+const SAFETY_BADGE_STYLES: Record<ValidationSeverity, string> = {
+    error: 'bg-red-500/20 text-red-300 border-red-500/40',
+    warning: 'bg-orange-500/20 text-orange-300 border-orange-500/40',
+    info: 'bg-slate-700 text-slate-400 border-slate-600',
+};
+
 const RemapperInstanceRow = memo(({ 
-    instance, confirmations, toggleInstanceGeneration, handleConfirmGeneration, handleImageLoad, isGeneratingPreview, displayPreviews, payloadRegistry, id, localSetting 
+    instance, confirmations, toggleInstanceGeneration, handleConfirmGeneration, handleImageLoad, isGeneratingPreview, previewError, handleCancelPreview, handleRetryPreview, displayPreviews, payloadRegistry, id, localSetting, layoutSettings, updateInstanceLayout, handleAcceptSafety 
 }: {
-    instance: InstanceData, confirmations: Record<number, string>, toggleInstanceGeneration: (idx: number) => void, handleConfirmGeneration: (idx: number, prompt: string, url?: string) => void, handleImageLoad: (idx: number) => void, isGeneratingPreview: Record<number, boolean>, displayPreviews: Record<number, string>, payloadRegistry: any, id: string, localSetting: boolean 
+    instance: InstanceData, confirmations: Record<number, string>, toggleInstanceGeneration: (idx: number) => void, handleConfirmGeneration: (idx: number, prompt: string, url?: string) => void, handleImageLoad: (idx: number) => void, isGeneratingPreview: Record<number, boolean>, previewError?: AIRequestFailure, handleCancelPreview: (idx: number) => void, handleRetryPreview: (idx: number) => void, displayPreviews: Record<number, string>, payloadRegistry: any, id: string, localSetting: boolean, layoutSettings: InstanceSettings, updateInstanceLayout: (idx: number, patch: Pick<InstanceSettings, 'remapStrategy' | 'remapAnchor' | 'opticalAlignment' | 'dropScaleThreshold'>) => void, handleAcceptSafety: (idx: number) => void 
 }) => {
     const [isInspectorOpen, setInspectorOpen] = useState(false);
     const hasPreview = !!instance.payload?.previewUrl;
-    const isAwaiting = instance.payload?.status === 'awaiting_confirmation';
+    const safetyReport = instance.payload?.safetyReport;
+    const safetyHold = isSafetyHold(instance.payload);
+    const isAwaiting = instance.payload?.status === 'awaiting_confirmation' && !safetyHold;
     const currentPrompt = instance.source.aiStrategy?.generativePrompt;
     const confirmedPrompt = confirmations[instance.index];
     const refinementPending = !!confirmedPrompt && !!currentPrompt && confirmedPrompt !== currentPrompt;
@@ -336,6 +365,54 @@ const RemapperInstanceRow = memo(({
                  </div>
               </div>
            </div>
+           <div className="flex items-center space-x-2">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider ml-1 shrink-0">Fit</label>
+              <select
+                  value={layoutSettings.remapStrategy || ''}
+                  onChange={(e) => updateInstanceLayout(instance.index, { remapStrategy: (e.target.value || undefined) as RemapStrategy | undefined })}
+                  className="nodrag nopan flex-1 bg-slate-900 border border-slate-700 text-[10px] text-slate-300 rounded px-1.5 py-1 focus:outline-none focus:border-indigo-500"
+                  title="Remap strategy for this instance"
+              >
+                  <option value="">Auto (Analyst)</option>
+                  {(Object.keys(REMAP_STRATEGY_LABELS) as RemapStrategy[]).map(key => (
+                      <option key={key} value={key}>{REMAP_STRATEGY_LABELS[key]}</option>
+                  ))}
+              </select>
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider shrink-0">Anchor</label>
+              <select
+                  value={layoutSettings.remapAnchor || ''}
+                  onChange={(e) => updateInstanceLayout(instance.index, { remapAnchor: (e.target.value || undefined) as ConstraintAnchor | undefined })}
+                  className="nodrag nopan flex-1 bg-slate-900 border border-slate-700 text-[10px] text-slate-300 rounded px-1.5 py-1 focus:outline-none focus:border-indigo-500"
+                  title="Anchor point used for letterboxing / crop"
+              >
+                  <option value="">Auto (Analyst)</option>
+                  {REMAP_ANCHOR_OPTIONS.map(anchor => (
+                      <option key={anchor} value={anchor}>{anchor}</option>
+                  ))}
+              </select>
+              <button
+                  onClick={(e) => { e.stopPropagation(); updateInstanceLayout(instance.index, { opticalAlignment: !layoutSettings.opticalAlignment || undefined }); }}
+                  className={`nodrag nopan shrink-0 text-[9px] uppercase font-bold tracking-wider px-1.5 py-1 rounded border transition-colors ${layoutSettings.opticalAlignment ? 'text-indigo-300 border-indigo-500/50 bg-indigo-500/10' : 'text-slate-500 border-slate-700 hover:text-slate-400'}`}
+                  title="Align, distribute and clip by visible pixels instead of layer boxes"
+              >
+                  Optical
+              </button>
+           </div>
+           <div className="flex items-center space-x-2">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider ml-1 shrink-0">Drop Below</label>
+              <select
+                  value={layoutSettings.dropScaleThreshold ?? ''}
+                  onChange={(e) => updateInstanceLayout(instance.index, { dropScaleThreshold: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  className="nodrag nopan flex-1 bg-slate-900 border border-slate-700 text-[10px] text-slate-300 rounded px-1.5 py-1 focus:outline-none focus:border-indigo-500"
+                  title="Below this scale, low-priority layers (p2..p5 in the layer name, or Analyst priorities) are hidden"
+              >
+                  <option value="">Default ({Math.round(DEFAULT_DROP_SCALE_THRESHOLD * 100)}%)</option>
+                  {DROP_THRESHOLD_OPTIONS.map(threshold => (
+                      <option key={threshold} value={threshold}>{Math.round(threshold * 100)}% scale</option>
+                  ))}
+                  <option value={0}>Never drop</option>
+              </select>
+           </div>
            <div className="relative mt-2 pt-3 border-t border-slate-700/50 flex flex-col space-y-2">
               {instance.payload ? (
                   <div className="flex flex-col w-full pr-4">
@@ -361,8 +438,14 @@ const RemapperInstanceRow = memo(({
                               )}
                               {instance.payload.requiresGeneration && effectiveAllowed && <span className="text-[8px] bg-purple-500/20 text-purple-300 px-1 rounded border border-purple-500/40">GEN</span>}
                               {!effectiveAllowed && <span className="text-[8px] bg-slate-700 text-slate-400 px-1 rounded border border-slate-600">AI MUTED</span>}
+                              {instance.payload.droppedLayers && (
+                                  <span className="text-[8px] bg-amber-500/20 text-amber-300 px-1 rounded border border-amber-500/40" title={instance.payload.droppedLayers.map(d => `${d.layerName}: ${d.reason}`).join('\n')}>{instance.payload.droppedLayers.length} DROPPED</span>
+                              )}
+                              {safetyReport && (
+                                  <span className={`text-[8px] px-1 rounded border ${SAFETY_BADGE_STYLES[safetyReport.worstSeverity || 'info']}`} title={safetyReport.violations.map(v => `[${v.severity.toUpperCase()}] ${v.message}`).join('\n')}>{safetyReport.violations.length} {safetyReport.violations.length === 1 ? 'ISSUE' : 'ISSUES'}</span>
+                              )}
                           </div>
-                          <span className="text-[10px] text-slate-400 font-mono">{audit ? `${audit.total} Nodes • ` : ''}{instance.payload.scaleFactor.toFixed(2)}x Scale</span>
+                          <span className="text-[10px] text-slate-400 font-mono">{audit ? `${audit.total} Nodes • ` : ''}{instance.layoutConstraints?.fit ? `${instance.layoutConstraints.fit.toUpperCase()} • ` : ''}{instance.payload.scaleFactor.toFixed(2)}x Scale</span>
                       </div>
                       <div className={`w-full h-1 rounded overflow-hidden mt-1 ${instance.strategyUsed ? 'bg-pink-900' : 'bg-slate-900'}`}>
                          <div className={`h-full ${instance.strategyUsed ? 'bg-pink-500' : 'bg-emerald-500'}`} style={{ width: '100%' }}></div>
@@ -377,11 +460,30 @@ const RemapperInstanceRow = memo(({
                       {isInspectorOpen && instance.source.layers && instance.source.originalBounds && instance.target.bounds && instance.source.aiStrategy && (
                           <OverrideInspector sourceLayers={instance.source.layers} sourceBounds={instance.source.originalBounds} targetBounds={instance.target.bounds} strategy={instance.source.aiStrategy} />
                       )}
+                      {safetyHold && safetyReport && (
+                          <div className="mt-2 p-2 bg-red-900/20 border border-red-500/30 rounded flex flex-col space-y-1.5">
+                              <span className="text-[9px] text-red-200 font-bold uppercase tracking-wider">Layout review required</span>
+                              {safetyReport.violations.filter(v => v.severity === 'error').map(v => (
+                                  <span key={getSafetyViolationKey(v)} className="text-[9px] text-red-300/90 leading-tight">• {v.message}</span>
+                              ))}
+                              <button onClick={(e) => { e.stopPropagation(); handleAcceptSafety(instance.index); }} className="nodrag nopan self-end text-[9px] uppercase font-bold tracking-wider px-2 py-1 rounded bg-red-600/80 hover:bg-red-500 text-white border border-white/20 transition-colors">Accept Layout</button>
+                          </div>
+                      )}
                       {showOverlay && (
                           <div className="mt-2 p-2 bg-slate-900/50 border border-slate-700 rounded flex flex-col space-y-2">
                               {isAwaiting && <span className="text-[9px] text-yellow-200 font-medium leading-tight">⚠️ High procedural distortion.</span>}
                               {refinementPending && <div className="flex items-center space-x-1.5 p-1.5 bg-indigo-900/40 border border-indigo-500/30 rounded mb-1 animate-pulse"><svg className="w-3 h-3 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg><span className="text-[9px] text-indigo-200 font-medium leading-none">Refinement detected. Re-confirm to apply.</span></div>}
                               <GenerativePreviewOverlay previewUrl={effectivePreview} canonicalUrl={persistedPreview} isGenerating={isEffectiveGenerating} scale={instance.payload.scaleFactor} onConfirm={(url) => handleConfirmGeneration(instance.index, instance.source.aiStrategy?.generativePrompt || '', url)} isStoreConfirmed={!!storeConfirmed} targetDimensions={instance.source.targetDimensions || instance.target.bounds} sourceReference={iterativeSource} onImageLoad={() => handleImageLoad(instance.index)} generationId={storePayload?.generationId} />
+                              {isGeneratingPreview[instance.index] && (
+                                  <button onClick={(e) => { e.stopPropagation(); handleCancelPreview(instance.index); }} className="nodrag nopan self-end flex items-center space-x-1 text-[9px] uppercase font-bold tracking-wider px-2 py-1 rounded border border-red-500/50 bg-red-900/30 text-red-300 hover:bg-red-900/50 transition-colors" title="Cancel draft generation"><Square className="w-2.5 h-2.5 fill-current" /><span>Cancel</span></button>
+                              )}
+                              {previewError && !isGeneratingPreview[instance.index] && (
+                                  <div className={`flex items-center space-x-1.5 p-1.5 rounded border ${previewError.kind === 'cancelled' ? 'border-slate-600 bg-slate-800/60 text-slate-400' : 'border-red-500/40 bg-red-900/20 text-red-300'}`}>
+                                      <AlertCircle className="w-3 h-3 shrink-0" />
+                                      <span className="text-[9px] leading-tight flex-1 break-words"><span className="font-bold uppercase tracking-wider">Draft {AI_ERROR_LABELS[previewError.kind]}</span>{previewError.kind !== 'cancelled' && `: ${previewError.message}`}</span>
+                                      <button onClick={(e) => { e.stopPropagation(); handleRetryPreview(instance.index); }} className="nodrag nopan shrink-0 flex items-center space-x-1 text-[8px] uppercase font-bold tracking-wider px-1.5 py-0.5 rounded border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors"><RefreshCw className="w-2.5 h-2.5" /><span>Retry</span></button>
+                                  </div>
+                              )}
                           </div>
                       )}
                   </div>
@@ -398,7 +500,11 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
     const instanceCount = data.instanceCount || 1;
     const instanceSettings = data.instanceSettings || {};
     const [confirmations, setConfirmations] = useState<Record<number, string>>({});
+    const [acceptedViolations, setAcceptedViolations] = useState<Record<number, string[]>>({});
     const [isGeneratingPreview, setIsGeneratingPreview] = useState<Record<number, boolean>>({});
+    // Failed draft requests stay failed until the prompt changes or the user retries (no regenerate loop)
+    const [previewErrors, setPreviewErrors] = useState<Record<number, AIRequestFailure>>({});
+    const previewControllersRef = useRef<Record<number, AbortController>>({});
     const lastPromptsRef = useRef<Record<number, string>>({});
     const previousBlobsRef = useRef<Record<number, string>>({});
     const [displayPreviews, setDisplayPreviews] = useState<Record<number, string>>({});
@@ -408,14 +514,18 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
     const edges = useEdges();
     const nodes = useNodes();
     // Phase 3.1: Connect to feedbackRegistry
-    const { templateRegistry, resolvedRegistry, payloadRegistry, registerPayload, updatePayload, unregisterNode, feedbackRegistry } = useProceduralStore();
+    const { psdRegistry, templateRegistry, resolvedRegistry, payloadRegistry, registerPayload, updatePayload, unregisterNode, feedbackRegistry } = useProceduralStore();
     const globalGenerationAllowed = (data as any).remapperConfig?.generationAllowed ?? true;
 
     useEffect(() => { return () => unregisterNode(id); }, [id, unregisterNode]);
     useEffect(() => { updateNodeInternals(id); }, [id, instanceCount, updateNodeInternals]);
     useEffect(() => {
         const blobs = previousBlobsRef.current;
-        return () => { Object.values(blobs).forEach((url) => { if (typeof url === 'string' && url.startsWith('blob:')) URL.revokeObjectURL(url); }); };
+        const controllers = previewControllersRef.current;
+        return () => {
+            Object.values(blobs).forEach((url) => { if (typeof url === 'string' && url.startsWith('blob:')) URL.revokeObjectURL(url); });
+            Object.values<AbortController>(controllers).forEach(controller => controller.abort());
+        };
     }, []);
     useEffect(() => { if (!globalGenerationAllowed) { setConfirmations({}); setDisplayPreviews({}); setIsGeneratingPreview({}); } }, [globalGenerationAllowed]);
 
@@ -443,12 +553,30 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         }));
     }, [id, setNodes]);
 
+    const updateInstanceLayout = useCallback((index: number, patch: Pick<InstanceSettings, 'remapStrategy' | 'remapAnchor' | 'opticalAlignment' | 'dropScaleThreshold'>) => {
+        setNodes((nds) => nds.map((n) => {
+            if (n.id === id) {
+                const currentSettings = n.data.instanceSettings || {};
+                return { ...n, data: { ...n.data, instanceSettings: { ...currentSettings, [index]: { ...currentSettings[index], ...patch } } } };
+            }
+            return n;
+        }));
+    }, [id, setNodes]);
+
     const handleConfirmGeneration = useCallback((index: number, prompt: string, confirmedUrl?: string) => {
         if (!confirmedUrl) return;
         setConfirmations(prev => ({ ...prev, [index]: prompt }));
         updatePayload(id, `result-out-${index}`, { previewUrl: confirmedUrl, isConfirmed: true, isTransient: false, sourceReference: confirmedUrl, generationId: Date.now() });
     }, [id, updatePayload]);
 
+    // Accepts the current layout errors; new or different errors raise the hold again
+    const handleAcceptSafety = useCallback((index: number) => {
+        const report = payloadRegistry[id]?.[`result-out-${index}`]?.safetyReport;
+        if (!report) return;
+        const keys = report.violations.filter(v => v.severity === 'error').map(getSafetyViolationKey);
+        setAcceptedViolations(prev => ({ ...prev, [index]: keys }));
+    }, [id, payloadRegistry]);
+
     const handleImageLoad = useCallback((index: number) => { isTransitioningRef.current[index] = false; }, []);
 
     const instances: InstanceData[] = useMemo(() => {
@@ -477,246 +605,68 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
             if (targetEdge && targetEdge.sourceHandle) {
                 const template = templateRegistry[targetEdge.source];
                 if (template) {
-                    let containerDefinition = template.containers.find(c => c.name === targetEdge.sourceHandle);
-                    if (!containerDefinition && targetEdge.sourceHandle.startsWith('slot-bounds-')) containerDefinition = template.containers.find(c => c.name === targetEdge.sourceHandle.replace('slot-bounds-', ''));
+                    let containerDefinition = findContainerByHandle(template, targetEdge.sourceHandle) ?? undefined;
                     if (!containerDefinition) { const indexMatch = targetEdge.sourceHandle.match(/^target-out-(\d+)$/); if (indexMatch) containerDefinition = template.containers[parseInt(indexMatch[1], 10)]; }
                     if (!containerDefinition && template.containers.length === 1) containerDefinition = template.containers[0];
-                    if (containerDefinition) targetData = { ready: true, name: containerDefinition.originalName || containerDefinition.name, bounds: containerDefinition.bounds };
+                    if (containerDefinition) {
+                        // Nested slots: layout targets the sub-slot, clipping is governed by the parent container
+                        const parentContainer = getParentContainer(template, containerDefinition);
+                        targetData = { ready: true, name: containerDefinition.originalName || containerDefinition.name, bounds: containerDefinition.bounds, clipBounds: parentContainer?.bounds, clipPolygon: parentContainer ? parentContainer.polygon : containerDefinition.polygon, safeBounds: getContainerSafeRect(template, containerDefinition) ?? undefined, constraints: containerDefinition.constraints };
+                    }
                 }
             }
 
             let payload: TransformedPayload | null = null;
             let strategyUsed = false;
+            let layoutConstraints: ContainerConstraints | undefined;
 
             if (sourceData.ready && targetData.ready) {
-                // Phase 3.2: Merge Strategy with Feedback
-                const feedback = feedbackRegistry?.[id]?.[i];
-                let effectiveStrategy = sourceData.aiStrategy;
-                if (feedback && feedback.overrides.length > 0) {
-                     effectiveStrategy = { ...sourceData.aiStrategy, overrides: feedback.overrides };
-                }
-
-                const sourceRect = sourceData.originalBounds;
-                const targetRect = targetData.bounds;
-                const strategy = effectiveStrategy;
-                
-                // STEP 2: Target-Relative Scaling
-                let globalScale = strategy?.suggestedScale || 1.0;
+                // The Reviewer registers feedback under the Remapper output handle it is wired to
+                const feedback = feedbackRegistry?.[id]?.[`result-out-${i}`];
+                const strategy = mergeFeedbackStrategy(sourceData.aiStrategy, feedback);
+                layoutConstraints = resolveLayoutConstraints(targetData.constraints, instanceSettings[i]?.remapStrategy ?? data.remapperConfig?.strategy, instanceSettings[i]?.remapAnchor, strategy);
                 strategyUsed = !!strategy;
 
-                const transformLayers = (layers: SerializableLayer[], depth = 0, parentDeltaX = 0, parentDeltaY = 0): TransformedLayer[] => {
-                    const getOverride = (id: string) => strategy?.overrides?.find(o => o.layerId === id);
-
-                    let transformed: TransformedLayer[] = layers.map((layer, idx) => {
-                        const relX = (layer.coords.x - sourceRect.x) / sourceRect.w;
-                        const relY = (layer.coords.y - sourceRect.y) / sourceRect.h;
-                        
-                        const geomX = targetRect.x + (relX * targetRect.w);
-                        const geomY = targetRect.y + (relY * targetRect.h);
-                        
-                        let finalX = geomX + parentDeltaX;
-                        let finalY = geomY + parentDeltaY;
-                        let layerScaleX = globalScale;
-                        let layerScaleY = globalScale;
-                        
-                        if (effectiveAllowed && strategy?.replaceLayerId === layer.id) {
-                            return {
-                                ...layer,
-                                type: 'generative', 
-                                generativePrompt: strategy.generativePrompt, 
-                                coords: { x: targetRect.x, y: targetRect.y, w: targetRect.w, h: targetRect.h }, 
-                                transform: { scaleX: 1, scaleY: 1, offsetX: targetRect.x, offsetY: targetRect.y },
-                                children: undefined 
-                            };
-                        }
-                        
-                        let override = getOverride(layer.id);
-
-                        if (override) {
-                            finalX = targetRect.x + override.xOffset;
-                            finalY = targetRect.y + override.yOffset;
-                            layerScaleX *= override.individualScale;
-                            layerScaleY *= override.individualScale;
-                        }
-                        
-                        const scaledW = layer.coords.w * layerScaleX;
-                        const scaledH = layer.coords.h * layerScaleY;
-
-                        return {
-                            ...layer,
-                            layoutRole: override?.layoutRole,
-                            linkedAnchorId: override?.linkedAnchorId,
-                            citedRule: override?.citedRule,
-                            coords: { x: finalX, y: finalY, w: scaledW, h: scaledH },
-                            transform: { scaleX: layerScaleX, scaleY: layerScaleY, offsetX: finalX, offsetY: finalY },
-                            children: layer.children ? transformLayers(layer.children, depth + 1, parentDeltaX, parentDeltaY) : undefined
-                        };
-                    });
-
-                    // STEP 3 & 4: Physics Engine (Only at Root Depth)
-                    if (depth === 0 && strategy) {
-                        
-                        // A. GRID SOLVER (Semantic: Only 'flow' items)
-                        // Phase 1.1 Fix: Grid Solver Lock
-                        const gridCandidates = transformed.filter(l => {
-                            const override = getOverride(l.id);
-                            if (override) return false; // Immutable Lock
-                            const role = override?.layoutRole;
-                            return role === 'flow' || !role; 
-                        });
-
-                        if (gridCandidates.length > 0) {
-                            if (strategy.layoutMode === 'DISTRIBUTE_HORIZONTAL') {
-                                const slotWidth = targetRect.w / gridCandidates.length;
-                                gridCandidates.forEach((l, i) => {
-                                    const slotCenter = targetRect.x + (i * slotWidth) + (slotWidth / 2);
-                                    const newX = slotCenter - (l.coords.w / 2);
-                                    l.coords.x = newX;
-                                    l.transform.offsetX = newX;
-                                });
-                            } else if (strategy.layoutMode === 'DISTRIBUTE_VERTICAL') {
-                                const slotHeight = targetRect.h / gridCandidates.length;
-                                gridCandidates.forEach((l, i) => {
-                                    const slotCenter = targetRect.y + (i * slotHeight) + (slotHeight / 2);
-                                    const newY = slotCenter - (l.coords.h / 2);
-                                    l.coords.y = newY;
-                                    l.transform.offsetY = newY;
-                                });
-                            }
-                        }
-
-                        // B. COLLISION SOLVER (Semantic: Only 'flow' items)
-                        if (strategy.physicsRules?.preventOverlap) {
-                            const flowItems = transformed.filter(l => {
-                                const role = getOverride(l.id)?.layoutRole;
-                                return role === 'flow' || !role;
-                            });
-                            
-                            flowItems.sort((a, b) => a.coords.x - b.coords.x);
-                            const padding = 10; 
-                            
-                            for (let i = 1; i < flowItems.length; i++) {
-                                const prev = flowItems[i-1];
-                                const curr = flowItems[i];
-                                
-                                // Phase 1.2 Fix: Collision Solver Lock
-                                if (getOverride(curr.id)) continue; 
-
-                                const prevEnd = prev.coords.x + prev.coords.w;
-                                
-                                if (curr.coords.x < prevEnd + padding) {
-                                    const newX = prevEnd + padding;
-                                    curr.coords.x = newX;
-                                    curr.transform.offsetX = newX;
-                                }
-                            }
-                        }
-
-                        // C. OVERLAY SOLVER (Semantic: Only 'overlay' items)
-                        const overlayItems = transformed.filter(l => getOverride(l.id)?.layoutRole === 'overlay');
-                        overlayItems.forEach(l => {
-                            // Phase 2.1 Fix: Overlay Lock
-                            if (getOverride(l.id)) return;
-
-                            const anchorId = getOverride(l.id)?.linkedAnchorId;
-                            if (anchorId) {
-                                const anchor = transformed.find(t => t.id === anchorId);
-                                if (anchor) {
-                                    const sourceOverlay = sourceData.layers?.find(s => s.id === l.id);
-                                    const sourceAnchor = sourceData.layers?.find(s => s.id === anchorId);
-                                    
-                                    if (sourceOverlay && sourceAnchor) {
-                                        const deltaX = sourceOverlay.coords.x - sourceAnchor.coords.x;
-                                        const deltaY = sourceOverlay.coords.y - sourceAnchor.coords.y;
-                                        const newX = anchor.coords.x + (deltaX * globalScale);
-                                        const newY = anchor.coords.y + (deltaY * globalScale);
-                                        l.coords.x = newX;
-                                        l.coords.y = newY;
-                                        l.transform.offsetX = newX;
-                                        l.transform.offsetY = newY;
-                                    }
-                                }
-                            }
-                        });
-
-                        // D. BOUNDARY SOLVER (Universal: All items subject to clipping rules)
-                        if (strategy.physicsRules?.preventClipping) {
-                            transformed.forEach(l => {
-                                // Phase 2.2 Fix: Boundary Lock
-                                // Allow manual overrides to "bleed" out of bounds (skip clipping).
-                                if (getOverride(l.id)) return;
-
-                                const minX = targetRect.x;
-                                const maxX = targetRect.x + targetRect.w - l.coords.w;
-                                const clampedX = Math.max(minX, Math.min(l.coords.x, maxX));
-                                
-                                const minY = targetRect.y;
-                                const maxY = targetRect.y + targetRect.h - l.coords.h;
-                                const clampedY = Math.max(minY, Math.min(l.coords.y, maxY));
-                                
-                                l.coords.x = clampedX;
-                                l.coords.y = clampedY;
-                                l.transform.offsetX = clampedX;
-                                l.transform.offsetY = clampedY;
-                            });
-                        }
-                    }
-
-                    return transformed;
-                };
-
-                const transformedLayers = transformLayers(sourceData.layers as SerializableLayer[]);
-                
-                let requiresGeneration = false;
-                let status: TransformedPayload['status'] = 'success';
-                const currentPrompt = strategy?.generativePrompt;
-                
-                const isMandatory = strategy?.isExplicitIntent || strategy?.directives?.includes('MANDATORY_GEN_FILL');
-                const confirmedPrompt = confirmations[i];
-                const isConfirmed = isMandatory || (!!currentPrompt && currentPrompt === confirmedPrompt);
-
-                if (currentPrompt && effectiveAllowed) {
-                    if (isConfirmed) {
-                        requiresGeneration = true;
-                        status = 'success';
-                    } else if (strategy?.isExplicitIntent || globalScale > 2.0) {
-                        status = 'awaiting_confirmation';
-                    }
-                }
+                // Optical bounds were measured at load time; this only indexes them by layer ID
+                const sourcePsd = psdRegistry[sourceData.nodeId];
+                const opticalBounds = instanceSettings[i]?.opticalAlignment && sourcePsd ? getLayerOpticalBounds(sourcePsd) : undefined;
+
+                const remapped = remapLayers({
+                    layers: sourceData.layers as SerializableLayer[],
+                    sourceRect: sourceData.originalBounds,
+                    targetRect: targetData.bounds,
+                    clipRect: targetData.clipBounds,
+                    clipPolygon: targetData.clipPolygon,
+                    safeRect: targetData.safeBounds,
+                    strategy,
+                    feedback,
+                    layoutConstraints,
+                    generationAllowed: effectiveAllowed,
+                    confirmedPrompt: confirmations[i],
+                    opticalBounds,
+                    acceptedViolations: acceptedViolations[i],
+                    dropScaleThreshold: instanceSettings[i]?.dropScaleThreshold,
+                    measureText: measureTextWidth,
+                    sourceNodeId: sourceData.nodeId,
+                    sourceContainer: sourceData.name,
+                    targetContainer: targetData.name
+                });
                 
                 const storePayload = payloadRegistry[id]?.[`result-out-${i}`];
-                
                 const inheritPreview = strategy ? (storePayload?.previewUrl || sourceData.previewUrl) : undefined;
-                const inheritConfirmed = strategy ? isConfirmed : false;
-                const inheritSourceRef = strategy?.sourceReference;
                 
                 payload = {
-                    status,
-                    sourceNodeId: sourceData.nodeId,
-                    sourceContainer: sourceData.name,
-                    targetContainer: targetData.name,
-                    layers: transformedLayers,
-                    scaleFactor: globalScale,
-                    metrics: { source: { w: sourceRect.w, h: sourceRect.h }, target: { w: targetRect.w, h: targetRect.h } },
-                    targetBounds: { x: targetRect.x, y: targetRect.y, w: targetRect.w, h: targetRect.h },
-                    requiresGeneration,
+                    ...remapped,
                     previewUrl: inheritPreview,
-                    isConfirmed: inheritConfirmed,
-                    isTransient: !inheritConfirmed && !!inheritPreview,
-                    sourceReference: inheritSourceRef,
+                    isTransient: !remapped.isConfirmed && !!inheritPreview,
                     generationId: storePayload?.generationId,
-                    isSynthesizing: storePayload?.isSynthesizing,
-                    generationAllowed: effectiveAllowed,
-                    directives: strategy?.directives,
-                    isMandatory: isMandatory,
-                    replaceLayerId: strategy?.replaceLayerId,
-                    triangulation: strategy?.triangulation
+                    isSynthesizing: storePayload?.isSynthesizing
                 };
             }
-            result.push({ index: i, source: sourceData, target: targetData, payload, strategyUsed });
+            result.push({ index: i, source: sourceData, target: targetData, payload, strategyUsed, layoutConstraints });
         }
         return result;
-    }, [instanceCount, edges, id, resolvedRegistry, templateRegistry, nodes, confirmations, payloadRegistry, globalGenerationAllowed, instanceSettings, feedbackRegistry]);
+    }, [instanceCount, edges, id, psdRegistry, resolvedRegistry, templateRegistry, nodes, confirmations, payloadRegistry, globalGenerationAllowed, instanceSettings, feedbackRegistry, data.remapperConfig?.strategy, acceptedViolations]);
 
     useEffect(() => {
         instances.forEach(instance => {
@@ -749,6 +699,9 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         instances.forEach(instance => {
             const idx = instance.index;
             if (!instance.payload?.generationAllowed) {
+                // Dropped rather than recorded: a disabled gate is not a failed draft
+                previewControllersRef.current[idx]?.abort();
+                delete previewControllersRef.current[idx];
                 if (isGeneratingPreview[idx]) setIsGeneratingPreview(prev => ({...prev, [idx]: false}));
                 return;
             }
@@ -757,7 +710,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
             const lastPrompt = lastPromptsRef.current[idx];
             const hasPrompt = !!currentPrompt;
             const promptChanged = hasPrompt && currentPrompt !== lastPrompt;
-            const isAwaiting = instance.payload?.status === 'awaiting_confirmation';
+            const isAwaiting = instance.payload?.status === 'awaiting_confirmation' && !isSafetyHold(instance.payload);
             const storePayload = payloadRegistry[id]?.[`result-out-${idx}`];
             const hasPreview = !!(storePayload?.previewUrl);
             
@@ -771,36 +724,62 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
             if (promptChanged || needsInitialPreview) {
                 if (isGeneratingPreview[idx] && !promptChanged) return;
+                if (previewErrors[idx] && !promptChanged) return;
                 if (currentPrompt) lastPromptsRef.current[idx] = currentPrompt;
                 const prompt = currentPrompt!;
                 const sourceRef = strategy?.sourceReference || storePayload?.sourceReference;
+
+                // A new prompt supersedes the draft still in flight
+                previewControllersRef.current[idx]?.abort();
+                const controller = new AbortController();
+                previewControllersRef.current[idx] = controller;
+                const isCurrent = () => previewControllersRef.current[idx] === controller;
                 
                 const generateDraft = async () => {
                     setIsGeneratingPreview(prev => ({...prev, [idx]: true}));
+                    setPreviewErrors(prev => { if (!prev[idx]) return prev; const next = { ...prev }; delete next[idx]; return next; });
                     updatePayload(id, `result-out-${idx}`, { isSynthesizing: true });
                     try {
-                        const apiKey = process.env.API_KEY;
-                        if (!apiKey) return;
-                        const ai = new GoogleGenAI({ apiKey });
-                        const parts: any[] = [];
-                        if (sourceRef) parts.push({ inlineData: { mimeType: 'image/png', data: sourceRef.includes('base64,') ? sourceRef.split('base64,')[1] : sourceRef } });
-                        parts.push({ text: prompt });
-                        const response = await ai.models.generateContent({ model: 'gemini-2.5-flash-image', contents: { parts }, config: { imageConfig: { aspectRatio: "1:1" } } });
-                        let base64Data = null;
-                        for (const part of response.candidates?.[0]?.content?.parts || []) { if (part.inlineData) { base64Data = part.inlineData.data; break; } }
-                        if (base64Data) {
-                            const url = `data:image/png;base64,${base64Data}`;
-                            const previousUrl = previousBlobsRef.current[idx];
-                            if (previousUrl && previousUrl !== url && previousUrl.startsWith('blob:')) setTimeout(() => URL.revokeObjectURL(previousUrl), 2000);
-                            previousBlobsRef.current[idx] = url;
-                            updatePayload(id, `result-out-${idx}`, { previewUrl: url, isTransient: true, isSynthesizing: false, generationId: Date.now() });
+                        const provider = getAIProvider();
+                        if (!provider.isAvailable) throw new AIRequestError('unavailable', "AI provider not configured");
+                        const url = await runAIRequest(
+                            signal => provider.generateImage({ prompt, aspectRatio: "1:1", reference: sourceRef, signal }),
+                            { signal: controller.signal, timeoutMs: DEFAULT_AI_TIMEOUTS.image, label: `Remapper Draft #${idx}` }
+                        );
+                        if (!isCurrent()) return;
+                        if (!url) throw new AIRequestError('failed', "The model returned no image");
+                        const previousUrl = previousBlobsRef.current[idx];
+                        if (previousUrl && previousUrl !== url && previousUrl.startsWith('blob:')) setTimeout(() => URL.revokeObjectURL(previousUrl), 2000);
+                        previousBlobsRef.current[idx] = url;
+                        updatePayload(id, `result-out-${idx}`, { previewUrl: url, isTransient: true, isSynthesizing: false, generationId: Date.now() });
+                    } catch (e) {
+                        if (!isCurrent()) {
+                            // Dropped by a disabled gate: nothing else will clear the synthesizing flag
+                            if (!previewControllersRef.current[idx]) updatePayload(id, `result-out-${idx}`, { isSynthesizing: false });
+                            return;
                         }
-                    } catch (e) { console.error("Draft Generation Failed", e); updatePayload(id, `result-out-${idx}`, { isSynthesizing: false }); } finally { setIsGeneratingPreview(prev => ({...prev, [idx]: false})); }
+                        const failure = toAIRequestFailure(e);
+                        if (failure.kind !== 'cancelled') console.error("Draft Generation Failed", e);
+                        setPreviewErrors(prev => ({ ...prev, [idx]: failure }));
+                        updatePayload(id, `result-out-${idx}`, { isSynthesizing: false });
+                    } finally {
+                        if (isCurrent()) setIsGeneratingPreview(prev => ({...prev, [idx]: false}));
+                    }
                 };
                 generateDraft();
             }
         });
-    }, [instances, isGeneratingPreview, id, updatePayload, payloadRegistry]);
+    }, [instances, isGeneratingPreview, previewErrors, id, updatePayload, payloadRegistry]);
+
+    const handleCancelPreview = useCallback((idx: number) => {
+        previewControllersRef.current[idx]?.abort();
+    }, []);
+
+    // Clearing the error (and the remembered prompt) lets the preview effect request the draft again
+    const handleRetryPreview = useCallback((idx: number) => {
+        delete lastPromptsRef.current[idx];
+        setPreviewErrors(prev => { const next = { ...prev }; delete next[idx]; return next; });
+    }, []);
 
     return (
         <div className="w-[500px] bg-slate-800 rounded-lg shadow-xl border border-indigo-500/50 font-sans relative flex flex-col">
@@ -808,7 +787,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
             <div className="flex items-center space-x-2"><svg className="w-4 h-4 text-indigo-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" /></svg><span className="text-sm font-semibold text-indigo-100">Procedural Remapper</span></div>
             <div className="flex items-center space-x-2"><button onClick={(e) => { e.stopPropagation(); toggleMasterGeneration(); }} className={`nodrag nopan p-1 rounded transition-colors ${globalGenerationAllowed ? 'bg-purple-500/20 text-purple-300 hover:bg-purple-500/40' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700'}`} title={globalGenerationAllowed ? "Master Gate: AI Enabled" : "Master Gate: AI Disabled"}><Sparkles className="w-3.5 h-3.5" fill={globalGenerationAllowed ? "currentColor" : "none"} /></button><span className="text-[10px] text-indigo-400/70 font-mono">TRANSFORMER</span></div>
         </div>
-        <div className="flex flex-col">{instances.map((instance) => (<RemapperInstanceRow key={instance.index} instance={instance} confirmations={confirmations} toggleInstanceGeneration={toggleInstanceGeneration} handleConfirmGeneration={handleConfirmGeneration} handleImageLoad={handleImageLoad} isGeneratingPreview={isGeneratingPreview} displayPreviews={displayPreviews} payloadRegistry={payloadRegistry} id={id} localSetting={instanceSettings[instance.index]?.generationAllowed ?? true} />))}</div>
+        <div className="flex flex-col">{instances.map((instance) => (<RemapperInstanceRow key={instance.index} instance={instance} confirmations={confirmations} toggleInstanceGeneration={toggleInstanceGeneration} handleConfirmGeneration={handleConfirmGeneration} handleImageLoad={handleImageLoad} isGeneratingPreview={isGeneratingPreview} previewError={previewErrors[instance.index]} handleCancelPreview={handleCancelPreview} handleRetryPreview={handleRetryPreview} displayPreviews={displayPreviews} payloadRegistry={payloadRegistry} id={id} localSetting={instanceSettings[instance.index]?.generationAllowed ?? true} layoutSettings={instanceSettings[instance.index] || {}} updateInstanceLayout={updateInstanceLayout} handleAcceptSafety={handleAcceptSafety} />))}</div>
         <button onClick={() => setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, instanceCount: (n.data.instanceCount || 1) + 1 } } : n))} className="w-full py-2 bg-slate-800 hover:bg-slate-700 border-t border-slate-700 text-slate-400 hover:text-slate-200 transition-colors flex items-center justify-center space-x-1 rounded-b-lg"><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg><span className="text-[10px] font-medium uppercase tracking-wider">Add Remap Instance</span></button>
         </div>
     );
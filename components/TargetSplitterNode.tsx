@@ -1,12 +1,14 @@
 import React, { memo, useMemo, useEffect } from 'react';
-import { Handle, Position, useEdges, useNodes } from 'reactflow';
+import { Handle, Position, useEdges, useNodes, useReactFlow } from 'reactflow';
 import type { NodeProps, Node } from 'reactflow';
 import { PSDNodeData } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject } from '../services/psdService';
+import { getSemanticThemeObject, getSortedContainerTree, parseSafeAreaInsets, formatSafeAreaInsets } from '../services/psdService';
 
-export const TargetSplitterNode = memo(({ id }: NodeProps) => {
+export const TargetSplitterNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   const edges = useEdges();
+  const nodes = useNodes();
+  const { setNodes } = useReactFlow();
   
   // Connect to Store
   const { templateRegistry, registerTemplate, unregisterNode } = useProceduralStore();
@@ -18,7 +20,46 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
   }, [edges, id]);
 
   // 2. Fetch Template from Store
-  const template = upstreamNodeId ? templateRegistry[upstreamNodeId] : null;
+  const upstreamTemplate = upstreamNodeId ? templateRegistry[upstreamNodeId] : null;
+
+  // 2b. Multi-template documents: the splitter may expose a different artboard than the upstream default
+  const availableTemplates = useMemo(() => {
+    const upstreamNode = nodes.find(n => n.id === upstreamNodeId) as Node<PSDNodeData> | undefined;
+    return upstreamNode?.data?.templates || [];
+  }, [nodes, upstreamNodeId]);
+
+  const selectedTemplate = useMemo(() => {
+    if (!upstreamTemplate) return null;
+    if (data.selectedTemplateId) {
+      return availableTemplates.find(t => t.id === data.selectedTemplateId) || upstreamTemplate;
+    }
+    return upstreamTemplate;
+  }, [upstreamTemplate, availableTemplates, data.selectedTemplateId]);
+
+  // 2c. Safe-area overrides replace the template's annotation per slot (unparseable input keeps the annotation)
+  const template = useMemo(() => {
+    const overrides = data.safeAreaOverrides;
+    if (!selectedTemplate || !overrides || Object.keys(overrides).length === 0) return selectedTemplate;
+    return {
+      ...selectedTemplate,
+      containers: selectedTemplate.containers.map(container => {
+        const override = overrides[container.id];
+        if (override === undefined) return container;
+        const safeArea = override.trim() ? parseSafeAreaInsets(override) : undefined;
+        if (override.trim() && !safeArea) return container;
+        return { ...container, constraints: { ...container.constraints, safeArea } };
+      })
+    };
+  }, [selectedTemplate, data.safeAreaOverrides]);
+
+  const handleTemplateSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value || null;
+    setNodes((nds) => nds.map(n => n.id === id ? { ...n, data: { ...n.data, selectedTemplateId: value } } : n));
+  };
+
+  const handleSafeAreaChange = (containerId: string, value: string) => {
+    setNodes((nds) => nds.map(n => n.id === id ? { ...n, data: { ...n.data, safeAreaOverrides: { ...n.data.safeAreaOverrides, [containerId]: value } } } : n));
+  };
 
   // 3. Broadcast Template as "Self" to Store
   useEffect(() => {
@@ -32,10 +73,10 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
     return () => unregisterNode(id);
   }, [id, unregisterNode]);
 
-  // SORT LOGIC: Alphabetical
+  // SORT LOGIC: Alphabetical, sub-slots listed beneath their parent
   const sortedContainers = useMemo(() => {
       if (!template?.containers) return [];
-      return [...template.containers].sort((a, b) => a.name.localeCompare(b.name));
+      return getSortedContainerTree(template);
   }, [template]);
 
   // 4. Identify connected content slots (UI logic)
@@ -89,6 +130,22 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
         {/* State: Template Connected, Render Slots */}
         {isTemplateConnected && (
           <div className="flex flex-col space-y-3">
+             {availableTemplates.length > 1 && (
+               <div className="flex items-center justify-between space-x-2 px-1">
+                 <span className="text-[10px] text-slate-400 font-medium shrink-0">ARTBOARD</span>
+                 <select
+                   value={data.selectedTemplateId ?? ''}
+                   onChange={handleTemplateSelect}
+                   className="nodrag flex-1 min-w-0 bg-slate-900 border border-emerald-900/60 text-[10px] text-emerald-100 rounded px-1 py-0.5 focus:outline-none focus:border-emerald-500"
+                 >
+                   <option value="">Follow Target ({upstreamTemplate?.name || 'Default'})</option>
+                   {availableTemplates.map(t => (
+                     <option key={t.id} value={t.id}>{t.name} ({t.canvas.width}x{t.canvas.height})</option>
+                   ))}
+                 </select>
+               </div>
+             )}
+
              <div className="text-[10px] text-slate-400 font-medium px-1 flex justify-between">
                 <span>SLOT DEFINITIONS</span>
                 <span>{connectedSlots.size} / {sortedContainers.length} Filled</span>
@@ -99,8 +156,11 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
                  <div className="text-xs text-slate-500 p-2 italic">Target has no containers</div>
                ) : (
                  sortedContainers.map((container, index) => {
-                   const isFilled = connectedSlots.has(container.name);
+                   const isFilled = connectedSlots.has(container.id);
                    const theme = getSemanticThemeObject(container.name, index);
+                   const depth = container.depth ?? 0;
+                   const safeAreaText = data.safeAreaOverrides?.[container.id] ?? formatSafeAreaInsets(container.constraints?.safeArea);
+                   const isSafeAreaValid = !safeAreaText.trim() || !!parseSafeAreaInsets(safeAreaText);
                    
                    return (
                      <div 
@@ -110,12 +170,13 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
                            ? `${theme.bg.replace('/20', '/10')} ${theme.border.replace('border-', 'border-opacity-30 border-')}` 
                            : 'bg-slate-900/30 border-slate-700/50'
                        }`}
+                       style={depth > 0 ? { marginLeft: depth * 12 } : undefined}
                      >
                        {/* Input Handle for specific slot (Assembly In) */}
                        <Handle
                          type="target"
                          position={Position.Left}
-                         id={container.name} 
+                         id={container.id} 
                          className={`!w-3 !h-3 !-left-1.5 transition-colors duration-300 ${
                            isFilled 
                              ? `${theme.dot} !border-white` 
@@ -126,18 +187,27 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
 
                        <div className="flex flex-col leading-tight overflow-hidden w-full mr-4">
                           <span className={`text-xs font-medium truncate ${isFilled ? theme.text : 'text-slate-400'}`}>
+                            {depth > 0 && <span className="text-slate-600 font-mono mr-1">└</span>}
                             {container.name}
                           </span>
                           <span className="text-[9px] text-slate-600 font-mono">
                              {Math.round(container.normalized.w * 100)}% x {Math.round(container.normalized.h * 100)}%
                           </span>
+                          <input
+                            type="text"
+                            value={safeAreaText}
+                            onChange={(e) => handleSafeAreaChange(container.id, e.target.value)}
+                            placeholder="Safe area (e.g. 14% 0 20% 0)"
+                            title="Safe-area insets: top right bottom left, in px or %"
+                            className={`nodrag mt-1 w-full bg-slate-900 border rounded px-1 py-0.5 text-[9px] font-mono text-slate-300 placeholder-slate-600 focus:outline-none ${isSafeAreaValid ? 'border-slate-700 focus:border-emerald-500' : 'border-red-700 focus:border-red-500'}`}
+                          />
                        </div>
 
                        {/* Output Handle for Bounds (Coords Out) */}
                        <Handle
                          type="source"
                          position={Position.Right}
-                         id={`slot-bounds-${container.name}`}
+                         id={`slot-bounds-${container.id}`}
                          className={`!w-3 !h-3 !-right-1.5 transition-colors duration-300 !bg-emerald-500 !border-white hover:!bg-emerald-400`}
                          style={{ top: '50%', transform: 'translateY(-50%)' }}
                          title={`Export Bounds: ${container.name}`}
@@ -1,7 +1,7 @@
 import React, { memo, useCallback, useState, useRef, useEffect } from 'react';
 import { Handle, Position, useReactFlow } from 'reactflow';
 import type { NodeProps } from 'reactflow';
-import { parsePsdFile, extractTemplateMetadata, getSemanticTheme } from '../services/psdService';
+import { parsePsdFile, isParseAbortError, PSD_PARSE_STAGE_LABELS, PsdParseProgress, extractTemplates, getSemanticTheme } from '../services/psdService';
 import { PSDNodeData, TemplateMetadata } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
 
@@ -47,7 +47,9 @@ const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metad
 export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<PsdParseProgress | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { setNodes } = useReactFlow();
 
   // Connect to store
@@ -59,7 +61,10 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
   const isDehydrated = isDataLoaded && !hasBinary;
 
   useEffect(() => {
-    return () => unregisterNode(id);
+    return () => {
+      abortRef.current?.abort();
+      unregisterNode(id);
+    };
   }, [id, unregisterNode]);
 
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -68,19 +73,28 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
 
     setIsLoading(true);
     setLocalError(null);
+    setProgress(null);
+
+    // Supersede any parse still running for this node
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       console.log(`Parsing Target PSD: ${file.name}...`);
       // Optimization: Skip layer image data as we only need structure/metadata for the target
       // However, for Export assembly, we might need the original canvas state or specific layers if user demands.
       // For now, we keep it lightweight as requested.
-      const parsedPsd = await parsePsdFile(file, { skipLayerImageData: true, skipThumbnail: true });
-      const templateData = extractTemplateMetadata(parsedPsd);
+      const parsedPsd = await parsePsdFile(file, { skipLayerImageData: true, skipThumbnail: true, signal: controller.signal, onProgress: setProgress });
+      // Multi-template documents (artboards / '!!TEMPLATE <name>') expose every layout; the first is active by default
+      const templates = extractTemplates(parsedPsd).filter(t => t.containers.length > 0);
 
       // Validation: Logic requirement
-      if (templateData.containers.length === 0) {
+      if (templates.length === 0) {
         throw new Error("INVALID TARGET: No !!TEMPLATE Group Found");
       }
+      // Keep the previous artboard choice when re-hydrating the same document
+      const templateData = templates.find(t => t.id === data.selectedTemplateId) || templates[0];
 
       // REGISTER WITH STORE
       registerPsd(id, parsedPsd);
@@ -95,6 +109,8 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
                 ...node.data,
                 fileName: file.name,
                 template: templateData,
+                templates: templates.length > 1 ? templates : undefined,
+                selectedTemplateId: templateData.id,
                 validation: null, // Not applicable for target
                 designLayers: null, // Not applicable for target
                 error: null,
@@ -105,6 +121,11 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
         })
       );
     } catch (err: any) {
+      if (isParseAbortError(err)) {
+        console.log(`Target parsing cancelled: ${file.name}`);
+        return;
+      }
+
       const errorMessage = err.message || 'Failed to parse Target PSD';
       setLocalError(errorMessage);
       console.error("Target PSD Error:", err);
@@ -118,6 +139,7 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
                 ...node.data,
                 fileName: file.name,
                 template: null,
+                templates: undefined,
                 error: errorMessage,
               },
             };
@@ -126,9 +148,35 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
         })
       );
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
+      // Allow re-selecting the same file after a cancel
+      event.target.value = '';
     }
-  }, [id, setNodes, registerPsd, registerTemplate]);
+  }, [id, data.selectedTemplateId, setNodes, registerPsd, registerTemplate]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  }, []);
+
+  const handleTemplateSelect = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextTemplate = data.templates?.find(t => t.id === event.target.value);
+    if (!nextTemplate) return;
+
+    registerTemplate(id, nextTemplate);
+    setNodes((nodes) =>
+      nodes.map((node) => node.id === id
+        ? { ...node, data: { ...node.data, template: nextTemplate, selectedTemplateId: nextTemplate.id } }
+        : node
+      )
+    );
+  }, [id, data.templates, registerTemplate, setNodes]);
 
   const handleBoxClick = () => fileInputRef.current?.click();
   const isConnectable = isDataLoaded && hasBinary;
@@ -197,7 +245,25 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <span className="text-xs text-slate-300">Analyzing target structure...</span>
+            <span className="text-xs text-slate-300">
+              {progress ? PSD_PARSE_STAGE_LABELS[progress.stage] : 'Analyzing target structure...'}
+            </span>
+            <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden border border-emerald-900/50">
+              <div
+                className="h-full bg-emerald-500 transition-all duration-300"
+                style={{ width: `${progress?.percent ?? 0}%` }}
+              />
+            </div>
+            <div className="w-full flex justify-between items-center text-[10px] text-slate-500">
+              <span className="truncate pr-2">{progress?.message || 'Starting worker...'}</span>
+              <span className="font-mono">{progress?.percent ?? 0}%</span>
+            </div>
+            <button
+              onClick={handleCancel}
+              className="py-1 px-3 bg-slate-700 hover:bg-red-900/60 text-[10px] text-slate-300 hover:text-red-200 rounded transition-colors uppercase font-medium tracking-wide"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
@@ -210,6 +276,21 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
                  <span className="text-xs font-medium text-slate-200 truncate" title={data.fileName || 'target.psd'}>{data.fileName}</span>
               </div>
               
+              {data.templates && data.templates.length > 1 && (
+                <div className="flex items-center justify-between space-x-2 mb-1">
+                  <span className="text-[10px] uppercase text-slate-500 font-semibold tracking-wider shrink-0">Artboard</span>
+                  <select
+                    value={data.selectedTemplateId ?? ''}
+                    onChange={handleTemplateSelect}
+                    className="nodrag flex-1 min-w-0 bg-slate-800 border border-emerald-900/60 text-[10px] text-emerald-100 rounded px-1 py-0.5 focus:outline-none focus:border-emerald-500"
+                  >
+                    {data.templates.map(t => (
+                      <option key={t.id} value={t.id}>{t.name} ({t.canvas.width}x{t.canvas.height})</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {data.template && <TargetTemplatePreview metadata={data.template} />}
               
               <div className="flex justify-end mt-2">
@@ -3,7 +3,7 @@ import { Handle, Position, useEdges, useNodes } from 'reactflow';
 import type { NodeProps, Node } from 'reactflow';
 import { PSDNodeData } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject } from '../services/psdService';
+import { getSemanticThemeObject, getSortedContainerTree } from '../services/psdService';
 
 export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
   const edges = useEdges();
@@ -18,10 +18,10 @@ export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
 
   const template = sourceNode?.data?.template;
   
-  // SORT LOGIC: Alphabetical
+  // SORT LOGIC: Alphabetical, sub-slots listed beneath their parent
   const sortedContainers = useMemo(() => {
       if (!template?.containers) return [];
-      return [...template.containers].sort((a, b) => a.name.localeCompare(b.name));
+      return getSortedContainerTree(template);
   }, [template]);
 
   // Helper to check if a specific container handle is connected
@@ -65,14 +65,17 @@ export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
             <div className="flex flex-col space-y-1">
               {sortedContainers.map((container, index) => {
                 const theme = getSemanticThemeObject(container.name, index);
-                const isConnected = isHandleConnected(container.name);
+                const isConnected = isHandleConnected(container.id);
+                const depth = container.depth ?? 0;
                 
                 return (
                   <div 
                     key={container.id} 
                     className={`relative flex items-center justify-between p-2 rounded border border-slate-700/50 bg-slate-900/30 group hover:border-slate-600 transition-colors`}
+                    style={depth > 0 ? { marginLeft: depth * 12 } : undefined}
                   >
                     <div className="flex items-center space-x-2 overflow-hidden">
+                       {depth > 0 && <span className="text-[10px] text-slate-600 font-mono shrink-0">└</span>}
                        <div className={`w-2 h-2 rounded-full ${theme.dot} shrink-0`}></div>
                        <span className={`text-xs font-medium truncate ${theme.text}`} title={container.name}>
                          {container.name}
@@ -83,7 +86,7 @@ export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
                     <Handle
                       type="source"
                       position={Position.Right}
-                      id={container.name} // ID identifies the container output
+                      id={container.id} // ID identifies the container output (names repeat across nesting levels)
                       className={`!w-3 !h-3 !border-2 transition-colors duration-300 ${isConnected ? '!bg-emerald-500 !border-emerald-200' : '!bg-slate-600 !border-slate-400 group-hover:!border-white'}`}
                       style={{ right: -6, top: '50%', transform: 'translateY(-50%)' }} // Vertical centering
                     />
@@ -8,7 +8,7 @@ import { createContainerContext } from '../services/psdService';
  * from a connected TemplateSplitterNode.
  * 
  * It automatically finds the edge connected to the target node, identifies 
- * the source handle (which corresponds to the container name), and resolves 
+ * the source handle (which corresponds to the container id), and resolves 
  * the specific container context.
  * 
  * @param nodeId The ID of the node requesting the context (usually the current node).
@@ -33,7 +33,7 @@ export const useContainerContext = (nodeId: string): ContainerContext | null =>
     return null;
   }
 
-  // The TemplateSplitterNode uses the container name as the sourceHandle ID.
+  // The TemplateSplitterNode uses the container id as the sourceHandle ID.
   // We use this ID to look up the specific container context.
   return createContainerContext(sourceNode.data.template, edge.sourceHandle);
 };
\ No newline at end of file
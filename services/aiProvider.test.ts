@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SerializableLayer } from '../types';
+import {
+  AIJsonRequest, Type, createGeminiProvider, createMockProvider, createRecordingProvider, getAIRequestKey, getAIProvider, getRecordedAIFixtures,
+  parseAIFixtures, serializeAIFixtures, setAIProvider, toMessages
+} from './aiProvider';
+import { analyzeLayoutHeuristically } from './heuristicAnalyst';
+import { collectLayerIds, generateValidatedJson, validateLayoutStrategy } from './strategyValidator';
+import { remapLayers } from './remapEngine';
+
+const layer = (id: string, x: number, y: number, w: number, h: number): SerializableLayer => ({
+  id, name: id, type: 'layer', isVisible: true, opacity: 1, coords: { x, y, w, h }
+});
+
+const SOURCE = { x: 0, y: 0, w: 200, h: 100 };
+const TARGET = { x: 1000, y: 0, w: 400, h: 400 };
+const LAYERS = [layer('logo', 10, 10, 40, 20), layer('title', 60, 40, 120, 30)];
+
+const REQUEST: AIJsonRequest = {
+  tier: 'pro',
+  systemInstruction: 'Remap the banner into a square.',
+  contents: 'Analyze',
+  schema: {
+    type: Type.OBJECT,
+    properties: {
+      suggestedScale: { type: Type.NUMBER },
+      anchor: { type: Type.STRING, enum: ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] },
+      overrides: { type: Type.ARRAY, items: { type: Type.OBJECT } }
+    },
+    required: ['suggestedScale', 'anchor', 'overrides']
+  }
+};
+
+// The validator sends the contents as messages, so fixtures are keyed on that form
+const RECORDED_KEY = getAIRequestKey('json', { ...REQUEST, contents: toMessages(REQUEST.contents) });
+
+// What a model would answer: pin the logo to the top-left corner, back at its source size
+const MODEL_RESPONSE = JSON.stringify({
+  method: 'GEOMETRIC',
+  suggestedScale: 2,
+  anchor: 'CENTER',
+  reasoning: 'Logo to the corner.',
+  overrides: [{ layerId: 'logo', xOffset: 16, yOffset: 16, individualScale: 0.5 }]
+});
+
+// Analyst pipeline without the UI: baseline, model call, validation, remap
+const runAnalystPipeline = async (provider = getAIProvider()) => {
+  const baseline = analyzeLayoutHeuristically({ layers: LAYERS, sourceRect: SOURCE, targetRect: TARGET });
+  const { value: strategy, report } = await generateValidatedJson(
+    provider,
+    REQUEST,
+    raw => validateLayoutStrategy(raw, { layerIds: collectLayerIds(LAYERS), fallback: baseline })
+  );
+  const payload = remapLayers({
+    layers: LAYERS,
+    sourceRect: SOURCE,
+    targetRect: TARGET,
+    strategy,
+    sourceNodeId: 'load-1',
+    sourceContainer: 'BANNER',
+    targetContainer: 'SQUARE'
+  });
+  return { strategy, report, payload };
+};
+
+afterEach(() => {
+  setAIProvider(null);
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('mock provider pipeline', () => {
+  it('replays a recorded response through validation and the remap', async () => {
+    const { provider, fixtures } = createRecordingProvider(createMockProvider({ respond: kind => (kind === 'json' ? MODEL_RESPONSE : undefined) }));
+    await runAnalystPipeline(provider);
+    expect(Object.keys(fixtures)).toEqual([RECORDED_KEY]);
+
+    // Replay offline from the saved file
+    setAIProvider(createMockProvider({ fixtures: parseAIFixtures(serializeAIFixtures(fixtures)) }));
+    const { strategy, report, payload } = await runAnalystPipeline();
+    expect(report.issues.filter(i => i.severity === 'error')).toEqual([]);
+    expect(strategy.overrides).toEqual([{ layerId: 'logo', xOffset: 16, yOffset: 16, individualScale: 0.5 }]);
+    expect(payload.layers.find(l => l.id === 'logo')?.coords).toMatchObject({ x: 1016, y: 16, w: 40, h: 20 });
+  });
+
+  it('falls back to a schema-synthesized response without a fixture', async () => {
+    setAIProvider(createMockProvider());
+    const { strategy, payload } = await runAnalystPipeline();
+    expect(strategy.anchor).toBe('TOP'); // First enum entry
+    expect(payload.layers).toHaveLength(2);
+  });
+
+  it('loads fixtures from a URL on the first request', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ [RECORDED_KEY]: MODEL_RESPONSE })));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = createMockProvider({ fixturesUrl: '/ai-fixtures.json' });
+
+    const { strategy } = await runAnalystPipeline(provider);
+    await runAnalystPipeline(provider);
+    expect(strategy.overrides?.[0].layerId).toBe('logo');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fixture files', () => {
+  it('rejects files that are not a map of strings', () => {
+    expect(() => parseAIFixtures('[]')).toThrow(/Invalid AI fixture file/);
+    expect(() => parseAIFixtures('{"json-1": 2}')).toThrow(/Invalid AI fixture file/);
+  });
+
+  it('records the configured provider when AI_RECORD_FIXTURES is set', () => {
+    vi.stubEnv('AI_PROVIDER', 'openai');
+    vi.stubEnv('AI_RECORD_FIXTURES', 'true');
+    expect(getRecordedAIFixtures()).toEqual({});
+    expect(getAIProvider().id).toBe('openai');
+  });
+});
+
+describe('model tiers', () => {
+  it('keeps the Design Reviewer on its own Gemini model', () => {
+    const provider = createGeminiProvider();
+    expect(provider.getModel('review')).toBe('gemini-2.5-flash');
+    expect(provider.getModel('fast')).toBe('gemini-3-flash-preview');
+  });
+});
@@ -0,0 +1,475 @@
+import { GoogleGenAI, Type, Schema, GenerateContentConfig } from '@google/genai';
+
+/**
+ * AI Provider Layer.
+ * Every node talks to one provider interface (structured JSON, plain text, image generation) instead of
+ * constructing SDK clients. Adapters: Gemini, any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio...)
+ * and a deterministic mock/replay backend for offline demos and tests.
+ *
+ * Selection: `AI_PROVIDER` = 'gemini' | 'openai' | 'mock' (defaults to 'gemini'), or setAIProvider() at runtime.
+ * Fixtures: `AI_RECORD_FIXTURES=true` records every response of the configured provider (saved from the project
+ * controls as JSON); `AI_FIXTURES_URL` points the mock provider at such a file to replay it.
+ */
+
+// Response schemas keep the Gemini shape (Type.OBJECT, ...); adapters translate as needed
+export { Type };
+export type ResponseSchema = Schema;
+
+// 'fast' = low-latency text, 'pro' = strongest reasoning, 'image' = image generation,
+// 'review' = the Design Reviewer's chat edits (pinned to their own model; may differ from 'fast')
+export type AIModelTier = 'fast' | 'review' | 'pro' | 'image';
+
+export type AIPart = { text: string } | { inlineData: { mimeType: string, data: string } };
+
+export interface AIMessage {
+  role: 'user' | 'model';
+  parts: AIPart[];
+}
+
+export interface AITextRequest {
+  tier: Exclude<AIModelTier, 'image'>;
+  systemInstruction?: string;
+  contents: AIMessage[] | string;
+  thinkingBudget?: number; // Honoured by adapters that support reasoning budgets
+  signal?: AbortSignal; // Cancels the in-flight call (see services/requestRunner.ts)
+}
+
+export interface AIJsonRequest extends AITextRequest {
+  schema: ResponseSchema;
+}
+
+export interface AIImageRequest {
+  prompt: string;
+  aspectRatio?: string; // '1:1', '16:9', ... (adapters snap to the sizes they support)
+  reference?: string; // Base64 PNG (with or without data URL prefix) to restyle / extend
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  readonly id: 'gemini' | 'openai' | 'mock';
+  readonly isAvailable: boolean; // False when the adapter is missing its key / endpoint
+  getModel(tier: AIModelTier): string; // Model name a tier resolves to (part of analysis cache keys)
+  generateText(request: AITextRequest): Promise<string>;
+  // `text` is the raw response, kept for chat transcripts
+  generateJson<T = unknown>(request: AIJsonRequest): Promise<{ data: T, text: string }>;
+  // Resolves to a PNG data URL, or null when the model returned no image
+  generateImage(request: AIImageRequest): Promise<string | null>;
+}
+
+// --- SHARED HELPERS ---
+
+export const toMessages = (contents: AIMessage[] | string): AIMessage[] => {
+  return typeof contents === 'string' ? [{ role: 'user', parts: [{ text: contents }] }] : contents;
+};
+
+const stripDataUrl = (data: string): string => data.includes('base64,') ? data.split('base64,')[1] : data;
+
+const parseJson = <T>(text: string): T => {
+  // Some OpenAI-compatible servers wrap JSON in a markdown fence
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(fenced ? fenced[1] : text || '{}') as T;
+};
+
+// Unset tiers keep the adapter's default model
+const resolveModels = (defaults: Record<AIModelTier, string>, overrides: Partial<Record<AIModelTier, string>> = {}): Record<AIModelTier, string> => ({
+  fast: overrides.fast || defaults.fast,
+  review: overrides.review || defaults.review,
+  pro: overrides.pro || defaults.pro,
+  image: overrides.image || defaults.image,
+});
+
+// djb2, base36 (same scheme as the layer identity fingerprints)
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// --- GEMINI ---
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  models?: Partial<Record<AIModelTier, string>>;
+}
+
+const GEMINI_MODELS: Record<AIModelTier, string> = {
+  fast: 'gemini-3-flash-preview',
+  review: 'gemini-2.5-flash',
+  pro: 'gemini-3-pro-preview',
+  image: 'gemini-2.5-flash-image',
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): AIProvider => {
+  const models = resolveModels(GEMINI_MODELS, options.models);
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!options.apiKey) throw new Error("API_KEY missing");
+    if (!client) client = new GoogleGenAI({ apiKey: options.apiKey });
+    return client;
+  };
+
+  const generate = async (request: AITextRequest, schema?: ResponseSchema): Promise<string> => {
+    const config: GenerateContentConfig = { systemInstruction: request.systemInstruction, abortSignal: request.signal };
+    if (schema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = schema;
+    }
+    if (request.thinkingBudget) {
+      config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    }
+    const response = await getClient().models.generateContent({
+      model: models[request.tier],
+      contents: toMessages(request.contents),
+      config
+    });
+    return response.text || '';
+  };
+
+  return {
+    id: 'gemini',
+    isAvailable: !!options.apiKey,
+    getModel: (tier) => models[tier],
+    generateText: (request) => generate(request),
+    generateJson: async (request) => {
+      const text = await generate(request, request.schema);
+      return { data: parseJson(text), text };
+    },
+    generateImage: async ({ prompt, aspectRatio, reference, signal }) => {
+      const parts: AIPart[] = [];
+      if (reference) parts.push({ inlineData: { mimeType: 'image/png', data: stripDataUrl(reference) } });
+      parts.push({ text: prompt });
+
+      const response = await getClient().models.generateContent({
+        model: models.image,
+        contents: { parts },
+        config: { imageConfig: { aspectRatio: aspectRatio || '1:1' }, abortSignal: signal }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) return `data:image/png;base64,${part.inlineData.data}`;
+      }
+      return null;
+    }
+  };
+};
+
+// --- OPENAI-COMPATIBLE ---
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl?: string; // e.g. 'http://localhost:8000/v1'
+  apiKey?: string; // Optional for self-hosted endpoints
+  models?: Partial<Record<AIModelTier, string>>;
+}
+
+const OPENAI_MODELS: Record<AIModelTier, string> = {
+  fast: 'gpt-4o-mini',
+  review: 'gpt-4o-mini',
+  pro: 'gpt-4o',
+  image: 'gpt-image-1',
+};
+
+const OPENAI_IMAGE_SIZES: { size: string, ratio: number }[] = [
+  { size: '1024x1024', ratio: 1 },
+  { size: '1536x1024', ratio: 1.5 },
+  { size: '1024x1536', ratio: 2 / 3 },
+];
+
+const SCHEMA_TYPE_NAMES: Record<string, string> = {
+  [Type.OBJECT]: 'object',
+  [Type.ARRAY]: 'array',
+  [Type.STRING]: 'string',
+  [Type.NUMBER]: 'number',
+  [Type.INTEGER]: 'integer',
+  [Type.BOOLEAN]: 'boolean',
+};
+
+/**
+ * Translates a Gemini response schema into JSON Schema (lower-case types, nested properties/items).
+ */
+export const toJsonSchema = (schema: ResponseSchema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = SCHEMA_TYPE_NAMES[schema.type] || String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  return result;
+};
+
+const toOpenAIMessages = (request: AITextRequest) => {
+  const messages: any[] = [];
+  if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+  toMessages(request.contents).forEach(message => {
+    messages.push({
+      role: message.role === 'model' ? 'assistant' : 'user',
+      content: message.parts.map(part => 'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } })
+    });
+  });
+  return messages;
+};
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleProviderOptions = {}): AIProvider => {
+  const baseUrl = (options.baseUrl || '').replace(/\/+$/, '');
+  const models = resolveModels(OPENAI_MODELS, options.models);
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<any> => {
+    if (!baseUrl) throw new Error("OPENAI_BASE_URL missing");
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      // status / retryAfterMs drive the request runner's retry decision
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw Object.assign(new Error(`AI endpoint ${path} failed: ${response.status} ${await response.text()}`), {
+        status: response.status,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+      });
+    }
+    return response.json();
+  };
+
+  const complete = async (request: AITextRequest, schema?: ResponseSchema): Promise<string> => {
+    const json = await post('/chat/completions', {
+      model: models[request.tier],
+      messages: toOpenAIMessages(request),
+      ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } } } : {})
+    }, request.signal);
+    return json.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    id: 'openai',
+    isAvailable: !!baseUrl,
+    getModel: (tier) => models[tier],
+    generateText: (request) => complete(request),
+    generateJson: async (request) => {
+      const text = await complete(request, request.schema);
+      return { data: parseJson(text), text };
+    },
+    generateImage: async ({ prompt, aspectRatio, reference, signal }) => {
+      if (reference) console.warn("[AI] OpenAI-compatible image generation ignores the reference image.");
+      const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+      const ratio = w && h ? w / h : 1;
+      const size = OPENAI_IMAGE_SIZES.reduce((best, s) => Math.abs(s.ratio - ratio) < Math.abs(best.ratio - ratio) ? s : best).size;
+
+      const json = await post('/images/generations', { model: models.image, prompt, size, n: 1, response_format: 'b64_json' }, signal);
+      const data = json.data?.[0]?.b64_json;
+      return data ? `data:image/png;base64,${data}` : null;
+    }
+  };
+};
+
+// --- MOCK / REPLAY ---
+
+// 1x1 grey PNG, used where no canvas is available (tests)
+const PLACEHOLDER_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mN4/v//fwAJYwPgMCmrcgAAAABJRU5ErkJggg==';
+
+// Recorded responses keyed by getAIRequestKey (JSON/text: the raw response text, image: a data URL)
+export type AIFixtures = Record<string, string>;
+
+export interface MockProviderOptions {
+  fixtures?: AIFixtures;
+  // Fixture file to fetch on the first request (merged under `fixtures`), e.g. AI_FIXTURES_URL
+  fixturesUrl?: string;
+  // Custom responder; return undefined to fall through to fixtures / synthesis
+  respond?: (kind: 'text' | 'json' | 'image', request: AITextRequest | AIImageRequest) => string | undefined;
+}
+
+/**
+ * Stable key for a request: the same prompt, images and schema always map to the same fixture.
+ */
+export const getAIRequestKey = (kind: 'text' | 'json' | 'image', request: AITextRequest | AIJsonRequest | AIImageRequest): string => {
+  const { signal: _signal, ...content } = request;
+  return `${kind}-${hashString(JSON.stringify(content))}`;
+};
+
+/**
+ * Builds the smallest value satisfying a schema: first enum entry, zero, false, empty string / array.
+ * Objects fill only their `required` properties when they declare any.
+ */
+export const synthesizeFromSchema = (schema: ResponseSchema): unknown => {
+  if (schema.enum?.length) return schema.enum[0];
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const properties = schema.properties || {};
+      const keys = schema.required?.length ? schema.required : Object.keys(properties);
+      return Object.fromEntries(keys.filter(key => properties[key]).map(key => [key, synthesizeFromSchema(properties[key])]));
+    }
+    case Type.ARRAY: return [];
+    case Type.NUMBER:
+    case Type.INTEGER: return 0;
+    case Type.BOOLEAN: return false;
+    default: return '';
+  }
+};
+
+const renderPlaceholderImage = (prompt: string, aspectRatio?: string): string => {
+  if (typeof document === 'undefined') return PLACEHOLDER_PNG;
+  const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = Math.round(256 * ((h || 1) / (w || 1)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return PLACEHOLDER_PNG;
+
+  const hue = parseInt(hashString(prompt), 36) % 360;
+  ctx.fillStyle = `hsl(${hue}, 45%, 35%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = 'rgba(255,255,255,0.85)';
+  ctx.font = '12px monospace';
+  ctx.fillText('MOCK', 8, 18);
+  ctx.fillText(prompt.slice(0, 32), 8, 34);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Parses a fixture file written by serializeAIFixtures. Throws when it is not a key -> string map.
+ */
+export const parseAIFixtures = (json: string): AIFixtures => {
+  const raw: unknown = JSON.parse(json);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw) || Object.values(raw).some(v => typeof v !== 'string')) {
+    throw new Error("Invalid AI fixture file: expected an object of request keys to response strings");
+  }
+  return raw as AIFixtures;
+};
+
+// Sorted keys keep re-recorded fixture files diffable
+export const serializeAIFixtures = (fixtures: AIFixtures): string => {
+  return JSON.stringify(Object.fromEntries(Object.keys(fixtures).sort().map(key => [key, fixtures[key]])), null, 2);
+};
+
+export const loadAIFixtures = async (url: string): Promise<AIFixtures> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`AI fixtures ${url} failed to load: ${response.status}`);
+  return parseAIFixtures(await response.text());
+};
+
+export const createMockProvider = (options: MockProviderOptions = {}): AIProvider => {
+  let fixtures: Promise<AIFixtures> | null = null;
+  const getFixtures = (): Promise<AIFixtures> => {
+    fixtures ??= options.fixturesUrl
+      ? loadAIFixtures(options.fixturesUrl)
+        .then(loaded => ({ ...loaded, ...options.fixtures }))
+        .catch(e => {
+          // Replay degrades to synthesized responses instead of failing every request
+          console.warn("[AI] Mock fixtures could not be loaded", e);
+          return options.fixtures || {};
+        })
+      : Promise.resolve(options.fixtures || {});
+    return fixtures;
+  };
+
+  const lookup = async (kind: 'text' | 'json' | 'image', request: AITextRequest | AIImageRequest): Promise<string | undefined> => {
+    request.signal?.throwIfAborted();
+    return options.respond?.(kind, request) ?? (await getFixtures())[getAIRequestKey(kind, request)];
+  };
+
+  return {
+    id: 'mock',
+    isAvailable: true,
+    getModel: (tier) => `mock-${tier}`,
+    generateText: async (request) => (await lookup('text', request)) ?? '[mock] No fixture recorded for this request.',
+    generateJson: async (request) => {
+      const text = (await lookup('json', request)) ?? JSON.stringify(synthesizeFromSchema(request.schema));
+      return { data: parseJson(text), text };
+    },
+    generateImage: async (request) => (await lookup('image', request)) ?? renderPlaceholderImage(request.prompt, request.aspectRatio)
+  };
+};
+
+/**
+ * Wraps a provider and captures every response as a fixture for createMockProvider (record once, replay offline).
+ */
+export const createRecordingProvider = (inner: AIProvider): { provider: AIProvider, fixtures: AIFixtures } => {
+  const fixtures: AIFixtures = {};
+  const provider: AIProvider = {
+    id: inner.id,
+    isAvailable: inner.isAvailable,
+    getModel: (tier) => inner.getModel(tier),
+    generateText: async (request) => {
+      const text = await inner.generateText(request);
+      fixtures[getAIRequestKey('text', request)] = text;
+      return text;
+    },
+    generateJson: async <T>(request: AIJsonRequest) => {
+      const result = await inner.generateJson<T>(request);
+      fixtures[getAIRequestKey('json', request)] = result.text;
+      return result;
+    },
+    generateImage: async (request) => {
+      const url = await inner.generateImage(request);
+      if (url) fixtures[getAIRequestKey('image', request)] = url;
+      return url;
+    }
+  };
+  return { provider, fixtures };
+};
+
+// --- ACTIVE PROVIDER ---
+
+const createEnvironmentProvider = (): AIProvider => {
+  switch (process.env.AI_PROVIDER) {
+    case 'mock':
+      return createMockProvider({ fixturesUrl: process.env.AI_FIXTURES_URL });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        models: {
+          fast: process.env.OPENAI_MODEL,
+          review: process.env.OPENAI_MODEL,
+          pro: process.env.OPENAI_MODEL,
+          image: process.env.OPENAI_IMAGE_MODEL
+        }
+      });
+    default:
+      return createGeminiProvider({ apiKey: process.env.API_KEY });
+  }
+};
+
+// Responses captured since startup when AI_RECORD_FIXTURES is set
+let recordedFixtures: AIFixtures | null = null;
+
+const createConfiguredProvider = (): AIProvider => {
+  const provider = createEnvironmentProvider();
+  if (process.env.AI_RECORD_FIXTURES !== 'true' || provider.id === 'mock') return provider;
+  const recording = createRecordingProvider(provider);
+  recordedFixtures = recording.fixtures;
+  return recording.provider;
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createConfiguredProvider();
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider (tests, offline demos). Pass null to return to the environment configuration.
+ */
+export const setAIProvider = (provider: AIProvider | null): void => {
+  activeProvider = provider;
+  recordedFixtures = null;
+};
+
+/**
+ * Fixtures recorded by the configured provider (AI_RECORD_FIXTURES), or null when recording is off.
+ */
+export const getRecordedAIFixtures = (): AIFixtures | null => {
+  getAIProvider();
+  return recordedFixtures;
+};
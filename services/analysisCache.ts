@@ -0,0 +1,138 @@
+import { ChatMessage } from '../types';
+
+/**
+ * Analysis Cache.
+ * Content-addressed store for AI analysis results (Analyst strategies, Reviewer adjustments) in IndexedDB.
+ * The key is a SHA-256 over everything that shapes the request: source layer tree, container pixels, target
+ * geometry, effective knowledge, chat history and model. Unchanged inputs return the stored result instead
+ * of a new (paid, non-deterministic) model call.
+ *
+ * The cache is best-effort: storage or hashing failures read as a miss and never fail an analysis.
+ */
+
+const DB_NAME = 'psd-procedural-cache';
+const DB_VERSION = 1;
+const STORE = 'analysis';
+const MAX_ENTRIES = 200; // Oldest entries are evicted beyond this (strategies can embed source pixels)
+
+// Bump when prompts or response shapes change so stale results stop matching
+const CACHE_VERSION = 1;
+
+export type AnalysisCacheKind = 'analyst' | 'reviewer';
+
+export interface AnalysisCacheInputs {
+  kind: AnalysisCacheKind;
+  provider: string; // AIProvider id
+  model: string; // Model selection (Analyst model key, Reviewer tier)
+  modelName: string; // Provider model the selection resolves to (AIProvider.getModel)
+  layers: unknown; // Source layer tree as sent to the model
+  pixels?: string | null; // Base64 container render
+  target?: unknown; // Target bounds, safe area, constraints
+  rules?: string | null; // Effective knowledge rules (null when muted / unlinked)
+  anchors?: string[]; // Visual anchor image data
+  history: ChatMessage[];
+  prompt?: string; // Extra request text not carried by the history (Reviewer user message)
+}
+
+export interface CachedAnalysis<T> {
+  key: string;
+  kind: AnalysisCacheKind;
+  value: T;
+  createdAt: number;
+}
+
+// JSON with sorted object keys: equal content always serializes identically
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(v => stableStringify(v ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Content hash of the analysis inputs, or null when hashing is unavailable (non-secure contexts).
+ * Chat messages contribute role and parts only; ids and timestamps differ on every run.
+ */
+export const getAnalysisCacheKey = async (inputs: AnalysisCacheInputs): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const payload = stableStringify({
+    ...inputs,
+    version: CACHE_VERSION,
+    history: inputs.history.map(msg => ({ role: msg.role, parts: msg.parts }))
+  });
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+    const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    return `${inputs.kind}-${hex}`;
+  } catch (e) {
+    console.warn("[Cache] Hashing failed, analysis will not be cached", e);
+    return null;
+  }
+};
+
+// --- INDEXEDDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new Error("IndexedDB is not available"));
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open is retried on the next access
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const readCachedAnalysis = async <T>(key: string): Promise<CachedAnalysis<T> | null> => {
+  try {
+    const db = await openDb();
+    const entry = await runRequest<CachedAnalysis<T> | undefined>(db.transaction(STORE, 'readonly').objectStore(STORE).get(key));
+    return entry ?? null;
+  } catch (e) {
+    console.warn("[Cache] Read failed", e);
+    return null;
+  }
+};
+
+export const writeCachedAnalysis = async <T>(key: string, kind: AnalysisCacheKind, value: T): Promise<void> => {
+  try {
+    const db = await openDb();
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const entry: CachedAnalysis<T> = { key, kind, value, createdAt: Date.now() };
+    await runRequest(store.put(entry));
+
+    const count = await runRequest(store.count());
+    if (count > MAX_ENTRIES) {
+      let excess = count - MAX_ENTRIES;
+      const cursorRequest = store.index('createdAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+  } catch (e) {
+    console.warn("[Cache] Write failed", e);
+  }
+};
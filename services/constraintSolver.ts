@@ -0,0 +1,415 @@
+import { LayoutConstraint, LayoutAttribute, ConstraintStrength } from '../types';
+
+/**
+ * Constraint Layout Service.
+ * A compact Cassowary (incremental dual simplex) solver for linear layout constraints, plus the
+ * mapping from declarative `LayoutConstraint`s onto per-layer box variables.
+ *
+ * 'required' constraints are solved at a dominating (but finite) strength: a conflicting strategy
+ * degrades gracefully and is reported instead of aborting the whole layout.
+ */
+
+// --- STRENGTHS ---
+
+export const STRENGTH_WEIGHTS: Record<ConstraintStrength, number> = {
+  required: 1e9,
+  strong: 1e6,
+  medium: 1e3,
+  weak: 1,
+};
+
+// LayerOverride pins outrank even 'required' strategy constraints
+const PIN_WEIGHT = STRENGTH_WEIGHTS.required * 10;
+
+const EPSILON = 1e-8;
+const nearZero = (value: number) => Math.abs(value) < EPSILON;
+
+// --- CORE SOLVER ---
+
+export class Variable {
+  constructor(public readonly name: string) {}
+}
+
+type SymbolKind = 'external' | 'slack' | 'error';
+
+class SolverSymbol {
+  constructor(public readonly kind: SymbolKind) {}
+}
+
+/**
+ * Linear expression: sum(coefficient * variable) + constant.
+ */
+export class Expression {
+  readonly terms = new Map<Variable, number>();
+
+  constructor(public constant: number = 0) {}
+
+  static of(variable: Variable, coefficient: number = 1): Expression {
+    return new Expression().add(variable, coefficient);
+  }
+
+  add(variable: Variable, coefficient: number = 1): Expression {
+    this.terms.set(variable, (this.terms.get(variable) ?? 0) + coefficient);
+    return this;
+  }
+
+  plus(other: Expression, factor: number = 1): Expression {
+    const result = this.clone();
+    other.terms.forEach((coefficient, variable) => result.add(variable, coefficient * factor));
+    result.constant += other.constant * factor;
+    return result;
+  }
+
+  clone(): Expression {
+    const copy = new Expression(this.constant);
+    this.terms.forEach((coefficient, variable) => copy.terms.set(variable, coefficient));
+    return copy;
+  }
+
+  evaluate(valueOf: (variable: Variable) => number): number {
+    let total = this.constant;
+    this.terms.forEach((coefficient, variable) => { total += coefficient * valueOf(variable); });
+    return total;
+  }
+}
+
+export type Relation = 'eq' | 'le' | 'ge';
+
+/**
+ * `expression <relation> 0`, weighted by `strength`.
+ */
+export interface LinearConstraint {
+  expression: Expression;
+  relation: Relation;
+  strength: number;
+}
+
+class Row {
+  readonly cells = new Map<SolverSymbol, number>();
+
+  constructor(public constant: number = 0) {}
+
+  copy(): Row {
+    const row = new Row(this.constant);
+    this.cells.forEach((coefficient, symbol) => row.cells.set(symbol, coefficient));
+    return row;
+  }
+
+  coefficientFor(symbol: SolverSymbol): number {
+    return this.cells.get(symbol) ?? 0;
+  }
+
+  insertSymbol(symbol: SolverSymbol, coefficient: number = 1) {
+    const value = this.coefficientFor(symbol) + coefficient;
+    if (nearZero(value)) this.cells.delete(symbol);
+    else this.cells.set(symbol, value);
+  }
+
+  insertRow(other: Row, coefficient: number = 1) {
+    this.constant += other.constant * coefficient;
+    other.cells.forEach((value, symbol) => this.insertSymbol(symbol, value * coefficient));
+  }
+
+  reverseSign() {
+    this.constant = -this.constant;
+    this.cells.forEach((value, symbol) => this.cells.set(symbol, -value));
+  }
+
+  // Solves the row for `symbol`, which leaves the row (row = symbol's definition)
+  solveFor(symbol: SolverSymbol) {
+    const coefficient = -1 / this.coefficientFor(symbol);
+    this.cells.delete(symbol);
+    this.constant *= coefficient;
+    this.cells.forEach((value, key) => this.cells.set(key, value * coefficient));
+  }
+
+  solveForPair(lhs: SolverSymbol, rhs: SolverSymbol) {
+    this.insertSymbol(lhs, -1);
+    this.solveFor(rhs);
+  }
+
+  substitute(symbol: SolverSymbol, row: Row) {
+    const coefficient = this.cells.get(symbol);
+    if (coefficient === undefined) return;
+    this.cells.delete(symbol);
+    this.insertRow(row, coefficient);
+  }
+}
+
+export class ConstraintSolver {
+  private readonly rows = new Map<SolverSymbol, Row>();
+  private readonly symbols = new Map<Variable, SolverSymbol>();
+  private readonly objective = new Row();
+
+  /**
+   * Adds a constraint. Strengths are always finite, so every constraint is satisfiable:
+   * conflicts are resolved by minimising the weighted error.
+   */
+  addConstraint(constraint: LinearConstraint) {
+    const row = this.createRow(constraint);
+    const subject = this.chooseSubject(row);
+    if (!subject) {
+      // Cannot happen with error variables present; guard against degenerate (all-zero) rows
+      return;
+    }
+    row.solveFor(subject);
+    this.substitute(subject, row);
+    this.rows.set(subject, row);
+    this.optimize();
+  }
+
+  valueOf(variable: Variable): number {
+    const symbol = this.symbols.get(variable);
+    if (!symbol) return 0;
+    return this.rows.get(symbol)?.constant ?? 0;
+  }
+
+  private symbolFor(variable: Variable): SolverSymbol {
+    let symbol = this.symbols.get(variable);
+    if (!symbol) {
+      symbol = new SolverSymbol('external');
+      this.symbols.set(variable, symbol);
+    }
+    return symbol;
+  }
+
+  private createRow({ expression, relation, strength }: LinearConstraint): Row {
+    const row = new Row(expression.constant);
+
+    expression.terms.forEach((coefficient, variable) => {
+      if (nearZero(coefficient)) return;
+      const symbol = this.symbolFor(variable);
+      const basic = this.rows.get(symbol);
+      if (basic) row.insertRow(basic, coefficient);
+      else row.insertSymbol(symbol, coefficient);
+    });
+
+    if (relation === 'eq') {
+      const errorPlus = new SolverSymbol('error');
+      const errorMinus = new SolverSymbol('error');
+      row.insertSymbol(errorPlus, -1);
+      row.insertSymbol(errorMinus, 1);
+      this.objective.insertSymbol(errorPlus, strength);
+      this.objective.insertSymbol(errorMinus, strength);
+    } else {
+      // expr <= 0  ->  expr + slack = 0 (slack >= 0); the error variable lets the constraint give way
+      const coefficient = relation === 'le' ? 1 : -1;
+      const slack = new SolverSymbol('slack');
+      const error = new SolverSymbol('error');
+      row.insertSymbol(slack, coefficient);
+      row.insertSymbol(error, -coefficient);
+      this.objective.insertSymbol(error, strength);
+    }
+
+    if (row.constant < 0) row.reverseSign();
+    return row;
+  }
+
+  private chooseSubject(row: Row): SolverSymbol | null {
+    for (const [symbol] of row.cells) {
+      if (symbol.kind === 'external') return symbol;
+    }
+    for (const [symbol, coefficient] of row.cells) {
+      if (coefficient < 0) return symbol;
+    }
+    return null;
+  }
+
+  private substitute(symbol: SolverSymbol, row: Row) {
+    this.rows.forEach(other => other.substitute(symbol, row));
+    this.objective.substitute(symbol, row);
+  }
+
+  // Primal simplex on the objective row
+  private optimize() {
+    for (let guard = 0; guard < 10000; guard++) {
+      let entering: SolverSymbol | null = null;
+      for (const [symbol, coefficient] of this.objective.cells) {
+        if (coefficient < 0) { entering = symbol; break; }
+      }
+      if (!entering) return;
+
+      let ratio = Infinity;
+      let leavingSymbol: SolverSymbol | null = null;
+      let leavingRow: Row | null = null;
+      this.rows.forEach((row, symbol) => {
+        if (symbol.kind === 'external') return;
+        const coefficient = row.coefficientFor(entering!);
+        if (coefficient < 0) {
+          const candidate = -row.constant / coefficient;
+          if (candidate < ratio) {
+            ratio = candidate;
+            leavingSymbol = symbol;
+            leavingRow = row;
+          }
+        }
+      });
+      // Objective is bounded below (all errors carry positive weight), so this only guards bad input
+      if (!leavingSymbol || !leavingRow) return;
+
+      this.rows.delete(leavingSymbol);
+      (leavingRow as Row).solveForPair(leavingSymbol, entering);
+      this.substitute(entering, leavingRow);
+      this.rows.set(entering, leavingRow);
+    }
+    console.warn('[ConstraintSolver] Optimization did not converge');
+  }
+}
+
+// --- LAYOUT MAPPING ---
+
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface LayoutItem {
+  id: string;
+  name: string;
+  preferred: Box; // Result of the geometric passes; held at 'weak'
+  aspect?: number; // Source width / height, used by 'aspectRatio' constraints
+  pinned?: boolean; // LayerOverride: the preferred box is held at 'required'
+}
+
+export interface ConstraintConflict {
+  constraint: LayoutConstraint;
+  residual: number; // px by which the solved layout misses the constraint
+}
+
+export interface LayoutSolution {
+  boxes: Map<string, Box>;
+  conflicts: ConstraintConflict[];
+}
+
+export const TARGET_REFERENCE = 'TARGET';
+
+const HORIZONTAL_ATTRIBUTES: LayoutAttribute[] = ['left', 'right', 'centerX', 'width'];
+
+interface BoxVariables {
+  left: Variable;
+  top: Variable;
+  width: Variable;
+  height: Variable;
+}
+
+const attributeExpression = (vars: BoxVariables, attribute: LayoutAttribute): Expression => {
+  switch (attribute) {
+    case 'left': return Expression.of(vars.left);
+    case 'top': return Expression.of(vars.top);
+    case 'width': return Expression.of(vars.width);
+    case 'height': return Expression.of(vars.height);
+    case 'right': return Expression.of(vars.left).add(vars.width);
+    case 'bottom': return Expression.of(vars.top).add(vars.height);
+    case 'centerX': return Expression.of(vars.left).add(vars.width, 0.5);
+    case 'centerY': return Expression.of(vars.top).add(vars.height, 0.5);
+  }
+};
+
+const frameAttribute = (frame: Box, attribute: LayoutAttribute): number => {
+  switch (attribute) {
+    case 'left': return frame.x;
+    case 'top': return frame.y;
+    case 'width': return frame.w;
+    case 'height': return frame.h;
+    case 'right': return frame.x + frame.w;
+    case 'bottom': return frame.y + frame.h;
+    case 'centerX': return frame.x + frame.w / 2;
+    case 'centerY': return frame.y + frame.h / 2;
+  }
+};
+
+/**
+ * Solves a set of layout items inside `frame`.
+ * Strength order: pinned boxes (overrides) > declared constraints > preferred boxes (weak).
+ * `frame` is the TARGET reference and the base for '%' constants (width for x attributes, height for y).
+ */
+export const solveLayoutConstraints = (frame: Box, items: LayoutItem[], constraints: LayoutConstraint[]): LayoutSolution => {
+  const solver = new ConstraintSolver();
+  const variables = new Map<string, BoxVariables>();
+
+  items.forEach(item => {
+    const vars: BoxVariables = {
+      left: new Variable(`${item.id}.left`),
+      top: new Variable(`${item.id}.top`),
+      width: new Variable(`${item.id}.width`),
+      height: new Variable(`${item.id}.height`),
+    };
+    variables.set(item.id, vars);
+
+    const strength = item.pinned ? PIN_WEIGHT : STRENGTH_WEIGHTS.weak;
+    const hold = (variable: Variable, value: number) => solver.addConstraint({ expression: Expression.of(variable).plus(new Expression(-value)), relation: 'eq', strength });
+    hold(vars.left, item.preferred.x);
+    hold(vars.top, item.preferred.y);
+    hold(vars.width, item.preferred.w);
+    hold(vars.height, item.preferred.h);
+
+    // Boxes never invert
+    solver.addConstraint({ expression: Expression.of(vars.width, -1), relation: 'le', strength: STRENGTH_WEIGHTS.required });
+    solver.addConstraint({ expression: Expression.of(vars.height, -1), relation: 'le', strength: STRENGTH_WEIGHTS.required });
+  });
+
+  // lhs - rhs, or null when the constraint references an unknown layer
+  const buildExpression = (constraint: LayoutConstraint): Expression | null => {
+    const vars = variables.get(constraint.layerId);
+    if (!vars) return null;
+
+    if (constraint.attribute === 'aspectRatio') {
+      const item = items.find(i => i.id === constraint.layerId)!;
+      const aspect = constraint.multiplier ?? item.aspect ?? (item.preferred.w / Math.max(1, item.preferred.h));
+      return Expression.of(vars.width).add(vars.height, -aspect);
+    }
+
+    const toAttribute = constraint.toAttribute ?? constraint.attribute;
+    const toLayerId = constraint.toLayerId ?? TARGET_REFERENCE;
+    const multiplier = constraint.multiplier ?? 1;
+    const axisSize = HORIZONTAL_ATTRIBUTES.includes(constraint.attribute) ? frame.w : frame.h;
+    const constant = constraint.unit === '%' ? (constraint.constant ?? 0) / 100 * axisSize : (constraint.constant ?? 0);
+
+    let rhs: Expression;
+    if (toLayerId === TARGET_REFERENCE) {
+      rhs = new Expression(frameAttribute(frame, toAttribute) * multiplier + constant);
+    } else {
+      const toVars = variables.get(toLayerId);
+      if (!toVars) return null;
+      const reference = attributeExpression(toVars, toAttribute);
+      rhs = new Expression(constant).plus(reference, multiplier);
+    }
+
+    return attributeExpression(vars, constraint.attribute).plus(rhs, -1);
+  };
+
+  const applied: { constraint: LayoutConstraint, expression: Expression }[] = [];
+  constraints.forEach(constraint => {
+    const expression = buildExpression(constraint);
+    if (!expression) {
+      console.warn(`[ConstraintSolver] Skipping constraint on unknown layer '${constraint.layerId}' -> '${constraint.toLayerId}'`);
+      return;
+    }
+    solver.addConstraint({ expression, relation: constraint.relation, strength: STRENGTH_WEIGHTS[constraint.strength || 'strong'] });
+    applied.push({ constraint, expression });
+  });
+
+  const boxes = new Map<string, Box>();
+  variables.forEach((vars, id) => {
+    boxes.set(id, {
+      x: solver.valueOf(vars.left),
+      y: solver.valueOf(vars.top),
+      w: Math.max(0, solver.valueOf(vars.width)),
+      h: Math.max(0, solver.valueOf(vars.height)),
+    });
+  });
+
+  // Required/strong constraints the solution could not honour (weaker ones are expected to give way)
+  const conflicts: ConstraintConflict[] = [];
+  applied.forEach(({ constraint, expression }) => {
+    const strength = constraint.strength || 'strong';
+    if (strength !== 'required' && strength !== 'strong') return;
+    const value = expression.evaluate(variable => solver.valueOf(variable));
+    const residual = constraint.relation === 'eq' ? Math.abs(value) : constraint.relation === 'le' ? Math.max(0, value) : Math.max(0, -value);
+    if (residual > 0.5) conflicts.push({ constraint, residual });
+  });
+
+  return { boxes, conflicts };
+};
@@ -0,0 +1,186 @@
+import { Psd, Layer, BlendMode, LayerMaskData } from 'ag-psd';
+
+/**
+ * Compositor Fixtures.
+ * Small documents that each exercise one part of Photoshop's stacking model (blend modes, clipping,
+ * masks, pass-through vs. isolated groups). Every layer is a solid-colour rect, so the document's
+ * composite image (psd.canvas, what Photoshop stores for "Maximize Compatibility") is painted here
+ * per pixel with the blend formulas, independently of the canvas compositor under test.
+ */
+
+type RGB = [number, number, number];
+type Box = { x: number, y: number, w: number, h: number };
+type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+export interface CompositorFixture {
+  name: string;
+  psd: Psd;
+}
+
+const SIZE = 16;
+
+// Separable blend modes on 0-255 channels (backdrop, source)
+const BLEND_FUNCTIONS: Partial<Record<BlendMode, (cb: number, cs: number) => number>> = {
+  'normal': (_, cs) => cs,
+  'multiply': (cb, cs) => (cb * cs) / 255,
+  'screen': (cb, cs) => cb + cs - (cb * cs) / 255,
+  'darken': Math.min,
+  'lighten': Math.max,
+};
+
+/**
+ * Reference painter for an opaque document: result = (1 - a) * backdrop + a * blend(backdrop, source).
+ */
+class ReferenceComposite {
+  readonly pixels: RGB[] = Array.from({ length: SIZE * SIZE }, () => [0, 0, 0] as RGB);
+
+  paint(box: Box, color: RGB, blendMode: BlendMode = 'normal', alphaAt: (x: number, y: number) => number = () => 1) {
+    const blend = BLEND_FUNCTIONS[blendMode]!;
+    for (let y = box.y; y < box.y + box.h; y++) {
+      for (let x = box.x; x < box.x + box.w; x++) {
+        const alpha = alphaAt(x, y);
+        const backdrop = this.pixels[y * SIZE + x];
+        this.pixels[y * SIZE + x] = backdrop.map((cb, c) => (1 - alpha) * cb + alpha * blend(cb, color[c])) as RGB;
+      }
+    }
+  }
+
+  toCanvas(createCanvas: CanvasFactory): HTMLCanvasElement {
+    const canvas = createCanvas(SIZE, SIZE);
+    const ctx = canvas.getContext('2d')!;
+    const imageData = ctx.createImageData(SIZE, SIZE);
+    this.pixels.forEach((pixel, i) => {
+      imageData.data.set([...pixel.map(Math.round), 255], i * 4);
+    });
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+}
+
+const FULL: Box = { x: 0, y: 0, w: SIZE, h: SIZE };
+const inBox = (box: Box, x: number, y: number) => x >= box.x && x < box.x + box.w && y >= box.y && y < box.y + box.h;
+
+const fillCanvas = (createCanvas: CanvasFactory, w: number, h: number, fills: { box: Box, css: string }[]) => {
+  const canvas = createCanvas(w, h);
+  const ctx = canvas.getContext('2d')!;
+  fills.forEach(({ box, css }) => {
+    ctx.fillStyle = css;
+    ctx.fillRect(box.x, box.y, box.w, box.h);
+  });
+  return canvas;
+};
+
+const rgb = (color: RGB) => `rgb(${color.join(', ')})`;
+
+export const buildCompositorFixtures = (createCanvas: CanvasFactory): CompositorFixture[] => {
+  const solid = (name: string, box: Box, color: RGB, extra: Partial<Layer> = {}): Layer => ({
+    name,
+    left: box.x,
+    top: box.y,
+    right: box.x + box.w,
+    bottom: box.y + box.h,
+    canvas: fillCanvas(createCanvas, box.w, box.h, [{ box: { x: 0, y: 0, w: box.w, h: box.h }, css: rgb(color) }]),
+    ...extra,
+  });
+
+  // Grayscale layer mask: `fills` are relative to the mask rect, outside it `defaultColor` applies
+  const mask = (box: Box, defaultColor: number, fills: { box: Box, value: number }[]): LayerMaskData => ({
+    left: box.x,
+    top: box.y,
+    right: box.x + box.w,
+    bottom: box.y + box.h,
+    defaultColor,
+    canvas: fillCanvas(createCanvas, box.w, box.h, fills.map(f => ({ box: f.box, css: rgb([f.value, f.value, f.value]) }))),
+  });
+
+  const createDocument = (name: string, children: Layer[], reference: ReferenceComposite): CompositorFixture => ({
+    name,
+    psd: { width: SIZE, height: SIZE, channels: 3, bitsPerChannel: 8, colorMode: 3, children, canvas: reference.toCanvas(createCanvas) },
+  });
+
+  const fixtures: CompositorFixture[] = [];
+
+  // --- BLEND MODES ---
+  {
+    const bg: RGB = [200, 100, 50];
+    const quadrants: { name: string, box: Box, color: RGB, blendMode: BlendMode, opacity: number }[] = [
+      { name: 'Multiply', box: { x: 0, y: 0, w: 8, h: 8 }, color: [128, 128, 128], blendMode: 'multiply', opacity: 1 },
+      { name: 'Screen', box: { x: 8, y: 0, w: 8, h: 8 }, color: [100, 100, 100], blendMode: 'screen', opacity: 1 },
+      { name: 'Darken 50%', box: { x: 0, y: 8, w: 8, h: 8 }, color: [100, 200, 100], blendMode: 'darken', opacity: 0.5 },
+      { name: 'Lighten', box: { x: 8, y: 8, w: 8, h: 8 }, color: [250, 50, 150], blendMode: 'lighten', opacity: 1 },
+    ];
+    const reference = new ReferenceComposite();
+    reference.paint(FULL, bg);
+    quadrants.forEach(q => reference.paint(q.box, q.color, q.blendMode, () => q.opacity));
+    fixtures.push(createDocument('blend-modes', [
+      solid('Background', FULL, bg),
+      ...quadrants.map(q => solid(q.name, q.box, q.color, { blendMode: q.blendMode, opacity: q.opacity })),
+    ], reference));
+  }
+
+  // --- CLIPPING ---
+  {
+    const bg: RGB = [240, 240, 240];
+    const base: Box = { x: 4, y: 4, w: 8, h: 8 };
+    const top: Box = { x: 0, y: 0, w: SIZE, h: 8 };
+    const reference = new ReferenceComposite();
+    reference.paint(FULL, bg);
+    reference.paint(base, [0, 0, 200]);
+    // Clipped layers only paint where the base has pixels
+    reference.paint(base, [255, 0, 0], 'normal', (x, y) => (inBox(top, x, y) ? 1 : 0));
+    reference.paint(base, [128, 255, 128], 'multiply');
+    fixtures.push(createDocument('clipping', [
+      solid('Background', FULL, bg),
+      solid('Base', base, [0, 0, 200]),
+      solid('Clipped Red', top, [255, 0, 0], { clipping: true }),
+      solid('Clipped Multiply', FULL, [128, 255, 128], { clipping: true, blendMode: 'multiply' }),
+    ], reference));
+  }
+
+  // --- MASKS ---
+  {
+    const bg: RGB = [30, 30, 30];
+    const revealBox: Box = { x: 0, y: 0, w: 8, h: SIZE };
+    const holeLayer: Box = { x: 8, y: 0, w: 8, h: SIZE };
+    const holeBox: Box = { x: 8, y: 4, w: 8, h: 8 };
+    const reference = new ReferenceComposite();
+    reference.paint(FULL, bg);
+    // Revealed only inside the mask rect: opaque on top, half on the bottom
+    reference.paint(FULL, [250, 250, 0], 'normal', (x, y) => (inBox(revealBox, x, y) ? (y < 8 ? 1 : 128 / 255) : 0));
+    // Default white mask with a black hole in its rect
+    reference.paint(holeLayer, [0, 200, 255], 'normal', (x, y) => (inBox(holeBox, x, y) ? 0 : 1));
+    fixtures.push(createDocument('masks', [
+      solid('Background', FULL, bg),
+      solid('Revealed', FULL, [250, 250, 0], {
+        mask: mask(revealBox, 0, [
+          { box: { x: 0, y: 0, w: 8, h: 8 }, value: 255 },
+          { box: { x: 0, y: 8, w: 8, h: 8 }, value: 128 },
+        ]),
+      }),
+      solid('Holed', holeLayer, [0, 200, 255], {
+        mask: mask(holeBox, 255, [{ box: { x: 0, y: 0, w: 8, h: 8 }, value: 0 }]),
+      }),
+    ], reference));
+  }
+
+  // --- PASS-THROUGH VS. ISOLATED GROUPS ---
+  {
+    const bg: RGB = [200, 100, 50];
+    const gray: RGB = [128, 128, 128];
+    const left: Box = { x: 0, y: 0, w: 8, h: SIZE };
+    const right: Box = { x: 8, y: 0, w: 8, h: SIZE };
+    const reference = new ReferenceComposite();
+    reference.paint(FULL, bg);
+    // Pass-through: the child multiplies with the document, faded by the group opacity
+    reference.paint(left, gray, 'multiply', () => 0.5);
+    // Isolated: the child multiplies with the group's empty canvas, so the group lands as plain gray
+    reference.paint(right, gray);
+    fixtures.push(createDocument('groups', [
+      solid('Background', FULL, bg),
+      { name: 'Pass Through', blendMode: 'pass through', opacity: 0.5, children: [solid('Multiply A', left, gray, { blendMode: 'multiply' })] },
+      { name: 'Isolated', blendMode: 'normal', children: [solid('Multiply B', right, gray, { blendMode: 'multiply' })] },
+    ], reference));
+  }
+
+  return fixtures;
+};
@@ -0,0 +1,77 @@
+import { Point } from '../types';
+
+/**
+ * Geometry helpers shared by the PSD service and the remap engine.
+ * Plain math only (no DOM, no ag-psd) so the engine runs in Node, workers and tests.
+ */
+
+export type Rect = { x: number, y: number, w: number, h: number };
+
+/**
+ * Even-odd ray casting point-in-polygon test.
+ */
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * A rect is contained when all corners are inside the polygon and no polygon vertex pokes into it
+ * (the latter catches concave notches between corners).
+ */
+export const isRectInsidePolygon = (rect: Rect, polygon: Point[]): boolean => {
+  const corners: Point[] = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.w, y: rect.y },
+    { x: rect.x + rect.w, y: rect.y + rect.h },
+    { x: rect.x, y: rect.y + rect.h },
+  ];
+  if (!corners.every(c => isPointInPolygon(c, polygon))) return false;
+
+  return !polygon.some(p => p.x > rect.x && p.x < rect.x + rect.w && p.y > rect.y && p.y < rect.y + rect.h);
+};
+
+export const getPolygonCentroid = (polygon: Point[]): Point => {
+  const sum = polygon.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / polygon.length, y: sum.y / polygon.length };
+};
+
+// Grid resolution used to estimate the out-of-shape area of a layer against a polygon container
+const POLYGON_SAMPLE_GRID = 8;
+
+/**
+ * Fraction (0-1) of a layer's area that falls outside a container rect, or its shape when given.
+ */
+export const getOverflowRatio = (rect: Rect, bounds: Rect, polygon?: Point[]): number => {
+  const area = rect.w * rect.h;
+  if (area <= 0) return 0;
+
+  if (polygon) {
+    if (isRectInsidePolygon(rect, polygon)) return 0;
+    let outside = 0;
+    for (let iy = 0; iy < POLYGON_SAMPLE_GRID; iy++) {
+      for (let ix = 0; ix < POLYGON_SAMPLE_GRID; ix++) {
+        const point = {
+          x: rect.x + ((ix + 0.5) / POLYGON_SAMPLE_GRID) * rect.w,
+          y: rect.y + ((iy + 0.5) / POLYGON_SAMPLE_GRID) * rect.h
+        };
+        if (!isPointInPolygon(point, polygon)) outside++;
+      }
+    }
+    // A notch between sample points still counts as a (minimal) breach
+    return Math.max(outside / (POLYGON_SAMPLE_GRID * POLYGON_SAMPLE_GRID), 1 / (POLYGON_SAMPLE_GRID * POLYGON_SAMPLE_GRID));
+  }
+
+  const b = bounds;
+  const ix = Math.max(0, Math.min(rect.x + rect.w, b.x + b.w) - Math.max(rect.x, b.x));
+  const iy = Math.max(0, Math.min(rect.y + rect.h, b.y + b.h) - Math.max(rect.y, b.y));
+  return 1 - (ix * iy) / area;
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { SerializableLayer, TransformedLayer } from '../types';
+import { analyzeLayoutHeuristically } from './heuristicAnalyst';
+import { remapLayers } from './remapEngine';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+const layer = (id: string, x: number, y: number, w: number, h: number): SerializableLayer => ({
+    id,
+    name: id,
+    type: 'layer',
+    isVisible: true,
+    opacity: 1,
+    coords: { x, y, w, h }
+});
+
+const find = (layers: TransformedLayer[], id: string) => layers.find(l => l.id === id)!;
+
+const intersection = (a: Rect, b: Rect) => {
+    const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+    const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+    return w > 0 && h > 0 ? w * h : 0;
+};
+
+// Landscape banner with a row of cards over a full-width CTA bar, re-flowed into a square
+const SOURCE: Rect = { x: 0, y: 0, w: 1200, h: 628 };
+const SQUARE: Rect = { x: 2000, y: 0, w: 1080, h: 1080 };
+const LAYERS = [
+    layer('bg', 0, 0, 1200, 628),
+    layer('card1', 75, 10, 300, 450),
+    layer('card2', 450, 10, 300, 450),
+    layer('card3', 825, 10, 300, 450),
+    layer('cta', 0, 468, 1200, 160)
+];
+
+const run = (safeRect?: Rect) => {
+    const strategy = analyzeLayoutHeuristically({ layers: LAYERS, sourceRect: SOURCE, targetRect: SQUARE, safeRect });
+    const payload = remapLayers({
+        layers: LAYERS,
+        sourceRect: SOURCE,
+        targetRect: SQUARE,
+        safeRect,
+        strategy,
+        sourceNodeId: 'load-1',
+        sourceContainer: 'BANNER',
+        targetContainer: 'SQUARE'
+    });
+    return { strategy, payload };
+};
+
+describe('analyzeLayoutHeuristically', () => {
+    it('re-flows the cards into a grid that leaves the pinned CTA clear', () => {
+        const { strategy, payload } = run();
+        expect(strategy.layoutMode).toBe('GRID');
+        expect(strategy.overrides?.find(o => o.layerId === 'cta')?.layoutRole).toBe('static');
+
+        const cta = find(payload.layers, 'cta').coords;
+        ['card1', 'card2', 'card3'].forEach(id => {
+            expect(intersection(find(payload.layers, id).coords, cta)).toBe(0);
+        });
+    });
+
+    it('exempts only the backgrounds from bleed', () => {
+        const safeRect = { x: SQUARE.x, y: 100, w: SQUARE.w, h: 880 };
+        const { strategy, payload } = run(safeRect);
+        expect(strategy.safetyReport?.allowedBleed).toBe(false);
+
+        const bg = find(payload.layers, 'bg').coords;
+        expect(bg.h).toBeGreaterThanOrEqual(SQUARE.h - 1);
+        const bgErrors = (payload.safetyReport?.violations || []).filter(v => v.layerId === 'bg' && v.severity === 'error');
+        expect(bgErrors).toHaveLength(0);
+    });
+});
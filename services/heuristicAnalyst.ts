@@ -0,0 +1,291 @@
+import { LayoutStrategy, LayerOverride, SerializableLayer, ContainerConstraints } from '../types';
+import { resolveConstrainedLayout, resolveLayoutConstraints } from './remapEngine';
+
+/**
+ * Heuristic Analyst.
+ * Derives a complete, deterministic `LayoutStrategy` from container geometry alone (aspect change, layer
+ * sizes and positions): no model, no pixels, no knowledge rules. The Design Analyst uses it standalone
+ * ('HEURISTIC' model) and as the baseline handed to the AI models for refinement.
+ */
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export interface HeuristicAnalysisInput {
+    layers: SerializableLayer[];
+    sourceRect: Rect;
+    targetRect: Rect;
+    safeRect?: Rect; // Content is laid out in here; only backgrounds bleed into the insets
+    constraints?: ContainerConstraints; // Template constraints win over the derived scale and anchor
+}
+
+const EDGE_TOLERANCE = 0.04; // Max gap to a container edge (fraction of the source size) for a layer to hug it
+const FULL_BLEED_COVERAGE = 0.9; // Min coverage of both source axes for a background
+const NAMED_BACKGROUND_COVERAGE = 0.6; // ...or of a layer named like one ('bg', 'background', 'backdrop')
+const SIZE_SIMILARITY = 0.2; // Max relative w/h difference between items of one repeated set
+const MIN_REPEATS = 3;
+const ASPECT_TOLERANCE = 0.15; // Aspect changes below this keep the proportional STANDARD layout
+const DISTRIBUTE_ASPECT_LIMIT = 1.5; // Aspect change across a row/column beyond which it is re-flowed into a grid
+const ANCHOR_BAND = 0.1; // Content centroid offset from the middle that biases the anchor to TOP/BOTTOM
+const MIN_OVERLAP_PADDING = 4;
+const MAX_OVERLAP_PADDING = 48;
+
+const BACKGROUND_NAME = /(^|[^a-z])(bg|background|backdrop)([^a-z]|$)/i;
+
+const round = (value: number, digits = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+};
+
+const median = (values: number[]) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const isBackgroundLayer = (layer: SerializableLayer, sourceRect: Rect) => {
+    const coverage = Math.min(layer.coords.w / sourceRect.w, layer.coords.h / sourceRect.h);
+    return coverage >= FULL_BLEED_COVERAGE || (coverage >= NAMED_BACKGROUND_COVERAGE && BACKGROUND_NAME.test(layer.name));
+};
+
+type EdgeHug = { left: boolean, right: boolean, top: boolean, bottom: boolean };
+
+const getEdgeHug = (layer: SerializableLayer, sourceRect: Rect): EdgeHug => {
+    const tolX = sourceRect.w * EDGE_TOLERANCE;
+    const tolY = sourceRect.h * EDGE_TOLERANCE;
+    const { x, y, w, h } = layer.coords;
+    return {
+        left: x - sourceRect.x <= tolX,
+        right: sourceRect.x + sourceRect.w - (x + w) <= tolX,
+        top: y - sourceRect.y <= tolY,
+        bottom: sourceRect.y + sourceRect.h - (y + h) <= tolY
+    };
+};
+
+const describeHug = (hug: EdgeHug) => {
+    const vertical = hug.top && hug.bottom ? 'full-height' : hug.top ? 'top' : hug.bottom ? 'bottom' : '';
+    const horizontal = hug.left && hug.right ? 'full-width' : hug.left ? 'left' : hug.right ? 'right' : '';
+    return [vertical, horizontal].filter(Boolean).join(' ');
+};
+
+/** Largest set of at least MIN_REPEATS similar-sized layers (cards, icons, list items). */
+const findRepeatedSet = (layers: SerializableLayer[]): SerializableLayer[] => {
+    const isSimilar = (a: SerializableLayer, b: SerializableLayer) =>
+        Math.abs(a.coords.w - b.coords.w) <= SIZE_SIMILARITY * Math.max(a.coords.w, b.coords.w) &&
+        Math.abs(a.coords.h - b.coords.h) <= SIZE_SIMILARITY * Math.max(a.coords.h, b.coords.h);
+
+    let best: SerializableLayer[] = [];
+    layers.forEach(seed => {
+        const set = layers.filter(l => isSimilar(seed, l));
+        if (set.length > best.length) best = set;
+    });
+    return best.length >= MIN_REPEATS ? best : [];
+};
+
+type Arrangement = 'row' | 'column' | 'grid';
+
+const getArrangement = (items: SerializableLayer[]): Arrangement => {
+    const centersX = items.map(l => l.coords.x + l.coords.w / 2);
+    const centersY = items.map(l => l.coords.y + l.coords.h / 2);
+    const spreadX = Math.max(...centersX) - Math.min(...centersX);
+    const spreadY = Math.max(...centersY) - Math.min(...centersY);
+    if (spreadY <= median(items.map(l => l.coords.h)) / 2) return 'row';
+    if (spreadX <= median(items.map(l => l.coords.w)) / 2) return 'column';
+    return 'grid';
+};
+
+/** Median gap between neighbours of a row/column in source px (null when they touch or overlap). */
+const getMedianGap = (items: SerializableLayer[], arrangement: Arrangement): number | null => {
+    const axis = arrangement === 'column' ? 'y' : 'x';
+    const size = arrangement === 'column' ? 'h' : 'w';
+    const sorted = [...items].sort((a, b) => a.coords[axis] - b.coords[axis]);
+    const gaps: number[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+        const gap = sorted[i].coords[axis] - (sorted[i - 1].coords[axis] + sorted[i - 1].coords[size]);
+        if (gap > 0) gaps.push(gap);
+    }
+    return gaps.length > 0 ? median(gaps) : null;
+};
+
+export const analyzeLayoutHeuristically = (input: HeuristicAnalysisInput): LayoutStrategy => {
+    const { layers, sourceRect, targetRect, constraints } = input;
+    const contentRect = input.safeRect || targetRect;
+    const pad = constraints?.pad ?? 0;
+    const usable = {
+        x: contentRect.x + pad,
+        y: contentRect.y + pad,
+        w: Math.max(1, contentRect.w - pad * 2),
+        h: Math.max(1, contentRect.h - pad * 2)
+    };
+    const reasoning: string[] = ['Rule-based analysis from container geometry (no model call).'];
+
+    // SCALE: contain-fit of the source into the usable area
+    const suggestedScale = round(Math.min(usable.w / sourceRect.w, usable.h / sourceRect.h), 3);
+    reasoning.push(constraints?.fit
+        ? `Scale: template fit '${constraints.fit}' decides the scale; ${suggestedScale}x (contain) is reported for reference.`
+        : `Scale: ${suggestedScale}x contain-fit of ${Math.round(sourceRect.w)}x${Math.round(sourceRect.h)} into the ${Math.round(usable.w)}x${Math.round(usable.h)} ${input.safeRect ? 'safe area' : 'target'}.`);
+
+    const visible = layers.filter(l => l.isVisible);
+    const backgrounds = visible.filter(l => isBackgroundLayer(l, sourceRect));
+    const content = visible.filter(l => !backgrounds.includes(l));
+
+    // ANCHOR: vertical slack goes where the content is not
+    const sourceAspect = sourceRect.w / sourceRect.h;
+    const targetAspect = usable.w / usable.h;
+    const aspectChange = targetAspect / sourceAspect;
+    const aspectPreserved = Math.abs(Math.log(aspectChange)) < Math.log(1 + ASPECT_TOLERANCE);
+
+    let anchor: LayoutStrategy['anchor'] = 'CENTER';
+    if (constraints?.anchor) {
+        anchor = constraints.anchor.startsWith('top') ? 'TOP' : constraints.anchor.startsWith('bottom') ? 'BOTTOM' : 'CENTER';
+        reasoning.push(`Anchor: ${anchor}, taken from the template anchor '${constraints.anchor}'.`);
+    } else if (aspectPreserved) {
+        reasoning.push(`Anchor: CENTER, the aspect ratio is kept (${round(sourceAspect, 2)} -> ${round(targetAspect, 2)}).`);
+    } else if (aspectChange > 1) {
+        reasoning.push(`Anchor: CENTER, the target is relatively wider (${round(sourceAspect, 2)} -> ${round(targetAspect, 2)}); the slack is horizontal.`);
+    } else {
+        const totalArea = content.reduce((sum, l) => sum + l.coords.w * l.coords.h, 0);
+        const centroid = totalArea > 0
+            ? content.reduce((sum, l) => sum + (l.coords.y + l.coords.h / 2 - sourceRect.y) * l.coords.w * l.coords.h, 0) / totalArea / sourceRect.h
+            : 0.5;
+        anchor = centroid < 0.5 - ANCHOR_BAND ? 'TOP' : centroid > 0.5 + ANCHOR_BAND ? 'BOTTOM' : 'CENTER';
+        reasoning.push(`Anchor: ${anchor}, the target is relatively taller (${round(sourceAspect, 2)} -> ${round(targetAspect, 2)}) and the content weight sits at ${Math.round(centroid * 100)}% of the source height.`);
+    }
+
+    // Where the engine will map unpinned layers: overrides computed below line up with it
+    const layout = resolveConstrainedLayout(
+        sourceRect,
+        contentRect,
+        resolveLayoutConstraints(constraints, undefined, undefined, { anchor } as LayoutStrategy),
+        suggestedScale
+    );
+    const layoutScale = Math.min(layout.scaleX, layout.scaleY);
+
+    const overrides: LayerOverride[] = [];
+    const overrideNotes: string[] = [];
+
+    // BACKGROUNDS: cover the whole target, including the safe-area insets
+    backgrounds.forEach(l => {
+        const baseW = l.coords.w * layoutScale;
+        const baseH = l.coords.h * layoutScale;
+        const individualScale = Math.max(targetRect.w / baseW, targetRect.h / baseH);
+        overrides.push({
+            layerId: l.id,
+            xOffset: round((targetRect.w - baseW * individualScale) / 2),
+            yOffset: round((targetRect.h - baseH * individualScale) / 2),
+            individualScale: round(individualScale, 3),
+            layoutRole: 'background'
+        });
+        overrideNotes.push(`'${l.name}' covers the target (background)`);
+    });
+
+    // Static pin: the layer keeps its scaled margin to every edge it hugs and its proportional position elsewhere
+    const pinStatic = (l: SerializableLayer, hug: EdgeHug) => {
+        const w = l.coords.w * layoutScale;
+        const h = l.coords.h * layoutScale;
+        const individualScale = Math.min(1, usable.w / w, usable.h / h);
+        const pinnedW = w * individualScale;
+        const pinnedH = h * individualScale;
+        const marginLeft = (l.coords.x - sourceRect.x) * layoutScale;
+        const marginRight = (sourceRect.x + sourceRect.w - l.coords.x - l.coords.w) * layoutScale;
+        const marginTop = (l.coords.y - sourceRect.y) * layoutScale;
+        const marginBottom = (sourceRect.y + sourceRect.h - l.coords.y - l.coords.h) * layoutScale;
+
+        const x = hug.left && hug.right ? usable.x + (usable.w - pinnedW) / 2
+            : hug.left ? usable.x + marginLeft
+            : hug.right ? usable.x + usable.w - marginRight - pinnedW
+            : layout.rect.x + (l.coords.x - sourceRect.x) / sourceRect.w * layout.rect.w;
+        const y = hug.top && hug.bottom ? usable.y + (usable.h - pinnedH) / 2
+            : hug.top ? usable.y + marginTop
+            : hug.bottom ? usable.y + usable.h - marginBottom - pinnedH
+            : layout.rect.y + (l.coords.y - sourceRect.y) / sourceRect.h * layout.rect.h;
+
+        overrides.push({
+            layerId: l.id,
+            xOffset: round(x - targetRect.x),
+            yOffset: round(y - targetRect.y),
+            individualScale: round(individualScale, 3),
+            layoutRole: 'static'
+        });
+    };
+
+    // EDGE-HUGGING LAYERS (headers, footers, corner logos) stay on their edges; repeated items are left to the layout
+    const topRepeated = findRepeatedSet(content);
+    const statics = content.filter(l => {
+        if (topRepeated.includes(l)) return false;
+        const hug = getEdgeHug(l, sourceRect);
+        return hug.left || hug.right || hug.top || hug.bottom;
+    });
+    statics.forEach(l => {
+        const hug = getEdgeHug(l, sourceRect);
+        pinStatic(l, hug);
+        overrideNotes.push(`'${l.name}' pinned ${describeHug(hug)} (static)`);
+    });
+
+    // LAYOUT MODE: applies to the unpinned top level, or to the children of a lone wrapper group (as in the engine)
+    const unpinned = content.filter(l => !statics.includes(l));
+    const wrapper = unpinned.length === 1 && unpinned[0].children?.length ? unpinned[0] : null;
+    const level = wrapper ? wrapper.children!.filter(l => l.isVisible) : unpinned;
+    const repeated = wrapper ? findRepeatedSet(level) : topRepeated.filter(l => level.includes(l));
+
+    let layoutMode: LayoutStrategy['layoutMode'] = 'STANDARD';
+    let arrangement: Arrangement | null = null;
+    if (repeated.length >= MIN_REPEATS) {
+        arrangement = getArrangement(repeated);
+        const setLabel = `${repeated.length} similar-sized layers${wrapper ? ` in '${wrapper.name}'` : ''} (${repeated.slice(0, 3).map(l => `'${l.name}'`).join(', ')}${repeated.length > 3 ? ', ...' : ''}) form a ${arrangement}`;
+        if (aspectPreserved) {
+            reasoning.push(`Layout: STANDARD, ${setLabel}; the aspect ratio is kept, so proportional placement preserves it.`);
+        } else {
+            layoutMode = arrangement === 'row' ? (aspectChange >= 1 / DISTRIBUTE_ASPECT_LIMIT ? 'DISTRIBUTE_HORIZONTAL' : 'GRID')
+                : arrangement === 'column' ? (aspectChange <= DISTRIBUTE_ASPECT_LIMIT ? 'DISTRIBUTE_VERTICAL' : 'GRID')
+                : 'GRID';
+            reasoning.push(`Layout: ${layoutMode}, ${setLabel}${layoutMode === 'GRID' && arrangement !== 'grid' ? ` that no longer fits a single ${arrangement} after the aspect change` : ''}.`);
+
+            // Unique siblings would otherwise be dealt a slot of the distribution
+            level.filter(l => !repeated.includes(l)).forEach(l => {
+                pinStatic(l, { left: false, right: false, top: false, bottom: false });
+                overrideNotes.push(`'${l.name}' held at its proportional position (static)`);
+            });
+        }
+    } else {
+        reasoning.push('Layout: STANDARD, no repeated set of similar-sized layers was found.');
+    }
+
+    // PHYSICS: clipping is always guarded; overlap only once positions stop being proportional
+    const physicsRules: NonNullable<LayoutStrategy['physicsRules']> = {
+        preventClipping: true,
+        preventOverlap: layoutMode !== 'STANDARD' || !aspectPreserved
+    };
+    const gap = arrangement && arrangement !== 'grid' ? getMedianGap(repeated, arrangement) : null;
+    if (physicsRules.preventOverlap && gap !== null) {
+        physicsRules.overlapPadding = Math.round(Math.min(MAX_OVERLAP_PADDING, Math.max(MIN_OVERLAP_PADDING, gap * layoutScale)));
+    }
+    reasoning.push(`Physics: clipping prevented${physicsRules.preventOverlap ? `, overlap prevented${physicsRules.overlapPadding !== undefined ? ` with a ${physicsRules.overlapPadding}px gap (scaled source spacing)` : ''}` : ''}.`);
+
+    reasoning.push(overrideNotes.length > 0 ? `Overrides: ${overrideNotes.join('; ')}.` : 'Overrides: none.');
+
+    return {
+        method: 'GEOMETRIC',
+        suggestedScale,
+        anchor,
+        generativePrompt: '',
+        reasoning: reasoning.join('\n'),
+        overrides,
+        directives: [],
+        replaceLayerId: null,
+        clearance: false,
+        knowledgeApplied: false,
+        isHeuristic: true,
+        layoutMode,
+        physicsRules,
+        // Backgrounds are pinned overrides (never blocking); declaring bleed would unblock every other layer too
+        safetyReport: { allowedBleed: false, violationCount: 0 },
+        triangulation: {
+            visual_identification: 'Not inspected (rule-based analysis).',
+            knowledge_correlation: 'Knowledge rules are not evaluated by the heuristic analyst.',
+            metadata_validation: `${visible.length} layers classified by geometry: ${backgrounds.length} background, ${statics.length} edge-hugging, ${repeated.length} repeated.`,
+            evidence_count: 1,
+            confidence_verdict: 'LOW'
+        }
+    };
+};
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import { PSDNodeData, LayoutStrategy, FeedbackRegistry } from '../types';
+import { getDownstreamReach, rebindGraphOverrides, rebindFeedbackRegistry, rebindLayoutStrategy } from './layerIdentity';
+
+const edge = (source: string, sourceHandle: string, target: string, targetHandle: string): Edge => ({
+  id: `${source}:${sourceHandle}->${target}:${targetHandle}`, source, sourceHandle, target, targetHandle
+});
+
+const strategy = (layerId: string): LayoutStrategy => ({
+  suggestedScale: 1, anchor: 'CENTER', generativePrompt: '', reasoning: '', overrides: [{ layerId, xOffset: 0, yOffset: 0, individualScale: 1 }]
+});
+
+const analystNode = (id: string, layerIds: string[]): Node<PSDNodeData> => ({
+  id,
+  position: { x: 0, y: 0 },
+  data: {
+    fileName: null, template: null, validation: null, designLayers: null,
+    analystInstances: Object.fromEntries(layerIds.map((layerId, i) => [i, { chatHistory: [], layoutStrategy: strategy(layerId) }])) as PSDNodeData['analystInstances'],
+  },
+});
+
+// Two documents feed one Analyst (instance 0 from load-a, instance 1 from load-b), then a Remapper
+const edges = [
+  edge('load-a', 'psd-output', 'resolver-a', 'input'),
+  edge('resolver-a', 'source-0', 'analyst', 'source-in-0'),
+  edge('load-b', 'psd-output', 'resolver-b', 'input'),
+  edge('resolver-b', 'source-0', 'analyst', 'source-in-1'),
+  edge('analyst', 'source-out-0', 'remapper', 'source-in-0'),
+  edge('analyst', 'source-out-1', 'remapper', 'source-in-1'),
+];
+
+describe('getDownstreamReach', () => {
+  it('follows edges per instance', () => {
+    const reach = getDownstreamReach('load-a', edges);
+    expect(reach.get('resolver-a')).toBe('all');
+    expect(reach.get('analyst')).toEqual(new Set([0]));
+    expect(reach.get('remapper')).toEqual(new Set([0]));
+    expect(reach.has('resolver-b')).toBe(false);
+  });
+});
+
+describe('rebindGraphOverrides', () => {
+  const map = new Map<string, string | null>([['lyr-5', 'lyr-9']]);
+
+  it('only touches instances fed by the reloaded document', () => {
+    const nodes = [analystNode('analyst', ['lyr-5', 'lyr-5']), analystNode('unrelated', ['lyr-5'])];
+    const { nodes: patched, report } = rebindGraphOverrides(nodes, getDownstreamReach('load-a', edges), map);
+
+    const instances = patched[0].data.analystInstances!;
+    expect(instances[0].layoutStrategy?.overrides?.[0].layerId).toBe('lyr-9');
+    expect(instances[1].layoutStrategy?.overrides?.[0].layerId).toBe('lyr-5'); // Same ID, other document
+    expect(patched[1]).toBe(nodes[1]);
+    expect(report.rebound).toBe(1);
+  });
+
+  it('rebinds committed feedback of reached Remapper instances', () => {
+    const registry: FeedbackRegistry = {
+      remapper: {
+        'result-out-0': { overrides: [{ layerId: 'lyr-5', xOffset: 0, yOffset: 0, individualScale: 1 }], restoredLayerIds: ['lyr-5'] },
+        'result-out-1': { overrides: [{ layerId: 'lyr-5', xOffset: 0, yOffset: 0, individualScale: 1 }] },
+      },
+    };
+    const changed = rebindFeedbackRegistry(registry, getDownstreamReach('load-a', edges), map);
+    expect(changed).toHaveLength(1);
+    expect(changed[0].handleId).toBe('result-out-0');
+    expect(changed[0].strategy.overrides[0].layerId).toBe('lyr-9');
+    expect(changed[0].strategy.restoredLayerIds).toEqual(['lyr-9']);
+  });
+});
+
+describe('rebindLayoutStrategy', () => {
+  // lyr-5 moved to lyr-9, lyr-7 no longer exists
+  const map = new Map<string, string | null>([['lyr-5', 'lyr-9'], ['lyr-7', null]]);
+  const base: LayoutStrategy = { suggestedScale: 1, anchor: 'CENTER', generativePrompt: '', reasoning: '', overrides: [] };
+
+  it('reports constraints on a layer that is gone', () => {
+    const { value, unmatched } = rebindLayoutStrategy({ ...base, constraints: [{ layerId: 'lyr-7', attribute: 'top', relation: 'eq' }] }, map);
+    expect(unmatched).toEqual([{ layerId: 'lyr-7', field: 'constraints.layerId' }]);
+    expect(value.constraints?.[0].layerId).toBe('lyr-7');
+  });
+
+  it('reports constraints relative to a layer that is gone', () => {
+    const { value, rebound, unmatched } = rebindLayoutStrategy({
+      ...base,
+      constraints: [{ layerId: 'lyr-5', attribute: 'top', relation: 'ge', toLayerId: 'lyr-7', toAttribute: 'bottom' }]
+    }, map);
+    expect(unmatched).toEqual([{ layerId: 'lyr-7', field: 'constraints.toLayerId' }]);
+    expect(value.constraints?.[0]).toMatchObject({ layerId: 'lyr-9', toLayerId: 'lyr-7' });
+    expect(rebound).toBe(1);
+  });
+
+  it('reports priorities of a layer that is gone', () => {
+    const { value, unmatched } = rebindLayoutStrategy({ ...base, layerPriorities: [{ layerId: 'lyr-7', priority: 3 }, { layerId: 'lyr-5', priority: 1 }] }, map);
+    expect(unmatched).toEqual([{ layerId: 'lyr-7', field: 'layerPriorities' }]);
+    expect(value.layerPriorities).toEqual([{ layerId: 'lyr-7', priority: 3 }, { layerId: 'lyr-9', priority: 1 }]);
+  });
+});
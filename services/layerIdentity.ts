@@ -0,0 +1,371 @@
+import { Layer } from 'ag-psd';
+import type { Node, Edge } from 'reactflow';
+import { SerializableLayer, LayoutStrategy, ReviewerStrategy, FeedbackStrategy, FeedbackRegistry, LayerOverride, LayerRebindReport, UnmatchedOverride, PSDNodeData, AnalystInstanceState, ReviewerInstanceState } from '../types';
+
+/**
+ * Layer Identity Service.
+ * Index paths ("0.3.1") shift whenever a designer inserts a layer, silently re-targeting saved overrides.
+ * Stable IDs use the Photoshop layer id (lyid) when present and fall back to a name-path fingerprint.
+ */
+
+// Legacy IDs produced by earlier versions of getCleanLayerTree
+export const INDEX_PATH_PATTERN = /^\d+(\.\d+)*$/;
+
+// djb2 string hash, base36 encoded (short enough to be echoed back reliably by the Analyst)
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Disambiguates same-named siblings ("coin", "coin#1", "coin#2") so duplicates get distinct fingerprints.
+ */
+export const getSiblingKey = (name: string, siblingNames: string[], index: number): string => {
+  const occurrence = siblingNames.slice(0, index).filter(n => n === name).length;
+  return occurrence > 0 ? `${name}#${occurrence}` : name;
+};
+
+export const getLayerFingerprint = (namePath: string[]): string => {
+  return `fp-${hashString(namePath.join('/'))}`;
+};
+
+/**
+ * Returns the stable ID for a layer given its (sibling-disambiguated) name path.
+ */
+export const getStableLayerId = (layer: Layer, namePath: string[]): string => {
+  return typeof layer.id === 'number' ? `lyr-${layer.id}` : getLayerFingerprint(namePath);
+};
+
+/**
+ * Indexes the raw ag-psd tree by stable ID. Mirrors the traversal in getCleanLayerTree.
+ */
+export const buildLayerIdentityIndex = (layers: Layer[] | undefined): Map<string, Layer> => {
+  const index = new Map<string, Layer>();
+
+  const walk = (nodes: Layer[] | undefined, parentNames: string[]) => {
+    if (!nodes) return;
+    const siblingNames = nodes.map((child, i) => child.name || `Layer ${i}`);
+    nodes.forEach((child, i) => {
+      const namePath = [...parentNames, getSiblingKey(siblingNames[i], siblingNames, i)];
+      index.set(getStableLayerId(child, namePath), child);
+      walk(child.children, namePath);
+    });
+  };
+  walk(layers, []);
+
+  return index;
+};
+
+// --- RE-BINDING ---
+
+interface IdentityEntry {
+  id: string;
+  name: string;
+  type: SerializableLayer['type'];
+  namePathKey: string;
+}
+
+const flattenIdentities = (tree: SerializableLayer[]): IdentityEntry[] => {
+  const entries: IdentityEntry[] = [];
+  const walk = (nodes: SerializableLayer[], parentNames: string[]) => {
+    const siblingNames = nodes.map(n => n.name);
+    nodes.forEach((node, i) => {
+      const namePath = [...parentNames, getSiblingKey(node.name, siblingNames, i)];
+      entries.push({ id: node.id, name: node.name, type: node.type, namePathKey: namePath.join('/') });
+      if (node.children) walk(node.children, namePath);
+    });
+  };
+  walk(tree, []);
+  return entries;
+};
+
+/**
+ * Maps every layer ID of a previous design tree onto the freshly parsed tree.
+ * Match order: identical stable ID -> identical name path -> unique name + type. Unmatched IDs map to null.
+ */
+export const buildLayerRebindMap = (previousTree: SerializableLayer[], nextTree: SerializableLayer[]): Map<string, string | null> => {
+  const previous = flattenIdentities(previousTree);
+  const next = flattenIdentities(nextTree);
+
+  const nextIds = new Set(next.map(e => e.id));
+  const byNamePath = new Map(next.map(e => [e.namePathKey, e.id]));
+
+  const map = new Map<string, string | null>();
+  previous.forEach(entry => {
+    if (nextIds.has(entry.id)) {
+      map.set(entry.id, entry.id);
+      return;
+    }
+
+    const pathMatch = byNamePath.get(entry.namePathKey);
+    if (pathMatch) {
+      map.set(entry.id, pathMatch);
+      return;
+    }
+
+    const nameMatches = next.filter(e => e.name === entry.name && e.type === entry.type);
+    map.set(entry.id, nameMatches.length === 1 ? nameMatches[0].id : null);
+  });
+
+  return map;
+};
+
+interface RebindResult<T> {
+  value: T;
+  rebound: number;
+  unmatched: Pick<UnmatchedOverride, 'layerId' | 'field'>[];
+}
+
+const rebindOverrides = (overrides: LayerOverride[], map: Map<string, string | null>): RebindResult<LayerOverride[]> => {
+  let rebound = 0;
+  const unmatched: RebindResult<unknown>['unmatched'] = [];
+
+  const value = overrides.map(override => {
+    const next = { ...override };
+
+    const layerTarget = map.get(override.layerId);
+    if (layerTarget === null) {
+      unmatched.push({ layerId: override.layerId, field: 'layerId' });
+    } else if (layerTarget && layerTarget !== override.layerId) {
+      next.layerId = layerTarget;
+      rebound++;
+    }
+
+    if (override.linkedAnchorId) {
+      const anchorTarget = map.get(override.linkedAnchorId);
+      if (anchorTarget === null) {
+        unmatched.push({ layerId: override.linkedAnchorId, field: 'linkedAnchorId' });
+      } else if (anchorTarget && anchorTarget !== override.linkedAnchorId) {
+        next.linkedAnchorId = anchorTarget;
+        rebound++;
+      }
+    }
+
+    return next;
+  });
+
+  return { value, rebound, unmatched };
+};
+
+export const rebindLayoutStrategy = (strategy: LayoutStrategy, map: Map<string, string | null>): RebindResult<LayoutStrategy> => {
+  const overrides = rebindOverrides(strategy.overrides || [], map);
+  const value: LayoutStrategy = { ...strategy, overrides: strategy.overrides ? overrides.value : undefined };
+  let rebound = overrides.rebound;
+  const unmatched = [...overrides.unmatched];
+
+  if (strategy.replaceLayerId) {
+    const target = map.get(strategy.replaceLayerId);
+    if (target === null) {
+      unmatched.push({ layerId: strategy.replaceLayerId, field: 'replaceLayerId' });
+    } else if (target && target !== strategy.replaceLayerId) {
+      value.replaceLayerId = target;
+      rebound++;
+    }
+  }
+
+  if (strategy.constraints) {
+    value.constraints = strategy.constraints.map(constraint => {
+      const next = { ...constraint };
+      const target = map.get(constraint.layerId);
+      if (target === null) {
+        unmatched.push({ layerId: constraint.layerId, field: 'constraints.layerId' });
+      } else if (target && target !== constraint.layerId) {
+        next.layerId = target;
+        rebound++;
+      }
+      if (constraint.toLayerId) {
+        const toTarget = map.get(constraint.toLayerId);
+        if (toTarget === null) {
+          unmatched.push({ layerId: constraint.toLayerId, field: 'constraints.toLayerId' });
+        } else if (toTarget && toTarget !== constraint.toLayerId) {
+          next.toLayerId = toTarget;
+          rebound++;
+        }
+      }
+      return next;
+    });
+  }
+
+  if (strategy.layerPriorities) {
+    value.layerPriorities = strategy.layerPriorities.map(entry => {
+      const target = map.get(entry.layerId);
+      if (target === null) {
+        unmatched.push({ layerId: entry.layerId, field: 'layerPriorities' });
+      } else if (target && target !== entry.layerId) {
+        rebound++;
+        return { ...entry, layerId: target };
+      }
+      return entry;
+    });
+  }
+
+  return { value, rebound, unmatched };
+};
+
+export const rebindReviewerStrategy = (strategy: ReviewerStrategy, map: Map<string, string | null>): RebindResult<ReviewerStrategy> => {
+  const overrides = rebindOverrides(strategy.overrides || [], map);
+  return { value: { ...strategy, overrides: overrides.value }, rebound: overrides.rebound, unmatched: overrides.unmatched };
+};
+
+// --- GRAPH SCOPE ---
+
+// Per-instance handles end in their index ('source-in-2', 'result-out-2', 'source-1')
+const HANDLE_INDEX_PATTERN = /-(\d+)$/;
+
+const getHandleIndex = (handle: string | null | undefined): number | null => {
+  const match = handle?.match(HANDLE_INDEX_PATTERN);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Node ID -> instance indices fed by a source node ('all' when a handle without an index is reached).
+ * Layer IDs are only unique per document ("lyr-12" exists in most files), so re-binding must stay on this scope.
+ */
+export type DownstreamReach = Map<string, Set<number> | 'all'>;
+
+export const getDownstreamReach = (sourceNodeId: string, edges: Edge[]): DownstreamReach => {
+  const reach: DownstreamReach = new Map();
+  const visited = new Set<string>();
+  const queue: { nodeId: string, index: number | null }[] = [{ nodeId: sourceNodeId, index: null }];
+
+  while (queue.length > 0) {
+    const { nodeId, index } = queue.shift()!;
+    const key = `${nodeId}:${index ?? '*'}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    edges.forEach(edge => {
+      if (edge.source !== nodeId) return;
+      const sourceIndex = getHandleIndex(edge.sourceHandle);
+      // An instance only feeds its own indexed outputs
+      if (index !== null && sourceIndex !== null && sourceIndex !== index) return;
+
+      const targetIndex = getHandleIndex(edge.targetHandle);
+      const current = reach.get(edge.target);
+      if (targetIndex === null) reach.set(edge.target, 'all');
+      else if (current !== 'all') reach.set(edge.target, new Set([...(current || []), targetIndex]));
+
+      queue.push({ nodeId: edge.target, index: targetIndex });
+    });
+  }
+
+  return reach;
+};
+
+export const isInstanceReached = (reach: DownstreamReach, nodeId: string, index: number | null): boolean => {
+  const entry = reach.get(nodeId);
+  if (!entry) return false;
+  return entry === 'all' || index === null || entry.has(index);
+};
+
+const rebindLayerIds = (layerIds: string[], map: Map<string, string | null>): RebindResult<string[]> => {
+  let rebound = 0;
+  const value = layerIds.map(layerId => {
+    const target = map.get(layerId);
+    if (target && target !== layerId) {
+      rebound++;
+      return target;
+    }
+    return layerId;
+  });
+  return { value, rebound, unmatched: [] };
+};
+
+/**
+ * Re-binds a committed Reviewer feedback entry (the Remapper reads it from the feedback registry).
+ */
+export const rebindFeedbackStrategy = (strategy: FeedbackStrategy, map: Map<string, string | null>): RebindResult<FeedbackStrategy> => {
+  const overrides = rebindOverrides(strategy.overrides, map);
+  const restored = strategy.restoredLayerIds ? rebindLayerIds(strategy.restoredLayerIds, map) : null;
+  return {
+    value: { ...strategy, overrides: overrides.value, restoredLayerIds: restored?.value },
+    rebound: overrides.rebound + (restored?.rebound ?? 0),
+    unmatched: overrides.unmatched,
+  };
+};
+
+/**
+ * Re-binds the persisted Analyst/Reviewer strategies of the instances a reloaded Load PSD node feeds.
+ * Returns the patched nodes (untouched nodes keep their reference) plus a report.
+ */
+export const rebindGraphOverrides = (
+  nodes: Node<PSDNodeData>[],
+  reach: DownstreamReach,
+  map: Map<string, string | null>
+): { nodes: Node<PSDNodeData>[], report: LayerRebindReport } => {
+  const report: LayerRebindReport = { timestamp: Date.now(), rebound: 0, unmatched: [] };
+
+  const patched = nodes.map(node => {
+    if (!reach.has(node.id)) return node;
+    const { analystInstances, reviewerInstances } = node.data || {};
+    if (!analystInstances && !reviewerInstances) return node;
+
+    let changed = false;
+    const nextData: PSDNodeData = { ...node.data };
+
+    if (analystInstances) {
+      const nextInstances: Record<number, AnalystInstanceState> = { ...analystInstances };
+      Object.entries(analystInstances).forEach(([key, instance]) => {
+        const index = Number(key);
+        if (!instance?.layoutStrategy || !isInstanceReached(reach, node.id, index)) return;
+        const result = rebindLayoutStrategy(instance.layoutStrategy, map);
+        report.rebound += result.rebound;
+        result.unmatched.forEach(u => report.unmatched.push({ ...u, nodeId: node.id, instanceIndex: index, source: 'analyst' }));
+        if (result.rebound > 0) {
+          nextInstances[index] = { ...instance, layoutStrategy: result.value };
+          changed = true;
+        }
+      });
+      nextData.analystInstances = nextInstances;
+    }
+
+    if (reviewerInstances) {
+      const nextInstances: Record<number, ReviewerInstanceState> = { ...reviewerInstances };
+      Object.entries(reviewerInstances).forEach(([key, instance]) => {
+        const index = Number(key);
+        if (!instance || !isInstanceReached(reach, node.id, index)) return;
+        const result = instance.reviewerStrategy ? rebindReviewerStrategy(instance.reviewerStrategy, map) : null;
+        const restored = instance.restoredLayerIds ? rebindLayerIds(instance.restoredLayerIds, map) : null;
+        const rebound = (result?.rebound ?? 0) + (restored?.rebound ?? 0);
+        report.rebound += rebound;
+        result?.unmatched.forEach(u => report.unmatched.push({ ...u, nodeId: node.id, instanceIndex: index, source: 'reviewer' }));
+        if (rebound > 0) {
+          nextInstances[index] = {
+            ...instance,
+            reviewerStrategy: result ? result.value : instance.reviewerStrategy,
+            restoredLayerIds: restored ? restored.value : instance.restoredLayerIds,
+          };
+          changed = true;
+        }
+      });
+      nextData.reviewerInstances = nextInstances;
+    }
+
+    return changed ? { ...node, data: nextData } : node;
+  });
+
+  return { nodes: patched, report };
+};
+
+/**
+ * Re-binds the feedback registry entries of reached Remapper instances (keyed by their 'result-out-N' handle).
+ * Returns only the entries that changed, for re-registration.
+ */
+export const rebindFeedbackRegistry = (
+  registry: FeedbackRegistry,
+  reach: DownstreamReach,
+  map: Map<string, string | null>
+): { nodeId: string, handleId: string, strategy: FeedbackStrategy }[] => {
+  const changed: { nodeId: string, handleId: string, strategy: FeedbackStrategy }[] = [];
+  Object.entries(registry).forEach(([nodeId, handles]) => {
+    Object.entries(handles).forEach(([handleId, strategy]) => {
+      if (!isInstanceReached(reach, nodeId, getHandleIndex(handleId))) return;
+      const result = rebindFeedbackStrategy(strategy, map);
+      if (result.rebound > 0) changed.push({ nodeId, handleId, strategy: result.value });
+    });
+  });
+  return changed;
+};
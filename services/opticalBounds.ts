@@ -0,0 +1,72 @@
+import type { Layer } from 'ag-psd';
+import type { OpticalMetrics } from '../types';
+import type { Rect } from './geometry';
+
+/**
+ * Optical Bounds.
+ * Trimmed-pixel boxes of raster layers (visible pixels without their transparent padding). They are
+ * measured once at load time, in the parse worker or right after a main-thread parse, and carried on
+ * the layers, so optical alignment in the Remapper never scans pixels while it lays out.
+ */
+
+// Layer annotated at load time; the box is in document coordinates
+export type OpticalLayer = Layer & { opticalBounds?: Rect };
+
+/**
+ * Bounding box of the pixels with alpha > 0 in an RGBA buffer, relative to its (0,0).
+ * Returns null for empty or fully transparent buffers.
+ */
+export const scanOpticalBounds = (data: ArrayLike<number>, w: number, h: number): OpticalMetrics | null => {
+  if (w <= 0 || h <= 0) return null;
+
+  let minX = w, minY = h, maxX = 0, maxY = 0, found = false;
+  let nonTransparentPixels = 0;
+
+  // Scan alpha channel (every 4th byte)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (data[(y * w + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+        found = true;
+        nonTransparentPixels++;
+      }
+    }
+  }
+
+  if (!found) return null;
+
+  return {
+    bounds: { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 },
+    visualCenter: { x: minX + (maxX - minX + 1) / 2, y: minY + (maxY - minY + 1) / 2 },
+    pixelDensity: nonTransparentPixels / (w * h)
+  };
+};
+
+/**
+ * Stores the optical box of every raster layer on the layer itself (groups and empty layers are skipped).
+ * Must run while the layer canvases are still readable, i.e. before the worker detaches them.
+ */
+export const annotateOpticalBounds = (layers: Layer[] | undefined): void => {
+  layers?.forEach(layer => {
+    if (layer.children) {
+      annotateOpticalBounds(layer.children);
+      return;
+    }
+    const canvas = layer.canvas;
+    if (!canvas || canvas.width <= 0 || canvas.height <= 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const scan = scanOpticalBounds(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+    if (!scan) return;
+    (layer as OpticalLayer).opticalBounds = {
+      x: (layer.left ?? 0) + scan.bounds.x,
+      y: (layer.top ?? 0) + scan.bounds.y,
+      w: scan.bounds.w,
+      h: scan.bounds.h
+    };
+  });
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Edge, Node } from 'reactflow';
+import { Layer } from 'ag-psd';
+import { PSDNodeData, ProjectExport, TemplateMetadata } from '../types';
+import { extractTemplates } from './psdService';
+import { migrateProjectHandles } from './projectMigration';
+
+const rect = (name: string, left: number, top: number, w: number, h: number): Layer => ({ name, left, top, right: left + w, bottom: top + h });
+
+// Two cards, each with a LOGO sub-slot: the names collide, the ids do not
+const card = (name: string, left: number): Layer => ({
+  name,
+  children: [rect('Frame', left, 0, 400, 400), rect('!!LOGO', left + 20, 20, 80, 40)],
+});
+const [TEMPLATE] = extractTemplates({ width: 1000, height: 400, children: [{ name: '!!TEMPLATE', children: [card('!!SYMBOLS', 0), card('!!CARD', 500)] }] });
+const idOf = (name: string) => TEMPLATE.containers.find(c => c.name === name)!.id;
+
+const node = (id: string, type: string, template: TemplateMetadata | null = null): Node<PSDNodeData> => ({
+  id, type, position: { x: 0, y: 0 }, data: { fileName: null, template, validation: null, designLayers: null },
+});
+const edge = (id: string, source: string, sourceHandle: string | null, target: string, targetHandle: string | null): Edge => ({
+  id, source, sourceHandle, target, targetHandle,
+});
+
+// Saved while splitter and Export handles were keyed by container name
+const OLD_PROJECT: ProjectExport = {
+  version: '1.0.0',
+  timestamp: 0,
+  nodes: [
+    node('load', 'loadPsd', TEMPLATE),
+    node('target', 'targetTemplate', TEMPLATE),
+    node('template-splitter', 'templateSplitter'),
+    node('target-splitter', 'targetSplitter'),
+    node('resolver', 'containerResolver'),
+    node('remapper', 'remapper'),
+    node('reviewer', 'designReviewer'),
+    node('export', 'exportPsd'),
+  ],
+  edges: [
+    edge('e-load', 'load', null, 'template-splitter', null),
+    edge('e-target', 'target', 'target-metadata-out', 'target-splitter', 'template-input'),
+    edge('e-export-template', 'target', 'target-metadata-out', 'export', 'template-input'),
+    edge('e-source', 'template-splitter', 'SYMBOLS', 'resolver', 'target-0'),
+    edge('e-bounds', 'target-splitter', 'slot-bounds-SYMBOLS', 'remapper', 'target-in-0'),
+    edge('e-slot', 'reviewer', 'polished-out-0', 'target-splitter', 'SYMBOLS'),
+    edge('e-export', 'reviewer', 'polished-out-0', 'export', 'input-SYMBOLS'),
+  ],
+  viewport: { x: 0, y: 0, zoom: 1 },
+};
+
+describe('migrateProjectHandles', () => {
+  it('rewrites name-keyed slot handles of an old project to container ids', () => {
+    const edges = migrateProjectHandles(OLD_PROJECT).edges;
+    const byId = (id: string) => edges.find(e => e.id === id)!;
+    const symbols = idOf('SYMBOLS');
+
+    expect(byId('e-source').sourceHandle).toBe(symbols);
+    expect(byId('e-bounds').sourceHandle).toBe(`slot-bounds-${symbols}`);
+    expect(byId('e-slot').targetHandle).toBe(symbols);
+    expect(byId('e-export').targetHandle).toBe(`input-${symbols}`);
+
+    // Handles that are not slots stay as they are
+    expect(byId('e-target')).toBe(OLD_PROJECT.edges[1]);
+    expect(byId('e-bounds').targetHandle).toBe('target-in-0');
+  });
+
+  it('leaves id-keyed projects unchanged', () => {
+    const migrated = migrateProjectHandles(OLD_PROJECT);
+    const logo = TEMPLATE.containers.filter(c => c.name === 'LOGO')[1];
+    const withNested = { ...migrated, edges: [...migrated.edges, edge('e-logo', 'template-splitter', logo.id, 'resolver', 'target-1')] };
+    expect(migrateProjectHandles(withNested).edges).toEqual(withNested.edges);
+  });
+});
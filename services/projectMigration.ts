@@ -0,0 +1,68 @@
+import type { Edge } from 'reactflow';
+import { ProjectExport, TemplateMetadata } from '../types';
+import { findContainerByHandle } from './psdService';
+
+/**
+ * Project Migration.
+ * Splitter and Export slot handles are keyed by container id (names repeat across nesting levels).
+ * Projects saved while they were keyed by name are rewritten on load, since React Flow drops edges
+ * whose handle no longer exists.
+ */
+
+// Handles through which a node receives its template (the Template Splitter's input has no id)
+const TEMPLATE_INPUT_HANDLES = new Set(['template-input', 'input']);
+
+/**
+ * Template a node works on: its own (Load PSD, Target Template), else the one upstream of its
+ * template input (splitters, Export).
+ */
+const getNodeTemplate = (project: ProjectExport, nodeId: string, visited = new Set<string>()): TemplateMetadata | null => {
+  if (visited.has(nodeId)) return null;
+  visited.add(nodeId);
+
+  const node = project.nodes.find(n => n.id === nodeId);
+  if (node?.data?.template) return node.data.template;
+
+  const edge = project.edges.find(e => e.target === nodeId && (!e.targetHandle || TEMPLATE_INPUT_HANDLES.has(e.targetHandle)));
+  return edge ? getNodeTemplate(project, edge.source, visited) : null;
+};
+
+// Rewrites `<prefix><name>` to `<prefix><id>`; handles that already carry an id (or match nothing) are kept
+const migrateHandle = (template: TemplateMetadata | null, handle: string | null | undefined, prefix = ''): string | null | undefined => {
+  if (!template || !handle || !handle.startsWith(prefix)) return handle;
+  const container = findContainerByHandle(template, handle.slice(prefix.length));
+  return container ? `${prefix}${container.id}` : handle;
+};
+
+/**
+ * Rewrites name-keyed slot handles of an older project to container ids:
+ * Template Splitter outputs, Target Splitter slot inputs and `slot-bounds-` outputs, and Export `input-` slots.
+ * Idempotent, so projects saved with id-keyed handles pass through unchanged.
+ */
+export const migrateProjectHandles = (project: ProjectExport): ProjectExport => {
+  const typeOf = (nodeId: string) => project.nodes.find(n => n.id === nodeId)?.type;
+
+  const edges = project.edges.map((edge): Edge => {
+    let { sourceHandle, targetHandle } = edge;
+
+    const sourceType = typeOf(edge.source);
+    if (sourceType === 'templateSplitter') {
+      sourceHandle = migrateHandle(getNodeTemplate(project, edge.source), sourceHandle);
+    } else if (sourceType === 'targetSplitter') {
+      sourceHandle = migrateHandle(getNodeTemplate(project, edge.source), sourceHandle, 'slot-bounds-');
+    }
+
+    const targetType = typeOf(edge.target);
+    if (targetType === 'targetSplitter' && targetHandle !== 'template-input') {
+      targetHandle = migrateHandle(getNodeTemplate(project, edge.target), targetHandle);
+    } else if (targetType === 'exportPsd') {
+      targetHandle = migrateHandle(getNodeTemplate(project, edge.target), targetHandle, 'input-');
+    }
+
+    return sourceHandle === edge.sourceHandle && targetHandle === edge.targetHandle
+      ? edge
+      : { ...edge, sourceHandle, targetHandle };
+  });
+
+  return { ...project, edges };
+};
@@ -0,0 +1,173 @@
+import { readPsd, initializeCanvas, Psd, Layer, ReadOptions } from 'ag-psd';
+import type { PsdParseProgress, PsdWorkerRequest, PsdWorkerResponse } from './psdService';
+import { annotateOpticalBounds } from './opticalBounds';
+
+/**
+ * PSD Parsing Worker.
+ * Runs ag-psd off the main thread so large production files do not freeze the canvas.
+ * Layer pixels are rasterized into OffscreenCanvas and shipped back as transferable ImageBitmaps.
+ */
+
+// Minimal typing for the dedicated worker scope (tsconfig only ships the DOM lib)
+interface WorkerScope {
+  postMessage: (message: PsdWorkerResponse, transfer?: Transferable[]) => void;
+  onmessage: ((event: MessageEvent<PsdWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const emit = (progress: PsdParseProgress) => {
+  scope.postMessage({ type: 'progress', progress });
+};
+
+// ag-psd allocates one ImageData per decoded bitmap (layer pixels, masks, composite); counting them is the
+// only progress signal a synchronous readPsd gives
+let onImageData: (() => void) | null = null;
+
+// ag-psd has no DOM in a worker: route its canvas factory to OffscreenCanvas.
+initializeCanvas(
+  (width: number, height: number) => new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement,
+  (width: number, height: number) => {
+    onImageData?.();
+    return new ImageData(Math.max(1, width), Math.max(1, height));
+  }
+);
+
+/**
+ * Reads the fixed 26-byte PSD file header.
+ * Gives the UI real dimensions before the (slow) layer section is decoded.
+ */
+const readHeader = (buffer: ArrayBuffer): { version: number; width: number; height: number; channels: number; depth: number } => {
+  if (buffer.byteLength < 26) {
+    throw new Error('Out of bounds: file is smaller than a PSD header.');
+  }
+  const view = new DataView(buffer);
+  const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (signature !== '8BPS') {
+    throw new Error('Invalid signature');
+  }
+  return {
+    version: view.getUint16(4),
+    channels: view.getUint16(12),
+    height: view.getUint32(14),
+    width: view.getUint32(18),
+    depth: view.getUint16(22),
+  };
+};
+
+/**
+ * Layer count from the layer info block, found by skipping the length-prefixed sections after the header.
+ * Returns 0 when the file keeps its layers elsewhere (e.g. 16-bit 'Lr16' blocks) or is truncated.
+ */
+const readLayerCount = (buffer: ArrayBuffer, version: number): number => {
+  const view = new DataView(buffer);
+  const isLarge = version === 2; // PSB: 8-byte section lengths
+  const readLength = (offset: number) => isLarge ? Number(view.getBigUint64(offset)) : view.getUint32(offset);
+  try {
+    let offset = 26;
+    offset += 4 + view.getUint32(offset); // Color mode data
+    offset += 4 + view.getUint32(offset); // Image resources
+    if (readLength(offset) === 0) return 0; // Layer and mask information
+    offset += isLarge ? 8 : 4;
+    if (readLength(offset) === 0) return 0; // Layer info
+    offset += isLarge ? 8 : 4;
+    return Math.abs(view.getInt16(offset)); // Negative: first alpha channel holds the merged transparency
+  } catch {
+    return 0;
+  }
+};
+
+const toBitmap = (canvas: unknown): ImageBitmap | undefined => {
+  if (canvas && typeof (canvas as OffscreenCanvas).transferToImageBitmap === 'function') {
+    return (canvas as OffscreenCanvas).transferToImageBitmap();
+  }
+  return undefined;
+};
+
+/**
+ * Swaps every OffscreenCanvas in the tree for an ImageBitmap (structured-clone safe)
+ * and collects them into the transfer list.
+ */
+const detachCanvases = (psd: Psd, transfer: Transferable[]) => {
+  const layers: Layer[] = [];
+  const collect = (nodes: Layer[] | undefined) => {
+    nodes?.forEach(layer => {
+      layers.push(layer);
+      collect(layer.children);
+    });
+  };
+  collect(psd.children);
+
+  const swap = (owner: { canvas?: HTMLCanvasElement }) => {
+    const bitmap = toBitmap(owner.canvas);
+    if (bitmap) {
+      owner.canvas = bitmap as unknown as HTMLCanvasElement;
+      transfer.push(bitmap);
+    } else {
+      delete owner.canvas;
+    }
+  };
+
+  if (psd.canvas) swap(psd);
+
+  layers.forEach((layer, index) => {
+    if (layer.canvas) swap(layer);
+    if (layer.mask?.canvas) swap(layer.mask);
+    if (layer.realMask?.canvas) swap(layer.realMask);
+
+    if (index % 25 === 0) {
+      emit({ stage: 'transfer', percent: 90 + Math.round((index / Math.max(1, layers.length)) * 9), message: `Packing layer ${index + 1} / ${layers.length}` });
+    }
+  });
+};
+
+scope.onmessage = (event: MessageEvent<PsdWorkerRequest>) => {
+  const { buffer, options } = event.data;
+
+  try {
+    // STAGE 1: Header
+    const header = readHeader(buffer);
+    emit({ stage: 'header', percent: 10, message: `${header.width}x${header.height} • ${header.channels}ch • ${header.depth}-bit` });
+
+    // STAGE 2: Layer Records (counted from the file, the records themselves are read with the pixels)
+    const layerCount = readLayerCount(buffer, header.version);
+    emit({ stage: 'layers', percent: 35, message: layerCount ? `${layerCount} layer records` : 'Reading layer records...' });
+
+    // STAGE 3: Single pass over records and image data; progress follows each decoded bitmap
+    const readOptions: ReadOptions = {
+      skipLayerImageData: options.skipLayerImageData ?? false,
+      skipThumbnail: options.skipThumbnail ?? true,
+    };
+    if (!readOptions.skipLayerImageData) {
+      emit({ stage: 'image-data', percent: 40, message: 'Decoding layer pixels...' });
+      let decoded = 0;
+      let lastPercent = 40;
+      onImageData = () => {
+        decoded++;
+        // Masks and the composite also decode bitmaps, so the count may run past the layer total
+        const percent = layerCount ? 40 + Math.round((Math.min(decoded, layerCount) / layerCount) * 49) : lastPercent;
+        if (percent === lastPercent && decoded % 25 !== 0) return;
+        lastPercent = percent;
+        emit({ stage: 'image-data', percent, message: layerCount ? `Decoding layer ${Math.min(decoded, layerCount)} / ${layerCount}` : `Decoded ${decoded} bitmaps` });
+      };
+    }
+    const psd = readPsd(buffer, readOptions);
+    onImageData = null;
+
+    // Optical bounds are measured here, while the pixels are still readable and off the main thread
+    if (!readOptions.skipLayerImageData) {
+      emit({ stage: 'image-data', percent: 89, message: 'Measuring optical bounds...' });
+      annotateOpticalBounds(psd.children);
+    }
+
+    // STAGE 4: Transfer
+    emit({ stage: 'transfer', percent: 90, message: 'Packing layer bitmaps...' });
+    const transfer: Transferable[] = [];
+    detachCanvases(psd, transfer);
+
+    scope.postMessage({ type: 'result', psd }, transfer);
+  } catch (error) {
+    onImageData = null;
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { readPsd, writePsd, Psd, Layer } from 'ag-psd';
+import { initializePsdCanvas, comparePsdComposite, extractTemplates, mapLayersToContainers, getLayerOpticalBounds, parseLayerPriority, findContainerByHandle } from './psdService';
+import { annotateOpticalBounds } from './opticalBounds';
+import { buildCompositorFixtures } from './fixtures/compositorFixtures';
+
+// Skia's 'high' smoothing is a Mitchell cubic that softens edges even at 1:1, where browsers draw
+// unfiltered. The fixtures are never scaled, so bilinear ('low') keeps the draws exact.
+const createNodeCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = createCanvas(width, height);
+  Object.defineProperty(canvas.getContext('2d'), 'imageSmoothingQuality', { get: () => 'low', set: () => {} });
+  return canvas as unknown as HTMLCanvasElement;
+};
+
+// Channel rounding and canvas blend precision stay well below this
+const MAX_MEAN_ERROR = 0.005;
+const MAX_MISMATCH_RATIO = 0;
+
+describe('compositor vs. PSD composite', () => {
+  beforeAll(() => initializePsdCanvas(createNodeCanvas));
+
+  it.each(buildCompositorFixtures(createNodeCanvas).map(f => [f.name, f.psd] as const))('matches the %s fixture', async (_, fixture) => {
+    // Round-trip through the PSD format so the compositor sees what the parser produces
+    const psd = readPsd(writePsd(fixture));
+    const comparison = await comparePsdComposite(psd);
+
+    expect(comparison).not.toBeNull();
+    expect(comparison!.width).toBe(psd.width);
+    expect(comparison!.meanError).toBeLessThanOrEqual(MAX_MEAN_ERROR);
+    expect(comparison!.mismatchRatio).toBeLessThanOrEqual(MAX_MISMATCH_RATIO);
+  });
+});
+
+describe('artboard templates', () => {
+  const rect = (name: string, left: number, top: number, w: number, h: number): Layer => ({ name, left, top, right: left + w, bottom: top + h });
+
+  // Two artboards with the same name; the second sits 2000px to the right
+  const artboard = (left: number, titleOffset: number): Layer => ({
+    name: 'Story',
+    artboard: { rect: { left, top: 0, right: left + 1080, bottom: 1920 } },
+    children: [
+      { name: 'TITLE', children: [rect('Headline', left + titleOffset, 100, 800, 200)] },
+      { name: '!!TEMPLATE', children: [rect('!!TITLE', left + 100, 100, 880, 300)] },
+    ],
+  });
+  const psd: Psd = { width: 4000, height: 1920, children: [artboard(0, 140), artboard(2000, 400)] };
+
+  it('keys templates by position and keeps bounds in document coordinates', () => {
+    const [first, second] = extractTemplates(psd);
+    expect(first.name).toBe(second.name);
+    expect(first.id).not.toBe(second.id);
+    expect(second.origin).toEqual({ x: 2000, y: 0 });
+    expect(second.containers[0].bounds).toEqual({ x: 2100, y: 100, w: 880, h: 300 });
+    expect(second.containers[0].normalized.x).toBeCloseTo(100 / 1080);
+  });
+
+  it('validates each template against its own artboard only', () => {
+    const [first, second] = extractTemplates(psd);
+    expect(mapLayersToContainers(psd, first).issues).toEqual([]);
+    // Second artboard: the headline overflows its slot by 220px (of 800)
+    const issues = mapLayersToContainers(psd, second).issues;
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'PROCEDURAL_VIOLATION', layerName: 'Headline' });
+  });
+
+  it('resolves splitter handles by container id when sub-slot names repeat', () => {
+    const card = (left: number): Layer => ({ name: '!!CARD', children: [rect('!!CARD_FRAME', left, 0, 400, 400), rect('!!LOGO', left + 20, 20, 80, 40)] });
+    const [template] = extractTemplates({ width: 1000, height: 400, children: [{ name: '!!TEMPLATE', children: [card(0), card(500)] }] });
+    const logos = template.containers.filter(c => c.name === 'LOGO');
+    expect(logos).toHaveLength(2);
+    expect(logos[0].id).not.toBe(logos[1].id);
+    expect(findContainerByHandle(template, `slot-bounds-${logos[1].id}`)?.bounds.x).toBe(520);
+    // Name-keyed handles from older projects still resolve
+    expect(findContainerByHandle(template, 'slot-bounds-LOGO')).toBe(logos[0]);
+  });
+});
+
+describe('optical bounds', () => {
+  it('are measured on the layers at load time and indexed by stable ID', () => {
+    // 20x10 layer at (100, 50) with pixels only in its columns 5..14
+    const canvas = createNodeCanvas(20, 10);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#f00';
+    ctx.fillRect(5, 0, 10, 10);
+    const psd: Psd = { width: 200, height: 100, children: [{ name: 'Icon', left: 100, top: 50, right: 120, bottom: 60, canvas }] };
+
+    annotateOpticalBounds(psd.children);
+    // Indexing reads the stored boxes, not the pixels
+    ctx.clearRect(0, 0, 20, 10);
+    expect(Object.values(getLayerOpticalBounds(psd))).toEqual([{ x: 105, y: 50, w: 10, h: 10 }]);
+  });
+});
+
+describe('parseLayerPriority', () => {
+  it('reads the annotation and the underscore suffix', () => {
+    expect(parseLayerPriority('Legal [priority=4]')).toBe(4);
+    expect(parseLayerPriority('Badge [p = 2]')).toBe(2);
+    expect(parseLayerPriority('logo_p1')).toBe(1);
+    expect(parseLayerPriority('badge_P3_v2')).toBe(3);
+    expect(parseLayerPriority('footer_p9')).toBe(5);
+  });
+
+  it('ignores p-tokens that are part of a plain name', () => {
+    expect(parseLayerPriority('Step-P2')).toBeUndefined();
+    expect(parseLayerPriority('photo p1')).toBeUndefined();
+    expect(parseLayerPriority('P3 badge')).toBeUndefined();
+  });
+});
@@ -1,5 +1,9 @@
-import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer } from 'ag-psd';
-import { TemplateMetadata, ContainerDefinition, DesignValidationReport, ValidationIssue, SerializableLayer, ContainerContext, TransformedPayload, TransformedLayer, OpticalMetrics } from '../types';
+import { readPsd, writePsd, initializeCanvas, Psd, ReadOptions, WriteOptions, Layer, BezierKnot, Color, BlendMode, LayerMaskData, LayerEffectsInfo, Units, UnitsValue } from 'ag-psd';
+import { INDEX_PATH_PATTERN, buildLayerIdentityIndex, getSiblingKey, getStableLayerId } from './layerIdentity';
+import { Rect, getOverflowRatio } from './geometry';
+import { OpticalLayer, annotateOpticalBounds, scanOpticalBounds } from './opticalBounds';
+import { AUTO_LEADING_RATIO, TextMeasurer, estimateTextWidth, getTextFont } from './textLayout';
+import { TemplateMetadata, ContainerDefinition, DesignValidationReport, ValidationIssue, SerializableLayer, ContainerContext, TransformedPayload, TransformedLayer, OpticalMetrics, OpticalBoundsMap, ContainerConstraints, SafeAreaInset, SafeAreaInsets, ConstraintAnchor, ConstraintFit, Point, MAX_BOUNDARY_VIOLATION_PERCENT, LAYER_PRIORITY_LOWEST, TextLayerData } from '../types';
 
 // --- Procedural Palette & Theme Logic ---
 
@@ -87,6 +91,24 @@ export const getSemanticThemeObject = (name: string, index: number): PaletteThem
     return theme || CONTAINER_PALETTE[0];
 };
 
+export type PsdParseStage = 'reading' | 'header' | 'layers' | 'image-data' | 'transfer' | 'complete';
+
+export const PSD_PARSE_STAGE_LABELS: Record<PsdParseStage, string> = {
+  'reading': 'Reading File',
+  'header': 'Reading Header',
+  'layers': 'Parsing Layer Records',
+  'image-data': 'Decoding Image Data',
+  'transfer': 'Transferring Bitmaps',
+  'complete': 'Finalizing',
+};
+
+export interface PsdParseProgress {
+  stage: PsdParseStage;
+  /** 0-100, monotonic across stages. */
+  percent: number;
+  message?: string;
+}
+
 export interface PSDParseOptions {
   /**
    * Whether to skip parsing layer image data.
@@ -98,25 +120,106 @@ export interface PSDParseOptions {
    * Defaults to true to save resources.
    */
   skipThumbnail?: boolean;
+  /**
+   * Receives staged progress events (disk read, header, layer records, image data, transfer).
+   */
+  onProgress?: (progress: PsdParseProgress) => void;
+  /**
+   * Aborts the read and terminates the parsing worker. Rejects with an 'AbortError'.
+   */
+  signal?: AbortSignal;
+}
+
+// --- WORKER PROTOCOL ---
+export interface PsdWorkerRequest {
+  buffer: ArrayBuffer;
+  options: Pick<PSDParseOptions, 'skipLayerImageData' | 'skipThumbnail'>;
 }
 
+export type PsdWorkerResponse =
+  | { type: 'progress'; progress: PsdParseProgress }
+  | { type: 'result'; psd: Psd }
+  | { type: 'error'; message: string };
+
+const createAbortError = () => new DOMException('PSD parsing was cancelled.', 'AbortError');
+
 /**
- * Parses a PSD file using ag-psd with enhanced error handling and configuration.
- * @param file The File object to parse.
- * @param options Configuration options for parsing.
- * @returns A Promise resolving to the parsed Psd object.
+ * Maps raw ag-psd failures onto user-facing messages.
  */
-export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): Promise<Psd> => {
-  return new Promise((resolve, reject) => {
-    // Input validation
-    if (!file) {
-      reject(new Error('No file provided for parsing.'));
-      return;
-    }
+const describeParseError = (rawMessage: string): string => {
+  if (rawMessage.includes('Invalid signature') || rawMessage.includes('Signature not found')) {
+    return 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
+  }
+  if (rawMessage.includes('RangeError') || rawMessage.includes('Out of bounds')) {
+    return 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
+  }
+  return `PSD Parsing Error: ${rawMessage}`;
+};
+
+const bitmapToCanvas = (bitmap: ImageBitmap): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+/**
+ * Exposes the ImageBitmaps shipped by the worker as lazily created HTMLCanvasElements.
+ * Downstream nodes (Inspector, Export) rely on `getContext('2d')`, so the Psd contract stays canvas-based,
+ * but a bitmap is only copied into a canvas the first time its layer is actually read.
+ */
+const rehydrateCanvases = (psd: Psd) => {
+  const restore = (owner: { canvas?: HTMLCanvasElement }) => {
+    const value = owner.canvas as unknown;
+    if (typeof ImageBitmap === 'undefined' || !(value instanceof ImageBitmap)) return;
+
+    let canvas: HTMLCanvasElement | undefined;
+    Object.defineProperty(owner, 'canvas', {
+      configurable: true,
+      enumerable: true,
+      get: () => (canvas ??= bitmapToCanvas(value)),
+      set: (next: HTMLCanvasElement | undefined) => {
+        canvas = next;
+      },
+    });
+  };
+
+  restore(psd);
 
+  const walk = (layers: Layer[] | undefined) => {
+    layers?.forEach(layer => {
+      restore(layer);
+      if (layer.mask) restore(layer.mask);
+      if (layer.realMask) restore(layer.realMask);
+      walk(layer.children);
+    });
+  };
+  walk(psd.children);
+};
+
+/**
+ * Reads a File into an ArrayBuffer, reporting disk progress as the 'reading' stage.
+ */
+const readFileBuffer = (file: File, options: PSDParseOptions): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
+    const onAbort = () => {
+      reader.abort();
+      reject(createAbortError());
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.({ stage: 'reading', percent: Math.round((event.loaded / event.total) * 5), message: 'Reading file from disk...' });
+      }
+    };
+
     reader.onload = () => {
+      options.signal?.removeEventListener('abort', onAbort);
       const arrayBuffer = reader.result;
 
       // Ensure we have a valid ArrayBuffer
@@ -130,39 +233,11 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
         return;
       }
 
-      try {
-        // Configure parsing options
-        const readOptions: ReadOptions = {
-          skipLayerImageData: options.skipLayerImageData ?? false,
-          skipThumbnail: options.skipThumbnail ?? true,
-        };
-
-        // Attempt to parse the PSD
-        const psd = readPsd(arrayBuffer, readOptions);
-        resolve(psd);
-
-      } catch (error: any) {
-        console.error("PSD Parsing Logic Error:", error);
-
-        // Distinguish between different types of errors
-        let errorMessage = 'Failed to parse PSD structure.';
-        
-        if (error instanceof Error) {
-          // Check for common ag-psd or format errors
-          if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
-            errorMessage = 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
-          } else if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
-             errorMessage = 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
-          } else {
-             errorMessage = `PSD Parsing Error: ${error.message}`;
-          }
-        }
-
-        reject(new Error(errorMessage));
-      }
+      resolve(arrayBuffer);
     };
 
     reader.onerror = () => {
+      options.signal?.removeEventListener('abort', onAbort);
       const msg = reader.error ? reader.error.message : 'Unknown IO error';
       console.error("FileReader Error:", reader.error);
       reject(new Error(`Failed to read file from disk: ${msg}`));
@@ -173,162 +248,866 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
   });
 };
 
+/**
+ * Fallback for environments without Worker support: parse synchronously on the main thread.
+ */
+const parseOnMainThread = (arrayBuffer: ArrayBuffer, options: PSDParseOptions): Psd => {
+  try {
+    const readOptions: ReadOptions = {
+      skipLayerImageData: options.skipLayerImageData ?? false,
+      skipThumbnail: options.skipThumbnail ?? true,
+    };
+    const psd = readPsd(arrayBuffer, readOptions);
+    annotateOpticalBounds(psd.children);
+    return psd;
+  } catch (error) {
+    console.error("PSD Parsing Logic Error:", error);
+    throw new Error(error instanceof Error ? describeParseError(error.message) : 'Failed to parse PSD structure.');
+  }
+};
+
+/**
+ * Runs ag-psd inside a dedicated worker. The ArrayBuffer is transferred (zero-copy) and
+ * the worker is terminated on completion, failure or cancellation.
+ */
+const parseInWorker = (arrayBuffer: ArrayBuffer, options: PSDParseOptions): Promise<Psd> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./psdParser.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<PsdWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        options.onProgress?.(message.progress);
+        return;
+      }
+
+      cleanup();
+
+      if (message.type === 'error') {
+        console.error("PSD Parsing Logic Error:", message.message);
+        reject(new Error(describeParseError(message.message)));
+        return;
+      }
+
+      rehydrateCanvases(message.psd);
+      options.onProgress?.({ stage: 'complete', percent: 100 });
+      resolve(message.psd);
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      console.error("PSD Worker Error:", event);
+      reject(new Error(`PSD Parsing Error: ${event.message || 'Worker crashed'}`));
+    };
+
+    const request: PsdWorkerRequest = {
+      buffer: arrayBuffer,
+      options: { skipLayerImageData: options.skipLayerImageData, skipThumbnail: options.skipThumbnail }
+    };
+    worker.postMessage(request, [arrayBuffer]);
+  });
+};
+
+/**
+ * Parses a PSD file using ag-psd with enhanced error handling and configuration.
+ * Parsing happens in a Web Worker when available so the React Flow canvas stays responsive.
+ * @param file The File object to parse.
+ * @param options Configuration options for parsing (including progress callback and abort signal).
+ * @returns A Promise resolving to the parsed Psd object.
+ */
+export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): Promise<Psd> => {
+  // Input validation
+  if (!file) {
+    throw new Error('No file provided for parsing.');
+  }
+  if (options.signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const arrayBuffer = await readFileBuffer(file, options);
+
+  if (typeof Worker === 'undefined') {
+    const psd = parseOnMainThread(arrayBuffer, options);
+    options.onProgress?.({ stage: 'complete', percent: 100 });
+    return psd;
+  }
+
+  return parseInWorker(arrayBuffer, options);
+};
+
+/**
+ * Identifies the rejection produced when a parse is cancelled through `PSDParseOptions.signal`.
+ */
+export const isParseAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+const CONSTRAINT_ANCHORS: ConstraintAnchor[] = ['top', 'center', 'bottom', 'left', 'right', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+const CONSTRAINT_FITS: ConstraintFit[] = ['contain', 'cover', 'stretch', 'none'];
+
+const SAFE_AREA_EDGES: (keyof SafeAreaInsets)[] = ['top', 'right', 'bottom', 'left'];
+
+const parseSafeAreaInset = (token: string): SafeAreaInset | null => {
+  const match = token.trim().match(/^(\d+(?:\.\d+)?)\s*(px|%)?$/);
+  if (!match) return null;
+  return { value: parseFloat(match[1]), unit: match[2] === '%' ? '%' : 'px' };
+};
+
+/**
+ * Parses CSS-style inset shorthand ("10%", "80 0", "10% 0 15% 0"; unitless values are px).
+ * Returns undefined when any token is invalid.
+ */
+export const parseSafeAreaInsets = (value: string): SafeAreaInsets | undefined => {
+  const tokens = value.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || tokens.length > 4) return undefined;
+  const parsed = tokens.map(parseSafeAreaInset);
+  if (parsed.some(inset => !inset)) return undefined;
+  const [top, right = top, bottom = top, left = right] = parsed as SafeAreaInset[];
+  return { top, right, bottom, left };
+};
+
+/**
+ * Inverse of parseSafeAreaInsets (always the 4-value form).
+ */
+export const formatSafeAreaInsets = (insets: SafeAreaInsets | undefined): string => {
+  if (!insets) return '';
+  return SAFE_AREA_EDGES.map(edge => {
+    const inset = insets[edge];
+    return inset ? `${inset.value}${inset.unit === '%' ? '%' : ''}` : '0';
+  }).join(' ');
+};
+
+/**
+ * Applies safe-area insets to a container rect. '%' insets resolve against the rect's own size.
+ */
+export const getSafeRect = (
+  bounds: { x: number, y: number, w: number, h: number },
+  insets: SafeAreaInsets
+): { x: number, y: number, w: number, h: number } => {
+  const resolve = (inset: SafeAreaInset | undefined, size: number) => !inset ? 0 : inset.unit === '%' ? size * inset.value / 100 : inset.value;
+  const top = resolve(insets.top, bounds.h);
+  const right = resolve(insets.right, bounds.w);
+  const bottom = resolve(insets.bottom, bounds.h);
+  const left = resolve(insets.left, bounds.w);
+  return {
+    x: bounds.x + left,
+    y: bounds.y + top,
+    w: Math.max(1, bounds.w - left - right),
+    h: Math.max(1, bounds.h - top - bottom)
+  };
+};
+
+/**
+ * Splits a template layer name into its base name and constraint annotation.
+ * Grammar: `NAME[key=value; key=value]` (',' is accepted as a separator too).
+ * Safe areas: `safe=10% 0 15% 0` (CSS shorthand) or per edge `safe-top=120`.
+ * Unknown keys and invalid values are skipped with a warning so a typo never breaks the template.
+ */
+export const parseContainerAnnotation = (rawName: string): { baseName: string, constraints?: ContainerConstraints } => {
+  const match = rawName.match(/^(.*?)\s*\[([^\]]*)\]\s*$/);
+  if (!match) {
+    return { baseName: rawName };
+  }
+
+  const baseName = match[1];
+  const constraints: ContainerConstraints = {};
+
+  match[2].split(/[;,]/).forEach(entry => {
+    const [rawKey, ...rest] = entry.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join('=').trim().toLowerCase();
+    if (!key) return;
+
+    switch (key) {
+      case 'anchor':
+        if ((CONSTRAINT_ANCHORS as string[]).includes(value)) {
+          constraints.anchor = value as ConstraintAnchor;
+          return;
+        }
+        break;
+      case 'fit':
+        if ((CONSTRAINT_FITS as string[]).includes(value)) {
+          constraints.fit = value as ConstraintFit;
+          return;
+        }
+        break;
+      case 'pad': {
+        const pad = parseFloat(value.replace(/px$/, ''));
+        if (Number.isFinite(pad) && pad >= 0) {
+          constraints.pad = pad;
+          return;
+        }
+        break;
+      }
+      case 'priority': {
+        const priority = parseInt(value, 10);
+        if (Number.isFinite(priority)) {
+          constraints.priority = priority;
+          return;
+        }
+        break;
+      }
+      case 'safe': {
+        const safeArea = parseSafeAreaInsets(value);
+        if (safeArea) {
+          constraints.safeArea = { ...constraints.safeArea, ...safeArea };
+          return;
+        }
+        break;
+      }
+      case 'safe-top':
+      case 'safe-right':
+      case 'safe-bottom':
+      case 'safe-left': {
+        const inset = parseSafeAreaInset(value);
+        if (inset) {
+          constraints.safeArea = { ...constraints.safeArea, [key.slice(5)]: inset };
+          return;
+        }
+        break;
+      }
+    }
+    console.warn(`[Template] Ignoring constraint '${entry.trim()}' on '${baseName}'.`);
+  });
+
+  return { baseName, constraints: Object.keys(constraints).length > 0 ? constraints : undefined };
+};
+
+const LAYER_PRIORITY_ANNOTATION = /\[\s*(?:priority|p)\s*=\s*(\d+)\s*\]/i;
+const LAYER_PRIORITY_TOKEN = /_p(\d)(?=$|_)/i; // Underscore-separated only: 'Step-P2' or 'photo p1' are plain names
+
+/**
+ * Reads a design layer's drop priority from its name: the annotation `Legal [priority=4]` / `[p=4]` or the
+ * naming convention suffix `_p<N>` ('logo_p1', 'badge_p3_v2'). Clamped to 1..LAYER_PRIORITY_LOWEST.
+ */
+export const parseLayerPriority = (name: string): number | undefined => {
+  const match = name.match(LAYER_PRIORITY_ANNOTATION) || name.match(LAYER_PRIORITY_TOKEN);
+  if (!match) return undefined;
+  return Math.min(LAYER_PRIORITY_LOWEST, Math.max(1, parseInt(match[1], 10)));
+};
+
+const TEMPLATE_GROUP_PATTERN = /^!!TEMPLATE(?:\s+(.+))?$/;
+
+/**
+ * Builds one TemplateMetadata from a '!!TEMPLATE' group.
+ * Container bounds (and shapes) stay in document coordinates, the space every layer tree uses;
+ * only `normalized` is relative to the artboard, and export shifts by `origin`.
+ */
+const buildTemplateMetadata = (
+  id: string,
+  templateGroup: Layer | undefined,
+  canvasWidth: number,
+  canvasHeight: number,
+  origin: { x: number, y: number },
+  name?: string,
+  artboardIndex?: number
+): TemplateMetadata => {
+  const containers: ContainerDefinition[] = [];
+
+  const buildContainer = (child: Layer, index: number, parent: ContainerDefinition | null): ContainerDefinition => {
+      const bounds = getContainerBounds(child);
+      const polygon = getContainerPolygon(child);
+      
+      const { baseName: rawName, constraints } = parseContainerAnnotation(child.name || 'Untitled');
+      const cleanName = rawName.replace(/^!!/, '');
+      const slug = cleanName.replace(/\s+/g, '_');
+
+      const container: ContainerDefinition = {
+        id: parent ? `${parent.id}.${index}-${slug}` : `container-${index}-${slug}`,
+        name: cleanName,
+        originalName: rawName,
+        bounds,
+        normalized: {
+          x: (bounds.x - origin.x) / canvasWidth,
+          y: (bounds.y - origin.y) / canvasHeight,
+          w: bounds.w / canvasWidth,
+          h: bounds.h / canvasHeight,
+        },
+        parentId: parent?.id,
+        depth: parent ? (parent.depth ?? 0) + 1 : 0,
+        relativeBounds: parent ? {
+          x: bounds.x - parent.bounds.x,
+          y: bounds.y - parent.bounds.y,
+          w: bounds.w,
+          h: bounds.h
+        } : { ...bounds },
+        children: [],
+        constraints,
+        polygon
+      };
+
+      // Pre-order: parent is listed before its sub-slots
+      containers.push(container);
+
+      getSubContainerLayers(child).forEach((subLayer, subIndex) => {
+        container.children!.push(buildContainer(subLayer, subIndex, container));
+      });
+
+      return container;
+  };
+
+  if (templateGroup && templateGroup.children) {
+    // Skip invisible layers if needed, but for now we include all structure
+    templateGroup.children.forEach((child, index) => buildContainer(child, index, null));
+  }
+
+  return {
+    id,
+    name,
+    origin: (origin.x !== 0 || origin.y !== 0) ? origin : undefined,
+    artboardIndex,
+    canvas: {
+      width: canvasWidth,
+      height: canvasHeight
+    },
+    containers
+  };
+};
+
+/**
+ * Extracts every template defined in the document.
+ * Supported layouts:
+ * 1. Photoshop artboards containing a '!!TEMPLATE' group (named after the artboard, canvas = artboard rect).
+ * 2. Top-level '!!TEMPLATE <name>' groups (canvas = document).
+ * A plain '!!TEMPLATE' group is listed first so single-template files behave exactly as before.
+ */
+export const extractTemplates = (psd: Psd): TemplateMetadata[] => {
+  // Default to 1 to avoid division by zero if undefined, though PSDs usually have dims.
+  const docWidth = psd.width || 1;
+  const docHeight = psd.height || 1;
+
+  const templates: TemplateMetadata[] = [];
+
+  psd.children?.forEach((child, index) => {
+    const rect = child.artboard?.rect;
+    if (rect) {
+      const templateGroup = child.children?.find(c => TEMPLATE_GROUP_PATTERN.test(c.name || ''));
+      if (!templateGroup) return;
+      const match = (templateGroup.name || '').match(TEMPLATE_GROUP_PATTERN);
+      templates.push(buildTemplateMetadata(
+        `artboard-${index}`,
+        templateGroup,
+        Math.max(1, rect.right - rect.left),
+        Math.max(1, rect.bottom - rect.top),
+        { x: rect.left, y: rect.top },
+        match?.[1] || child.name || `Artboard ${templates.length + 1}`,
+        index
+      ));
+      return;
+    }
+
+    const match = (child.name || '').match(TEMPLATE_GROUP_PATTERN);
+    if (match) {
+      const template = buildTemplateMetadata(`template-${index}`, child, docWidth, docHeight, { x: 0, y: 0 }, match[1] || 'Default');
+      if (match[1]) templates.push(template);
+      else templates.unshift(template);
+    }
+  });
+
+  return templates;
+};
+
 /**
  * Extracts metadata for the procedural logic engine from the parsed PSD.
  * Looks for a top-level group named '!!TEMPLATE' and extracts its children as containers.
+ * Container groups may nest '!!' prefixed sub-containers (e.g. !!HEADER > !!LOGO, !!TITLE);
+ * these are linked via `children`/`parentId` and also listed in the flat `containers` array.
+ * A bracketed suffix (e.g. `!!SYMBOLS[anchor=bottom; pad=24]`) is parsed into `constraints`.
+ * Multi-template documents (artboards / named templates) resolve to the primary template; see `extractTemplates`.
  */
 export const extractTemplateMetadata = (psd: Psd): TemplateMetadata => {
-  // Default to 1 to avoid division by zero if undefined, though PSDs usually have dims.
-  const canvasWidth = psd.width || 1;
-  const canvasHeight = psd.height || 1;
+  const templates = extractTemplates(psd);
+  if (templates.length > 0) {
+    return templates[0];
+  }
+  return buildTemplateMetadata('template', undefined, psd.width || 1, psd.height || 1, { x: 0, y: 0 });
+};
+
+/**
+ * Inside a container group, only '!!' prefixed children are sub-containers.
+ * Everything else is frame geometry that defines the container's own rect.
+ */
+const getSubContainerLayers = (layer: Layer): Layer[] => {
+  return (layer.children || []).filter(child => (child.name || '').startsWith('!!'));
+};
+
+/**
+ * Resolves a container rect. Pixel/shape layers use their own bounds; groups (which carry no bounds of
+ * their own in ag-psd) use the union of their frame layers, falling back to the union of their sub-containers.
+ */
+const getContainerBounds = (layer: Layer): { x: number, y: number, w: number, h: number } => {
+  const top = layer.top ?? 0;
+  const left = layer.left ?? 0;
+  const bottom = layer.bottom ?? 0;
+  const right = layer.right ?? 0;
+
+  if (!layer.children || layer.children.length === 0 || (right - left > 0 && bottom - top > 0)) {
+    return { x: left, y: top, w: right - left, h: bottom - top };
+  }
+
+  const frameLayers = layer.children.filter(child => !(child.name || '').startsWith('!!'));
+  const sources = frameLayers.length > 0 ? frameLayers : layer.children;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  sources.forEach(child => {
+    const b = getContainerBounds(child);
+    if (b.w <= 0 || b.h <= 0) return;
+    minX = Math.min(minX, b.x);
+    minY = Math.min(minY, b.y);
+    maxX = Math.max(maxX, b.x + b.w);
+    maxY = Math.max(maxY, b.y + b.h);
+  });
+
+  if (minX === Infinity) {
+    return { x: left, y: top, w: right - left, h: bottom - top };
+  }
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+};
+
+// --- CONTAINER GEOMETRY (Vector Shapes) ---
+
+const BEZIER_SEGMENTS = 12;
+
+/**
+ * Flattens a closed bezier path into a polygon.
+ * ag-psd knots are [prevCtrlX, prevCtrlY, anchorX, anchorY, nextCtrlX, nextCtrlY] in document pixels.
+ */
+const flattenBezierPath = (knots: BezierKnot[]): Point[] => {
+  const points: Point[] = [];
+
+  knots.forEach((knot, index) => {
+    const next = knots[(index + 1) % knots.length];
+    const [, , ax, ay, c1x, c1y] = knot.points;
+    const [c2x, c2y, bx, by] = next.points;
+
+    points.push({ x: ax, y: ay });
+
+    // Straight edge: both handles sit on their anchors
+    const isStraight = c1x === ax && c1y === ay && c2x === bx && c2y === by;
+    if (isStraight) return;
+
+    for (let step = 1; step < BEZIER_SEGMENTS; step++) {
+      const t = step / BEZIER_SEGMENTS;
+      const mt = 1 - t;
+      points.push({
+        x: mt * mt * mt * ax + 3 * mt * mt * t * c1x + 3 * mt * t * t * c2x + t * t * t * bx,
+        y: mt * mt * mt * ay + 3 * mt * mt * t * c1y + 3 * mt * t * t * c2y + t * t * t * by,
+      });
+    }
+  });
+
+  return points;
+};
+
+const getPolygonArea = (polygon: Point[]): number => {
+  let area = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    area += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+  }
+  return Math.abs(area / 2);
+};
+
+/**
+ * Reads the container shape from a vector mask (shape layers store their path there).
+ * Groups use the first frame layer carrying a mask. When several closed subpaths exist the largest wins.
+ * Returns undefined for plain rectangles so consumers keep the cheap AABB path.
+ */
+const getContainerPolygon = (layer: Layer): Point[] | undefined => {
+  const vectorMask = layer.vectorMask;
+
+  if (!vectorMask || vectorMask.disable || vectorMask.invert) {
+    const frame = (layer.children || []).find(child => !(child.name || '').startsWith('!!') && child.vectorMask);
+    return frame ? getContainerPolygon(frame) : undefined;
+  }
+
+  let best: Point[] | undefined;
+  vectorMask.paths.forEach(path => {
+    if (path.open || path.knots.length < 3 || path.operation === 'subtract') return;
+    const polygon = flattenBezierPath(path.knots);
+    if (!best || getPolygonArea(polygon) > getPolygonArea(best)) {
+      best = polygon;
+    }
+  });
+
+  if (!best) return undefined;
+
+  // An axis-aligned 4-point path is just the bounding box
+  const isAxisAlignedRect = best.length === 4 && best.every((p, i) => {
+    const q = best![(i + 1) % 4];
+    return p.x === q.x || p.y === q.y;
+  });
+  return isAxisAlignedRect ? undefined : best;
+};
+
+/**
+ * Returns the containers in display order: roots sorted alphabetically, each followed by its
+ * (alphabetically sorted) sub-slots. Used by splitters to render the slot tree.
+ */
+export const getSortedContainerTree = (template: TemplateMetadata): ContainerDefinition[] => {
+  const ordered: ContainerDefinition[] = [];
+  const byParent = new Map<string | undefined, ContainerDefinition[]>();
+
+  template.containers.forEach(c => {
+    const siblings = byParent.get(c.parentId) || [];
+    siblings.push(c);
+    byParent.set(c.parentId, siblings);
+  });
+
+  const visit = (parentId: string | undefined) => {
+    const siblings = [...(byParent.get(parentId) || [])].sort((a, b) => a.name.localeCompare(b.name));
+    siblings.forEach(c => {
+      ordered.push(c);
+      visit(c.id);
+    });
+  };
+  visit(undefined);
+
+  return ordered;
+};
+
+/**
+ * Returns the direct parent of a nested container, or null for root containers.
+ * The parent's rect governs clipping for content remapped into a sub-slot.
+ */
+export const getParentContainer = (template: TemplateMetadata, container: ContainerDefinition): ContainerDefinition | null => {
+  if (!container.parentId) return null;
+  return template.containers.find(c => c.id === container.parentId) || null;
+};
+
+/**
+ * Resolves the container a splitter handle (`<container id>` or `slot-bounds-<container id>`) points at.
+ * Ids are unique across nesting levels, unlike names; bare names are matched too, which is how
+ * `migrateProjectHandles` rewrites the name-keyed handles of older projects on load.
+ */
+export const findContainerByHandle = (template: TemplateMetadata, handle: string): ContainerDefinition | null => {
+  const key = handle.startsWith('slot-bounds-') ? handle.slice('slot-bounds-'.length) : handle;
+  return template.containers.find(c => c.id === key) || template.containers.find(c => c.name === key) || null;
+};
+
+/**
+ * Resolves the area of a container that content may occupy: its own safe-area insets intersected with
+ * those of every ancestor (a sub-slot inside a story's chrome zone is unsafe too). Null when none declare any.
+ */
+export const getContainerSafeRect = (template: TemplateMetadata, container: ContainerDefinition): { x: number, y: number, w: number, h: number } | null => {
+  let safe: { x: number, y: number, w: number, h: number } | null = null;
+  for (let current: ContainerDefinition | null = container; current; current = getParentContainer(template, current)) {
+    if (!current.constraints?.safeArea) continue;
+    const rect = getSafeRect(current.bounds, current.constraints.safeArea);
+    const base = safe || container.bounds;
+    const x = Math.max(base.x, rect.x);
+    const y = Math.max(base.y, rect.y);
+    safe = {
+      x,
+      y,
+      w: Math.max(1, Math.min(base.x + base.w, rect.x + rect.w) - x),
+      h: Math.max(1, Math.min(base.y + base.h, rect.y + rect.h) - y)
+    };
+  }
+  return safe;
+};
+
+/**
+ * Expresses a resolved safe rect as px insets of `bounds` (proxy templates flatten inherited safe areas this way).
+ */
+export const getSafeAreaInsetsFromRect = (
+  bounds: { x: number, y: number, w: number, h: number },
+  safeRect: { x: number, y: number, w: number, h: number }
+): SafeAreaInsets => ({
+  top: { value: safeRect.y - bounds.y, unit: 'px' },
+  right: { value: (bounds.x + bounds.w) - (safeRect.x + safeRect.w), unit: 'px' },
+  bottom: { value: (bounds.y + bounds.h) - (safeRect.y + safeRect.h), unit: 'px' },
+  left: { value: safeRect.x - bounds.x, unit: 'px' }
+});
+
+/**
+ * Creates a scoped ContainerContext object for a specific container.
+ * Used by downstream nodes to get context from the TemplateSplitterNode.
+ */
+export const createContainerContext = (template: TemplateMetadata, handle: string): ContainerContext | null => {
+  const container = findContainerByHandle(template, handle);
+  
+  if (!container) {
+    return null;
+  }
+
+  return {
+    containerName: container.name,
+    bounds: container.bounds,
+    canvasDimensions: {
+      w: template.canvas.width,
+      h: template.canvas.height
+    }
+  };
+};
+
+const hasPopulatedContent = (layer: Layer): boolean => {
+  return (layer.children || []).some(child => child.children ? hasPopulatedContent(child) : true);
+};
+
+/**
+ * Validates 'Design' layers against the 'Template' containers.
+ * Design groups (e.g. SYMBOLS) are matched to containers of the same name (e.g. !!SYMBOLS), searching the
+ * whole document breadth-first so nested slots resolve too. Every descendant of a matched group is checked:
+ * - error:   layer area outside its container exceeds MAX_BOUNDARY_VIOLATION_PERCENT
+ * - warning: hidden groups with content, zero-size layers, containers without a design group,
+ *            case-insensitive matches, overlapping sibling containers
+ * - info:    bleed within tolerance, design groups without a container
+ * The report is valid when no 'error' issues are present.
+ */
+export const mapLayersToContainers = (psd: Psd, template: TemplateMetadata): DesignValidationReport => {
+  const issues: ValidationIssue[] = [];
+
+  // Design roots: the template's own artboard, otherwise top-level layers (artboards contribute their children),
+  // minus template groups
+  const designRoots: Layer[] = [];
+  psd.children?.forEach((child, index) => {
+    if (TEMPLATE_GROUP_PATTERN.test(child.name || '')) return;
+    if (template.artboardIndex !== undefined && index !== template.artboardIndex) return;
+    if (child.artboard) {
+      (child.children || []).forEach(c => {
+        if (!TEMPLATE_GROUP_PATTERN.test(c.name || '')) designRoots.push(c);
+      });
+      return;
+    }
+    designRoots.push(child);
+  });
+
+  const findGroup = (name: string, caseSensitive: boolean): { layer: Layer, path: string[] } | null => {
+    const queue: { layer: Layer, path: string[] }[] = designRoots.map(layer => ({ layer, path: [layer.name || 'Untitled'] }));
+    while (queue.length > 0) {
+      const entry = queue.shift()!;
+      const layerName = entry.layer.name || '';
+      const isMatch = caseSensitive ? layerName === name : layerName.toLowerCase() === name.toLowerCase();
+      if (isMatch && entry.layer.children) return entry;
+      entry.layer.children?.forEach(child => queue.push({ layer: child, path: [...entry.path, child.name || 'Untitled'] }));
+    }
+    return null;
+  };
+
+  const validateDescendants = (layers: Layer[], container: ContainerDefinition, parentPath: string[]) => {
+    layers.forEach(layer => {
+      const layerName = layer.name || 'Untitled Layer';
+      const path = [...parentPath, layerName];
+      const layerPath = path.join(' / ');
+
+      if (layer.children) {
+        if (layer.hidden) {
+          if (hasPopulatedContent(layer)) {
+            issues.push({
+              layerName, containerName: container.name, type: 'HIDDEN_POPULATED_GROUP', severity: 'warning', layerPath,
+              message: `Hidden group '${layerName}' contains layers that will not be rendered.`
+            });
+          }
+          return;
+        }
+        validateDescendants(layer.children, container, path);
+        return;
+      }
+
+      // Hidden leaves never render; no geometry checks
+      if (layer.hidden) return;
+
+      if (typeof layer.top !== 'number' || typeof layer.left !== 'number' ||
+          typeof layer.bottom !== 'number' || typeof layer.right !== 'number') {
+        return;
+      }
+
+      const rect = { x: layer.left, y: layer.top, w: layer.right - layer.left, h: layer.bottom - layer.top };
+
+      if (rect.w <= 0 || rect.h <= 0) {
+        issues.push({
+          layerName, containerName: container.name, type: 'ZERO_SIZE_LAYER', severity: 'warning', layerPath,
+          message: `Layer '${layerName}' has no visible area (${rect.w}x${rect.h}).`
+        });
+        return;
+      }
+
+      const overflow = getOverflowRatio(rect, container.bounds, container.polygon);
+      if (overflow > MAX_BOUNDARY_VIOLATION_PERCENT) {
+        issues.push({
+          layerName, containerName: container.name, type: 'PROCEDURAL_VIOLATION', severity: 'error', layerPath,
+          message: `Layer '${layerName}' extends ${Math.round(overflow * 100)}% outside '${container.name}' ${container.polygon ? 'shape' : 'container'}.`
+        });
+      } else if (overflow > 0) {
+        issues.push({
+          layerName, containerName: container.name, type: 'BOUNDARY_TOLERANCE', severity: 'info', layerPath,
+          message: `Layer '${layerName}' bleeds ${(overflow * 100).toFixed(1)}% outside '${container.name}' (within tolerance).`
+        });
+      }
+    });
+  };
+
+  // 1. Containers -> Design Groups
+  const matchedGroups = new Set<Layer>();
+  template.containers.forEach(container => {
+    let match = findGroup(container.name, true);
+    if (!match) {
+      match = findGroup(container.name, false);
+      if (match) {
+        issues.push({
+          layerName: match.layer.name || '', containerName: container.name, type: 'CASE_MISMATCH', severity: 'warning', layerPath: match.path.join(' / '),
+          message: `Group '${match.layer.name}' only matches container '${container.name}' case-insensitively.`
+        });
+      }
+    }
+
+    if (!match) {
+      issues.push({
+        layerName: '', containerName: container.name, type: 'MISSING_DESIGN_GROUP', severity: 'warning',
+        message: `Container '${container.name}' has no matching design group.`
+      });
+      return;
+    }
+
+    matchedGroups.add(match.layer);
+    validateDescendants(match.layer.children || [], container, match.path);
+  });
+
+  // 2. Design Groups -> Containers
+  designRoots.forEach(layer => {
+    if (!layer.children || matchedGroups.has(layer)) return;
+    const layerName = layer.name || 'Untitled';
+    issues.push({
+      layerName, containerName: '', type: 'ORPHAN_DESIGN_GROUP', severity: 'info', layerPath: layerName,
+      message: `Design group '${layerName}' has no matching template container.`
+    });
+  });
+
+  // 3. Sibling Container Overlaps
+  const siblingsByParent = new Map<string | undefined, ContainerDefinition[]>();
+  template.containers.forEach(c => siblingsByParent.set(c.parentId, [...(siblingsByParent.get(c.parentId) || []), c]));
+  siblingsByParent.forEach(siblings => {
+    for (let i = 0; i < siblings.length; i++) {
+      for (let j = i + 1; j < siblings.length; j++) {
+        const a = siblings[i].bounds;
+        const b = siblings[j].bounds;
+        const overlapW = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+        const overlapH = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+        if (overlapW > 0 && overlapH > 0) {
+          issues.push({
+            layerName: '', containerName: siblings[i].name, type: 'CONTAINER_OVERLAP', severity: 'warning',
+            message: `Containers '${siblings[i].name}' and '${siblings[j].name}' overlap (${Math.round(overlapW)}x${Math.round(overlapH)}px).`
+          });
+        }
+      }
+    }
+  });
+
+  return {
+    isValid: !issues.some(issue => issue.severity === 'error'),
+    issues
+  };
+};
 
-  const containers: ContainerDefinition[] = [];
+// --- TEXT LAYERS ---
 
-  // Find the !!TEMPLATE group
-  const templateGroup = psd.children?.find(child => child.name === '!!TEMPLATE');
+const colorToCss = (color: Color | undefined): string | undefined => {
+  if (!color) return undefined;
+  if ('r' in color) return `rgb(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)})`;
+  if ('fr' in color) return `rgb(${Math.round(color.fr * 255)}, ${Math.round(color.fg * 255)}, ${Math.round(color.fb * 255)})`;
+  return undefined;
+};
 
-  if (templateGroup && templateGroup.children) {
-    templateGroup.children.forEach((child, index) => {
-      // Skip invisible layers if needed, but for now we include all structure
-      
-      const top = child.top ?? 0;
-      const left = child.left ?? 0;
-      const bottom = child.bottom ?? 0;
-      const right = child.right ?? 0;
-      
-      const width = right - left;
-      const height = bottom - top;
-      
-      const rawName = child.name || 'Untitled';
-      const cleanName = rawName.replace(/^!!/, '');
+/**
+ * Extracts the editable text description of an ag-psd text layer.
+ * Sizes are converted to effective pixels by folding in the layer transform's vertical scale.
+ */
+export const extractTextLayerData = (layer: Layer): TextLayerData | undefined => {
+  const text = layer.text;
+  if (!text) return undefined;
 
-      containers.push({
-        id: `container-${index}-${cleanName.replace(/\s+/g, '_')}`,
-        name: cleanName,
-        originalName: rawName,
-        bounds: {
-          x: left,
-          y: top,
-          w: width,
-          h: height
-        },
-        normalized: {
-          x: left / canvasWidth,
-          y: top / canvasHeight,
-          w: width / canvasWidth,
-          h: height / canvasHeight,
-        }
-      });
-    });
-  }
+  const style = text.style || text.styleRuns?.[0]?.style || {};
+  const transformScale = Math.abs(text.transform?.[3] ?? 1) || 1;
+  const fontSize = (style.fontSize ?? 12) * transformScale;
+  const justification = text.paragraphStyle?.justification || text.paragraphStyleRuns?.[0]?.style?.justification;
 
   return {
-    canvas: {
-      width: canvasWidth,
-      height: canvasHeight
-    },
-    containers
+    text: text.text,
+    fontName: style.font?.name,
+    fontSize,
+    leading: style.autoLeading === false && style.leading ? style.leading * transformScale : undefined,
+    justification: justification?.startsWith('justify') ? 'justify' : (justification as TextLayerData['justification']) || 'left',
+    color: colorToCss(style.fillColor),
+    shapeType: text.shapeType,
   };
 };
 
+let textMeasureContext: CanvasRenderingContext2D | null = null;
+
 /**
- * Creates a scoped ContainerContext object for a specific container.
- * Used by downstream nodes to get context from the TemplateSplitterNode.
+ * Canvas-backed TextMeasurer (real font metrics). Falls back to the DOM-free estimate without a canvas.
  */
-export const createContainerContext = (template: TemplateMetadata, containerName: string): ContainerContext | null => {
-  const container = template.containers.find(c => c.name === containerName);
-  
-  if (!container) {
-    return null;
+export const measureTextWidth: TextMeasurer = (text, font) => {
+  if (!textMeasureContext && typeof document !== 'undefined') {
+    textMeasureContext = document.createElement('canvas').getContext('2d');
   }
-
-  return {
-    containerName: container.name,
-    bounds: container.bounds,
-    canvasDimensions: {
-      w: template.canvas.width,
-      h: template.canvas.height
-    }
-  };
+  if (!textMeasureContext) return estimateTextWidth(text, font);
+  textMeasureContext.font = font;
+  return textMeasureContext.measureText(text).width;
 };
 
 /**
- * Validates 'Design' layers against the 'Template' containers.
- * Design groups (e.g. SYMBOLS) are checked against containers of the same name (e.g. !!SYMBOLS).
- * Any layer within a design group must be fully contained within the container bounds.
+ * Renders text into a box using canvas text APIs (used by the compositor and the exporter's raster preview).
  */
-export const mapLayersToContainers = (psd: Psd, template: TemplateMetadata): DesignValidationReport => {
-  const issues: ValidationIssue[] = [];
-  const containerMap = new Map<string, ContainerDefinition>();
-  
-  // Index containers by name (e.g. "SYMBOLS" derived from "!!SYMBOLS")
-  template.containers.forEach(c => {
-    containerMap.set(c.name, c);
-  });
+export const drawTextLayer = (ctx: CanvasRenderingContext2D, text: TextLayerData, x: number, y: number, w: number) => {
+  const lineHeight = text.leading ?? text.fontSize * AUTO_LEADING_RATIO;
+  const lines = text.lines ?? text.text.split(/\r\n|\r|\n/);
+
+  ctx.font = getTextFont(text);
+  ctx.fillStyle = text.color || '#ffffff';
+  ctx.textBaseline = 'top';
+
+  let anchorX = x;
+  if (text.justification === 'center') {
+    ctx.textAlign = 'center';
+    anchorX = x + w / 2;
+  } else if (text.justification === 'right') {
+    ctx.textAlign = 'right';
+    anchorX = x + w;
+  } else {
+    ctx.textAlign = 'left';
+  }
 
-  psd.children?.forEach(group => {
-    // Skip the template group itself
-    if (group.name === '!!TEMPLATE') return;
-    
-    // Check if this group name matches a known container
-    if (group.name && containerMap.has(group.name)) {
-        const container = containerMap.get(group.name)!;
-        
-        // Validate children of this design group
-        group.children?.forEach(layer => {
-            // Check if layer has valid coordinates
-            if (typeof layer.top === 'number' && typeof layer.left === 'number' && 
-                typeof layer.bottom === 'number' && typeof layer.right === 'number') {
-                
-                // Calculate container boundaries
-                const containerRight = container.bounds.x + container.bounds.w;
-                const containerBottom = container.bounds.y + container.bounds.h;
-                
-                // Check if layer exceeds container bounds
-                const isViolation = 
-                    layer.left < container.bounds.x ||
-                    layer.top < container.bounds.y ||
-                    layer.right > containerRight ||
-                    layer.bottom > containerBottom;
-                    
-                if (isViolation) {
-                    issues.push({
-                        layerName: layer.name || 'Untitled Layer',
-                        containerName: container.name,
-                        type: 'PROCEDURAL_VIOLATION',
-                        message: `Layer '${layer.name}' extends outside '${container.name}' container.`
-                    });
-                }
-            }
-        });
-    }
+  lines.forEach((line, i) => {
+    ctx.fillText(line, anchorX, y + i * lineHeight + (lineHeight - text.fontSize) / 2);
   });
-
-  return {
-    isValid: issues.length === 0,
-    issues
-  };
 };
 
 /**
  * Recursively maps ag-psd Layers to a simplified SerializableLayer structure.
- * USES DETERMINISTIC PATH IDs for reconstruction.
+ * USES STABLE IDs (Photoshop layer id, falling back to a name-path fingerprint) so saved overrides
+ * survive layers being inserted or reordered. The index path is kept on `path` for diagnostics.
  * @param layers The array of layers to process.
  * @param path The current hierarchy path (e.g., "0.1").
+ * @param namePath Sibling-disambiguated names of the ancestors (fingerprint input).
  * @returns An array of lightweight SerializableLayer objects.
  */
-export const getCleanLayerTree = (layers: Layer[], path: string = ''): SerializableLayer[] => {
+export const getCleanLayerTree = (layers: Layer[], path: string = '', namePath: string[] = []): SerializableLayer[] => {
   const nodes: SerializableLayer[] = [];
+  const siblingNames = layers.map((child, index) => child.name || `Layer ${index}`);
   
   layers.forEach((child, index) => {
-    // Explicitly filter out the !!TEMPLATE group
-    if (child.name === '!!TEMPLATE') {
+    // Explicitly filter out the !!TEMPLATE group(s)
+    if (TEMPLATE_GROUP_PATTERN.test(child.name || '')) {
       return;
     }
 
     // Construct deterministic path: "parentIndex.childIndex"
     // Use the index within the full layers array from ag-psd
     const currentPath = path ? `${path}.${index}` : `${index}`;
+    const currentNamePath = [...namePath, getSiblingKey(siblingNames[index], siblingNames, index)];
 
     const top = child.top ?? 0;
     const left = child.left ?? 0;
@@ -338,23 +1117,21 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
     const width = right - left;
     const height = bottom - top;
     
-    // SAFETY FLOOR OPACITY MAPPING:
-    // ag-psd provides 0-255. Some files report 0 or 1 for 100%.
-    // We implement a safety floor where <= 1 is treated as 100% (1.0).
-    const rawOpacity = child.opacity ?? 255;
-    let normalizedOpacity = rawOpacity <= 1 ? 1.0 : rawOpacity / 255;
-
-    // Clamp to ensure float safety
-    normalizedOpacity = Math.max(0, Math.min(1, normalizedOpacity));
+    // OPACITY MAPPING: ag-psd already normalizes layer opacity to 0..1
+    const rawOpacity = child.opacity ?? 1;
+    const normalizedOpacity = Math.max(0, Math.min(1, rawOpacity));
 
     const node: SerializableLayer = {
-      id: currentPath,
-      name: child.name || `Layer ${index}`,
+      id: getStableLayerId(child, currentNamePath),
+      path: currentPath,
+      name: siblingNames[index],
       // Strict Check: child.children must be an array (even if empty) to be a group.
       // This ensures empty folders are typed as 'group', so recursive counting sees 0 leaves.
       type: (child.children && Array.isArray(child.children)) ? 'group' : 'layer',
       isVisible: !child.hidden,
       opacity: normalizedOpacity, 
+      text: extractTextLayerData(child),
+      priority: parseLayerPriority(siblingNames[index]),
       coords: {
         x: left,
         y: top,
@@ -362,7 +1139,7 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
         h: height
       },
       // Recursion
-      children: child.children ? getCleanLayerTree(child.children, currentPath) : undefined
+      children: child.children ? getCleanLayerTree(child.children, currentPath, currentNamePath) : undefined
     };
     
     nodes.push(node);
@@ -371,16 +1148,30 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
   return nodes;
 };
 
+// Stable ID -> Layer lookup, built lazily once per parsed document
+const layerIdentityCache = new WeakMap<Psd, Map<string, Layer>>();
+
 /**
- * Finds a heavy `ag-psd` Layer object in the raw PSD structure using a deterministic path ID.
- * The path ID (e.g., "0.3.1") corresponds to the indices in the `children` arrays.
+ * Finds a heavy `ag-psd` Layer object in the raw PSD structure.
+ * Accepts stable IDs ('lyr-…' / 'fp-…') as well as legacy index paths (e.g., "0.3.1")
+ * which correspond to the indices in the `children` arrays.
  * 
  * @param psd The raw parsed PSD object.
- * @param pathId The dot-separated index path (e.g., "0.3.1").
+ * @param pathId The stable layer ID or dot-separated index path.
  * @returns The matching Layer object or null if not found.
  */
 export const findLayerByPath = (psd: Psd, pathId: string): Layer | null => {
   if (!pathId) return null;
+
+  if (!INDEX_PATH_PATTERN.test(pathId)) {
+    let index = layerIdentityCache.get(psd);
+    if (!index) {
+      index = buildLayerIdentityIndex(psd.children);
+      layerIdentityCache.set(psd, index);
+    }
+    return index.get(pathId) || null;
+  }
+
   const indices = pathId.split('.').map(Number);
   
   let currentLayers = psd.children;
@@ -397,49 +1188,414 @@ export const findLayerByPath = (psd: Psd, pathId: string): Layer | null => {
   return targetLayer || null;
 };
 
+// --- COMPOSITOR ---
+
 /**
- * Composites a visual representation of the TransformedPayload using the original PSD binary data.
- * Uses a robust Recursive Painter's Algorithm in a "Clean Room" canvas environment.
- * Includes EXHAUSTIVE DIAGNOSTIC LOGGING to debug faint rendering issues.
- * 
- * @param payload The transformed geometry and logic instructions.
- * @param psd The original binary source providing pixel data.
- * @returns A Promise resolving to a high-quality Data URL (image/png).
+ * Photoshop blend mode -> canvas composite operation.
+ * Modes without a canvas equivalent fall back to the closest visual approximation.
  */
-export const compositePayloadToCanvas = async (payload: TransformedPayload, psd: Psd): Promise<string | null> => {
-    if (!payload || !psd) return null;
+const BLEND_MODE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+    'pass through': 'source-over',
+    'normal': 'source-over',
+    'dissolve': 'source-over',
+    'darken': 'darken',
+    'multiply': 'multiply',
+    'color burn': 'color-burn',
+    'linear burn': 'multiply', // approximation
+    'darker color': 'darken', // approximation
+    'lighten': 'lighten',
+    'screen': 'screen',
+    'color dodge': 'color-dodge',
+    'linear dodge': 'lighter',
+    'lighter color': 'lighten', // approximation
+    'overlay': 'overlay',
+    'soft light': 'soft-light',
+    'hard light': 'hard-light',
+    'vivid light': 'hard-light', // approximation
+    'linear light': 'hard-light', // approximation
+    'pin light': 'hard-light', // approximation
+    'hard mix': 'hard-light', // approximation
+    'difference': 'difference',
+    'exclusion': 'exclusion',
+    'subtract': 'difference', // approximation
+    'divide': 'color-dodge', // approximation
+    'hue': 'hue',
+    'saturation': 'saturation',
+    'color': 'color',
+    'luminosity': 'luminosity',
+};
+
+export const getCompositeOperation = (blendMode?: BlendMode): GlobalCompositeOperation => {
+    return (blendMode && BLEND_MODE_OPERATIONS[blendMode]) || 'source-over';
+};
+
+const clampUnit = (value: number | undefined, fallback: number = 1): number => {
+    return typeof value === 'number' && !isNaN(value) ? Math.max(0, Math.min(1, value)) : fallback;
+};
+
+type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+let createCanvas: CanvasFactory = (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+/**
+ * Plugs a canvas implementation into ag-psd and the compositor for environments without a DOM
+ * (the compositor fixture tests pass @napi-rs/canvas).
+ */
+export const initializePsdCanvas = (factory: CanvasFactory) => {
+    createCanvas = factory;
+    initializeCanvas(factory);
+};
+
+const createScratchCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = createCanvas(1, 1);
+    canvas.width = Math.max(1, Math.ceil(width));
+    canvas.height = Math.max(1, Math.ceil(height));
+    return canvas;
+};
+
+// ag-psd decodes masks as opaque grayscale (r = g = b = mask value); canvas masking needs it in alpha
+const alphaMaskCache = new WeakMap<HTMLCanvasElement, HTMLCanvasElement>();
+
+const getAlphaMask = (source: HTMLCanvasElement): HTMLCanvasElement | null => {
+    const cached = alphaMaskCache.get(source);
+    if (cached) return cached;
+
+    const mask = createScratchCanvas(source.width, source.height);
+    const ctx = mask.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(source, 0, 0);
+    const imageData = ctx.getImageData(0, 0, mask.width, mask.height);
+    const pixels = imageData.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+        pixels[i + 3] = pixels[i];
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = 0;
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    alphaMaskCache.set(source, mask);
+    return mask;
+};
+
+const getRawLayerExtent = (layer: Layer): Rect | null => {
+    if (layer.children) {
+        const extents = layer.children.map(getRawLayerExtent).filter((r): r is Rect => !!r);
+        return extents.length ? unionRects(extents) : null;
+    }
+    const w = (layer.right ?? 0) - (layer.left ?? 0);
+    const h = (layer.bottom ?? 0) - (layer.top ?? 0);
+    return w > 0 && h > 0 ? { x: layer.left ?? 0, y: layer.top ?? 0, w, h } : null;
+};
+
+const getTransformedLayerExtent = (layer: TransformedLayer): Rect | null => {
+    if (layer.children) {
+        const extents = layer.children.map(getTransformedLayerExtent).filter((r): r is Rect => !!r);
+        return extents.length ? unionRects(extents) : null;
+    }
+    return layer.coords.w > 0 && layer.coords.h > 0 ? layer.coords : null;
+};
+
+const unionRects = (rects: Rect[]): Rect => {
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.w));
+    const maxY = Math.max(...rects.map(r => r.y + r.h));
+    return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+};
+
+/**
+ * Maps source document coordinates onto the local compositor canvas, following the layer's remap.
+ * Groups carry no bounds in ag-psd, so their mapping is derived from the union of their leaves.
+ */
+interface LayerPlacement {
+    mapX: (x: number) => number;
+    mapY: (y: number) => number;
+    scaleX: number;
+    scaleY: number;
+}
+
+const getLayerPlacement = (layer: TransformedLayer, raw: Layer, originX: number, originY: number): LayerPlacement => {
+    const source = getRawLayerExtent(raw);
+    const target = getTransformedLayerExtent(layer);
+
+    if (!source || !target) {
+        return { mapX: x => x - originX, mapY: y => y - originY, scaleX: 1, scaleY: 1 };
+    }
+
+    const scaleX = target.w / source.w;
+    const scaleY = target.h / source.h;
+    return {
+        mapX: x => target.x - originX + (x - source.x) * scaleX,
+        mapY: y => target.y - originY + (y - source.y) * scaleY,
+        scaleX,
+        scaleY,
+    };
+};
+
+const getPixelMasks = (raw: Layer): LayerMaskData[] => {
+    // `mask` holds the rasterized vector mask when both kinds exist; the vector path is applied separately
+    return [raw.mask, raw.realMask].filter((mask): mask is LayerMaskData => !!mask && !!mask.canvas && !mask.disabled && !mask.fromVectorData);
+};
+
+const hasActiveMask = (raw: Layer | null): boolean => {
+    if (!raw) return false;
+    const hasVectorMask = !!raw.vectorMask && !raw.vectorMask.disable && raw.vectorMask.paths.length > 0;
+    return hasVectorMask || getPixelMasks(raw).length > 0;
+};
+
+/**
+ * Multiplies the layer's pixel and vector masks into an isolated layer canvas.
+ */
+const applyLayerMasks = (content: HTMLCanvasElement, raw: Layer, placement: LayerPlacement) => {
+    const ctx = content.getContext('2d');
+    if (!ctx) return;
+
+    getPixelMasks(raw).forEach(mask => {
+        const alphaMask = getAlphaMask(mask.canvas!);
+        if (!alphaMask) return;
+
+        const maskCanvas = createScratchCanvas(content.width, content.height);
+        const maskCtx = maskCanvas.getContext('2d')!;
+        const x = placement.mapX(mask.left ?? 0);
+        const y = placement.mapY(mask.top ?? 0);
+        const w = ((mask.right ?? 0) - (mask.left ?? 0)) * placement.scaleX;
+        const h = ((mask.bottom ?? 0) - (mask.top ?? 0)) * placement.scaleY;
+
+        // Outside its rect the mask extends its default color (0 = hide, 255 = reveal)
+        maskCtx.fillStyle = `rgba(0, 0, 0, ${clampUnit((mask.defaultColor ?? 0) / 255, 0)})`;
+        maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
+        maskCtx.clearRect(x, y, w, h);
+        maskCtx.drawImage(alphaMask, x, y, w, h);
+
+        ctx.save();
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(maskCanvas, 0, 0);
+        ctx.restore();
+    });
+
+    const vectorMask = raw.vectorMask;
+    if (vectorMask && !vectorMask.disable) {
+        const closedPaths = vectorMask.paths.filter(path => !path.open && path.knots.length >= 3);
+        if (closedPaths.length === 0) return;
+
+        ctx.save();
+        ctx.beginPath();
+        closedPaths.forEach(path => {
+            // Path operations (subtract / intersect) are approximated with the even-odd rule
+            flattenBezierPath(path.knots).forEach((p, i) => {
+                const px = placement.mapX(p.x);
+                const py = placement.mapY(p.y);
+                if (i === 0) ctx.moveTo(px, py);
+                else ctx.lineTo(px, py);
+            });
+            ctx.closePath();
+        });
+        ctx.globalCompositeOperation = vectorMask.invert ? 'destination-out' : 'destination-in';
+        ctx.fillStyle = '#000';
+        ctx.fill('evenodd');
+        ctx.restore();
+    }
+};
+
+// --- LAYER EFFECTS ---
+
+// Length units that follow the layer's geometry (Percent-like values such as choke stay as-is)
+const SCALABLE_EFFECT_UNITS = new Set<Units>(['Pixels', 'Points', 'Picas', 'Millimeters', 'Centimeters', 'Inches']);
+
+const scaleUnitsValue = (value: UnitsValue | undefined, scale: number): UnitsValue | undefined => {
+    return value && SCALABLE_EFFECT_UNITS.has(value.units) ? { ...value, value: value.value * scale } : value;
+};
+
+/**
+ * Uniform scale used for layer effects. Non-uniform remaps (STRETCH) use the geometric mean of both axes.
+ */
+export const getEffectScale = (transform: { scaleX: number, scaleY: number } | undefined): number => {
+    if (!transform) return 1;
+    const scale = Math.sqrt(Math.abs(transform.scaleX * transform.scaleY));
+    return isFinite(scale) && scale > 0 ? scale : 1;
+};
+
+/**
+ * Returns a copy of the effects with every pixel-based parameter (distance, size, stroke width,
+ * bevel depth, soften, pattern scale) multiplied by `scale` — Photoshop's "Scale Layer Effects".
+ */
+export const scaleLayerEffects = (effects: LayerEffectsInfo, scale: number): LayerEffectsInfo => {
+    if (scale === 1) return effects;
+
+    return {
+        ...effects,
+        dropShadow: effects.dropShadow?.map(shadow => ({ ...shadow, size: scaleUnitsValue(shadow.size, scale), distance: scaleUnitsValue(shadow.distance, scale), choke: scaleUnitsValue(shadow.choke, scale) })),
+        innerShadow: effects.innerShadow?.map(shadow => ({ ...shadow, size: scaleUnitsValue(shadow.size, scale), distance: scaleUnitsValue(shadow.distance, scale), choke: scaleUnitsValue(shadow.choke, scale) })),
+        outerGlow: effects.outerGlow && { ...effects.outerGlow, size: scaleUnitsValue(effects.outerGlow.size, scale), choke: scaleUnitsValue(effects.outerGlow.choke, scale) },
+        innerGlow: effects.innerGlow && { ...effects.innerGlow, size: scaleUnitsValue(effects.innerGlow.size, scale), choke: scaleUnitsValue(effects.innerGlow.choke, scale) },
+        bevel: effects.bevel && { ...effects.bevel, size: scaleUnitsValue(effects.bevel.size, scale), soften: scaleUnitsValue(effects.bevel.soften, scale) },
+        satin: effects.satin && { ...effects.satin, size: scaleUnitsValue(effects.satin.size, scale), distance: scaleUnitsValue(effects.satin.distance, scale) },
+        stroke: effects.stroke?.map(stroke => ({ ...stroke, size: scaleUnitsValue(stroke.size, scale) })),
+        patternOverlay: effects.patternOverlay && { ...effects.patternOverlay, scale: (effects.patternOverlay.scale ?? 100) * scale },
+    };
+};
+
+const isEffectOn = (effect: { enabled?: boolean, present?: boolean } | undefined): boolean => {
+    return !!effect && effect.enabled !== false && effect.present !== false;
+};
+
+const hasActiveEffects = (raw: Layer | null): boolean => {
+    const effects = raw?.effects;
+    if (!effects || effects.disabled) return false;
+    return !!(effects.dropShadow?.some(isEffectOn) || isEffectOn(effects.outerGlow) || effects.stroke?.some(isEffectOn) || effects.solidFill?.some(isEffectOn));
+};
+
+// Silhouette of the content's alpha filled with a flat color
+const tintCanvas = (source: HTMLCanvasElement, color: string): HTMLCanvasElement => {
+    const tinted = createScratchCanvas(source.width, source.height);
+    const ctx = tinted.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, tinted.width, tinted.height);
+    return tinted;
+};
+
+// Morphological dilation approximated by stamping the source on concentric rings
+const dilateCanvas = (source: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+    const dilated = createScratchCanvas(source.width, source.height);
+    const ctx = dilated.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+    if (radius <= 0) return dilated;
+
+    const rings = Math.max(1, Math.ceil(radius / 4));
+    for (let ring = 1; ring <= rings; ring++) {
+        const r = (radius * ring) / rings;
+        const steps = Math.max(8, Math.min(48, Math.ceil(2 * Math.PI * r / 2)));
+        for (let step = 0; step < steps; step++) {
+            const angle = (step / steps) * Math.PI * 2;
+            ctx.drawImage(source, Math.cos(angle) * r, Math.sin(angle) * r);
+        }
+    }
+    return dilated;
+};
+
+// Erosion = the complement of the dilated complement
+const erodeCanvas = (source: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+    const inverse = createScratchCanvas(source.width, source.height);
+    const inverseCtx = inverse.getContext('2d')!;
+    inverseCtx.fillStyle = '#000';
+    inverseCtx.fillRect(0, 0, inverse.width, inverse.height);
+    inverseCtx.globalCompositeOperation = 'destination-out';
+    inverseCtx.drawImage(source, 0, 0);
+
+    const eroded = createScratchCanvas(source.width, source.height);
+    const ctx = eroded.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(dilateCanvas(inverse, radius), 0, 0);
+    return eroded;
+};
+
+const drawBlurred = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, blur: number, dx: number = 0, dy: number = 0) => {
+    ctx.filter = blur > 0 ? `blur(${blur}px)` : 'none';
+    ctx.drawImage(source, dx, dy);
+    ctx.filter = 'none';
+};
+
+/**
+ * Approximates the common layer effects around an isolated layer canvas:
+ * drop shadow and outer glow (blurred silhouettes), color overlay and stroke.
+ * Fill opacity only fades the layer pixels and overlays, never the effects — as in Photoshop.
+ */
+const renderLayerEffects = (content: HTMLCanvasElement, effects: LayerEffectsInfo, scale: number, fillOpacity: number): HTMLCanvasElement => {
+    const result = createScratchCanvas(content.width, content.height);
+    const ctx = result.getContext('2d')!;
+    const px = (value: UnitsValue | undefined) => (value?.value ?? 0) * scale;
+
+    // 1. Under-effects
+    (effects.dropShadow || []).filter(isEffectOn).forEach(shadow => {
+        const angle = ((shadow.angle ?? 120) * Math.PI) / 180;
+        const distance = px(shadow.distance);
+        ctx.save();
+        ctx.globalAlpha = clampUnit(shadow.opacity, 0.75);
+        ctx.globalCompositeOperation = getCompositeOperation(shadow.blendMode);
+        // Photoshop's angle points at the light source; the shadow falls away from it
+        drawBlurred(ctx, tintCanvas(content, colorToCss(shadow.color) || '#000'), px(shadow.size) / 2, -Math.cos(angle) * distance, Math.sin(angle) * distance);
+        ctx.restore();
+    });
+
+    if (isEffectOn(effects.outerGlow)) {
+        const glow = effects.outerGlow!;
+        ctx.save();
+        ctx.globalAlpha = clampUnit(glow.opacity, 0.75);
+        ctx.globalCompositeOperation = getCompositeOperation(glow.blendMode);
+        drawBlurred(ctx, dilateCanvas(tintCanvas(content, colorToCss(glow.color) || '#ffffbe'), px(glow.choke)), px(glow.size) / 2);
+        ctx.restore();
+    }
+
+    // 2. Layer pixels + overlays, faded together by fill opacity
+    const fill = createScratchCanvas(content.width, content.height);
+    const fillCtx = fill.getContext('2d')!;
+    fillCtx.drawImage(content, 0, 0);
+    (effects.solidFill || []).filter(isEffectOn).forEach(overlay => {
+        fillCtx.save();
+        fillCtx.globalAlpha = clampUnit(overlay.opacity);
+        fillCtx.globalCompositeOperation = getCompositeOperation(overlay.blendMode);
+        fillCtx.drawImage(tintCanvas(content, colorToCss(overlay.color) || '#000'), 0, 0);
+        fillCtx.restore();
+    });
+    // Keep the overlay inside the layer's own alpha
+    fillCtx.globalCompositeOperation = 'destination-in';
+    fillCtx.drawImage(content, 0, 0);
+
+    ctx.save();
+    ctx.globalAlpha = fillOpacity;
+    ctx.drawImage(fill, 0, 0);
+    ctx.restore();
+
+    // 3. Strokes (color fills only; gradient/pattern strokes fall back to their color)
+    (effects.stroke || []).filter(isEffectOn).forEach(stroke => {
+        const size = px(stroke.size);
+        if (size <= 0) return;
+
+        const position = stroke.position || 'outside';
+        const outer = position === 'outside' ? dilateCanvas(content, size) : position === 'center' ? dilateCanvas(content, size / 2) : content;
+        const inner = position === 'inside' ? erodeCanvas(content, size) : position === 'center' ? erodeCanvas(content, size / 2) : content;
+
+        const ring = tintCanvas(outer, colorToCss(stroke.color) || '#000');
+        const ringCtx = ring.getContext('2d')!;
+        ringCtx.globalCompositeOperation = 'destination-out';
+        ringCtx.drawImage(inner, 0, 0);
+
+        ctx.save();
+        ctx.globalAlpha = clampUnit(stroke.opacity);
+        ctx.globalCompositeOperation = getCompositeOperation(stroke.blendMode);
+        ctx.drawImage(ring, 0, 0);
+        ctx.restore();
+    });
+
+    return result;
+};
 
+/**
+ * Renders a TransformedPayload into a transparent canvas the size of its target bounds.
+ * Follows Photoshop's stacking model: blend modes, layer/vector masks, clipping bases,
+ * fill vs. layer opacity, isolated vs. pass-through groups and (approximated) layer effects.
+ */
+const renderPayloadLayers = async (payload: TransformedPayload, psd: Psd): Promise<HTMLCanvasElement | null> => {
     // Use targetBounds for geometry if available (to fix origin mismatch), fallback to metrics.target
     const width = payload.targetBounds ? payload.targetBounds.w : payload.metrics.target.w;
     const height = payload.targetBounds ? payload.targetBounds.h : payload.metrics.target.h;
-    
+
     // Origin for normalization (Global -> Local conversion)
     const originX = payload.targetBounds ? payload.targetBounds.x : 0;
     const originY = payload.targetBounds ? payload.targetBounds.y : 0;
 
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    const canvas = createScratchCanvas(width, height);
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
 
-    // --- CLEAN ROOM SETUP ---
-    // 1. Enforce High Fidelity Smoothing
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-    
-    // 2. Reset Composition Logic
-    ctx.globalCompositeOperation = 'source-over';
-    ctx.globalAlpha = 1.0;
-
-    // 3. Absolute Clear (Transparent)
-    ctx.clearRect(0, 0, width, height);
-
-    // 4. "Safe Zone" Matte Fill - Solid Slate 900
-    // Forces the output image to match target dimensions and provides visual context
-    ctx.fillStyle = '#0f172a'; // Solid Slate 900
-    ctx.fillRect(0, 0, width, height);
-
     console.log(`[COMPOSITOR] Starting render for ${payload.layers.length} root layers. Target: ${width}x${height}, Origin: ${originX},${originY}`);
 
     // Optional: Pre-load the generative preview if available to use as texture
@@ -457,100 +1613,294 @@ export const compositePayloadToCanvas = async (payload: TransformedPayload, psd:
         }
     }
 
-    const drawLayers = async (layers: TransformedLayer[], depth = 0) => {
-        // CHANGED: Iterate Forward (0 to Length-1) to implement Bottom-to-Top Painter's Algorithm.
+    const createLayerCanvas = (): HTMLCanvasElement => {
+        const layerCanvas = createScratchCanvas(canvas.width, canvas.height);
+        const layerCtx = layerCanvas.getContext('2d')!;
+        layerCtx.imageSmoothingEnabled = true;
+        layerCtx.imageSmoothingQuality = 'high';
+        return layerCanvas;
+    };
+
+    // Leaf pixels only: opacity, blend mode and masks are applied by the caller
+    const drawLeaf = (target: CanvasRenderingContext2D, layer: TransformedLayer, raw: Layer | null) => {
+        const { x, y, w: dw, h: dh } = layer.coords;
+
+        // COORDINATE NORMALIZATION: Transform Global Coords -> Local Canvas Coords
+        const drawX = x - originX;
+        const drawY = y - originY;
+
+        // SURGICAL SWAP LOGIC: generative layers bypass the original layer lookup entirely
+        if (layer.type === 'generative') {
+            if (genImage && payload.previewUrl) {
+                try {
+                    target.drawImage(genImage, drawX, drawY, dw, dh);
+                } catch (e) {
+                    drawGenerativePlaceholder(target, drawX, drawY, dw, dh);
+                }
+            } else {
+                drawGenerativePlaceholder(target, drawX, drawY, dw, dh);
+            }
+        }
+        else if (layer.text) {
+            // TEXT LAYER: Re-typeset at the remapped point size instead of stretching the raster
+            drawTextLayer(target, layer.text, drawX, drawY, dw);
+        }
+        else if (raw && raw.canvas) {
+            if (layer.transform && layer.transform.rotation) {
+                const rot = (layer.transform.rotation * Math.PI) / 180;
+                target.save();
+                target.translate(drawX + dw / 2, drawY + dh / 2);
+                target.rotate(rot);
+                target.drawImage(raw.canvas, -dw / 2, -dh / 2, dw, dh);
+                target.restore();
+            } else {
+                target.drawImage(raw.canvas, drawX, drawY, dw, dh);
+            }
+        } else {
+            console.warn(`[COMPOSITOR] Source canvas missing for layer: ${layer.name} (ID: ${layer.id})`);
+        }
+    };
+
+    /**
+     * Renders one layer (or isolated group) into its own canvas with fill opacity and masks applied.
+     */
+    const renderIsolated = async (layer: TransformedLayer, raw: Layer | null): Promise<HTMLCanvasElement> => {
+        const layerCanvas = createLayerCanvas();
+        const layerCtx = layerCanvas.getContext('2d')!;
+
+        const hasEffects = hasActiveEffects(raw);
+        const fillOpacity = layer.type === 'group' ? 1 : clampUnit(raw?.fillOpacity);
+
+        if (layer.type === 'group') {
+            await drawStack(layer.children || [], layerCtx, 1);
+        } else {
+            // With effects, fill opacity is applied by renderLayerEffects (it must not fade the effects)
+            layerCtx.globalAlpha = hasEffects ? 1 : fillOpacity;
+            drawLeaf(layerCtx, layer, raw);
+            layerCtx.globalAlpha = 1;
+        }
+
+        if (raw && hasActiveMask(raw)) {
+            applyLayerMasks(layerCanvas, raw, getLayerPlacement(layer, raw, originX, originY));
+        }
+
+        if (raw && hasEffects) {
+            return renderLayerEffects(layerCanvas, raw.effects!, getEffectScale(layer.transform), fillOpacity);
+        }
+        return layerCanvas;
+    };
+
+    /**
+     * Paints clipped layers onto their base: each is cut to the base's alpha and blended over the base pixels.
+     */
+    const applyClippingChain = async (base: HTMLCanvasElement, clipped: TransformedLayer[]) => {
+        const baseCtx = base.getContext('2d')!;
+        const baseAlpha = createLayerCanvas();
+        baseAlpha.getContext('2d')!.drawImage(base, 0, 0);
+
+        for (const layer of clipped) {
+            if (!layer.isVisible) continue;
+            const raw = findLayerByPath(psd, layer.id);
+            const content = await renderIsolated(layer, raw);
+
+            const contentCtx = content.getContext('2d')!;
+            contentCtx.globalCompositeOperation = 'destination-in';
+            contentCtx.drawImage(baseAlpha, 0, 0);
+
+            baseCtx.save();
+            baseCtx.globalAlpha = clampUnit(layer.opacity);
+            baseCtx.globalCompositeOperation = getCompositeOperation(raw?.blendMode);
+            baseCtx.drawImage(content, 0, 0);
+            baseCtx.restore();
+        }
+    };
+
+    // Painter's algorithm: children arrays are ordered bottom -> top
+    const drawStack = async (layers: TransformedLayer[], target: CanvasRenderingContext2D, inheritedOpacity: number, depth = 0): Promise<void> => {
         for (let i = 0; i < layers.length; i++) {
             const layer = layers[i];
-            
-            // DIAGNOSTIC FORCE OPACITY
-            let effectiveOpacity = (typeof layer.opacity === 'number') ? layer.opacity : 1.0;
-            if (effectiveOpacity === 0) {
-                 effectiveOpacity = 1.0; 
-                 console.warn(`[COMPOSITOR] Layer ${layer.name} had 0 opacity. Forcing to 1.0 for debug.`);
+            const raw = findLayerByPath(psd, layer.id);
+
+            // Collect the clipping chain riding on this base (hidden bases hide their clipped layers too)
+            const clipped: TransformedLayer[] = [];
+            while (i + 1 < layers.length && findLayerByPath(psd, layers[i + 1].id)?.clipping) {
+                clipped.push(layers[++i]);
             }
 
-            console.log(`[LAYER] Depth:${depth} | Name: "${layer.name}" | Type: ${layer.type} | Opacity: ${effectiveOpacity.toFixed(2)} | Visible: ${layer.isVisible}`);
+            if (!layer.isVisible) continue;
 
-            // Visibility Check
-            if (!layer.isVisible) {
-                console.log(`[LAYER] Skipping invisible layer: ${layer.name}`);
+            const opacity = clampUnit(layer.opacity) * inheritedOpacity;
+            const operation = getCompositeOperation(raw?.blendMode);
+            const isGroup = layer.type === 'group';
+            const isPassThrough = isGroup && (!raw || !raw.blendMode || raw.blendMode === 'pass through');
+            // Masks and effects need the layer rendered on its own canvas first
+            const isIsolated = hasActiveMask(raw) || hasActiveEffects(raw);
+
+            console.log(`[LAYER] Depth:${depth} | Name: "${layer.name}" | Type: ${layer.type} | Blend: ${raw?.blendMode || 'normal'} | Opacity: ${opacity.toFixed(2)} | Clipped: ${clipped.length}`);
+
+            // Pass-through groups draw straight into the parent, their opacity multiplying down
+            if (isPassThrough && !isIsolated && clipped.length === 0) {
+                await drawStack(layer.children || [], target, opacity, depth + 1);
                 continue;
             }
 
-            // --- RECURSIVE GROUP HANDLING ---
-            if (layer.type === 'group' && layer.children) {
-                // RECURSION GUARD:
-                ctx.save();
-                await drawLayers(layer.children, depth + 1);
-                ctx.restore();
+            // Fast path: unmasked, unclipped leaves blend directly against the backdrop
+            if (!isGroup && !isIsolated && clipped.length === 0) {
+                target.save();
+                target.globalAlpha = opacity * clampUnit(raw?.fillOpacity);
+                target.globalCompositeOperation = operation;
+                drawLeaf(target, layer, raw);
+                target.restore();
                 continue;
-            } 
-            
-            // --- LEAF LAYER HANDLING (Pixel / Generative) ---
-            // WRAP EVERY DRAW CALL IN SAVE/RESTORE FOR SANITATION
-            ctx.save();
-            
-            // 1. Reset Composite Mode per layer to prevent leaks
-            ctx.globalCompositeOperation = 'source-over';
-
-            // 2. STRICT ALPHA APPLICATION
-            const alpha = Math.max(0, Math.min(1, effectiveOpacity));
-            ctx.globalAlpha = alpha;
-
-            const { x, y, w: dw, h: dh } = layer.coords;
-            
-            // COORDINATE NORMALIZATION: Transform Global Coords -> Local Canvas Coords
-            const drawX = x - originX;
-            const drawY = y - originY;
-            
-            console.log(`[DRAW] "${layer.name}" at global x:${Math.round(x)}, y:${Math.round(y)} -> local x:${Math.round(drawX)}, y:${Math.round(drawY)}`);
-
-            // 3. DRAW: SURGICAL SWAP LOGIC
-            // If the layer is generative, we MUST bypass the original layer lookup entirely.
-            if (layer.type === 'generative') {
-                // Draw either the generated preview texture or a placeholder
-                if (genImage && payload.previewUrl) {
-                    try {
-                        ctx.drawImage(genImage, drawX, drawY, dw, dh);
-                    } catch (e) {
-                        drawGenerativePlaceholder(ctx, drawX, drawY, dw, dh);
-                    }
-                } else {
-                    drawGenerativePlaceholder(ctx, drawX, drawY, dw, dh);
-                }
-            } 
-            else {
-                // STANDARD LAYER: Lookup pixels in original binary
-                const sourceLayer = findLayerByPath(psd, layer.id);
-
-                if (sourceLayer && sourceLayer.canvas) {
-                    if (layer.transform && layer.transform.rotation) {
-                        const rot = (layer.transform.rotation * Math.PI) / 180;
-                        const cx = drawX + dw / 2;
-                        const cy = drawY + dh / 2;
-                        
-                        ctx.translate(cx, cy);
-                        ctx.rotate(rot);
-                        ctx.drawImage(sourceLayer.canvas, -dw / 2, -dh / 2, dw, dh);
-                    } else {
-                        // Direct Draw (Standard)
-                        ctx.drawImage(sourceLayer.canvas, drawX, drawY, dw, dh);
-                    }
-                } else {
-                    console.warn(`[COMPOSITOR] Source canvas missing for layer: ${layer.name} (ID: ${layer.id})`);
-                }
             }
 
-            ctx.restore();
+            const content = await renderIsolated(layer, raw);
+            if (clipped.length > 0) {
+                await applyClippingChain(content, clipped);
+            }
+
+            target.save();
+            target.globalAlpha = opacity;
+            target.globalCompositeOperation = operation;
+            target.drawImage(content, 0, 0);
+            target.restore();
         }
     };
 
-    await drawLayers(payload.layers);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    await drawStack(payload.layers, ctx, 1);
+
+    return canvas;
+};
+
+/**
+ * Composites a visual representation of the TransformedPayload using the original PSD binary data.
+ * Layers are rendered on a transparent stage (so root blend modes see the same backdrop as in Photoshop)
+ * and then placed over the "Safe Zone" matte.
+ * 
+ * @param payload The transformed geometry and logic instructions.
+ * @param psd The original binary source providing pixel data.
+ * @returns A Promise resolving to a high-quality Data URL (image/png).
+ */
+export const compositePayloadToCanvas = async (payload: TransformedPayload, psd: Psd): Promise<string | null> => {
+    if (!payload || !psd) return null;
+
+    const stage = await renderPayloadLayers(payload, psd);
+    if (!stage) return null;
+
+    const canvas = createScratchCanvas(stage.width, stage.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    // "Safe Zone" Matte Fill - Solid Slate 900
+    // Forces the output image to match target dimensions and provides visual context
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Shape Clip: non-rectangular containers mask the composited content
+    if (payload.clipPolygon && payload.clipPolygon.length >= 3) {
+        const originX = payload.targetBounds ? payload.targetBounds.x : 0;
+        const originY = payload.targetBounds ? payload.targetBounds.y : 0;
+        ctx.beginPath();
+        payload.clipPolygon.forEach((p, i) => {
+            if (i === 0) ctx.moveTo(p.x - originX, p.y - originY);
+            else ctx.lineTo(p.x - originX, p.y - originY);
+        });
+        ctx.closePath();
+        ctx.clip();
+    }
+
+    ctx.drawImage(stage, 0, 0);
 
     // CRITICAL: Export as PNG to preserve transparency (JPEG forces black/white background)
     return canvas.toDataURL('image/png');
 };
 
+export interface CompositeComparison {
+    width: number;
+    height: number;
+    meanError: number; // Mean absolute channel difference, 0..1
+    mismatchRatio: number; // Share of pixels differing by more than COMPOSITE_PIXEL_TOLERANCE
+    diffUrl: string; // Heatmap of the differing pixels
+}
+
+const COMPOSITE_PIXEL_TOLERANCE = 8; // Per-channel delta (0-255) still considered a match
+
+const toIdentityLayers = (layers: SerializableLayer[]): TransformedLayer[] => {
+    return layers.map(layer => ({
+        ...layer,
+        transform: { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 },
+        children: layer.children ? toIdentityLayers(layer.children) : undefined,
+    }));
+};
+
+/**
+ * Fixture check for the compositor: renders the untransformed document and diffs it against
+ * the composite image Photoshop saved in the file. Template groups are excluded from the render,
+ * so fixtures should keep them hidden.
+ * Returns null when the file carries no composite (e.g. saved without "Maximize Compatibility").
+ */
+export const comparePsdComposite = async (psd: Psd): Promise<CompositeComparison | null> => {
+    if (!psd.canvas) return null;
+
+    const payload: TransformedPayload = {
+        status: 'success',
+        sourceNodeId: '',
+        sourceContainer: '',
+        targetContainer: '',
+        layers: toIdentityLayers(getCleanLayerTree(psd.children || [])),
+        scaleFactor: 1,
+        metrics: { source: { w: psd.width, h: psd.height }, target: { w: psd.width, h: psd.height } },
+        targetBounds: { x: 0, y: 0, w: psd.width, h: psd.height },
+    };
+
+    const rendered = await renderPayloadLayers(payload, psd);
+    if (!rendered) return null;
+
+    const width = Math.min(rendered.width, psd.canvas.width);
+    const height = Math.min(rendered.height, psd.canvas.height);
+
+    const reference = createScratchCanvas(width, height);
+    const referenceCtx = reference.getContext('2d')!;
+    referenceCtx.drawImage(psd.canvas, 0, 0);
+
+    const actual = rendered.getContext('2d')!.getImageData(0, 0, width, height).data;
+    const expected = referenceCtx.getImageData(0, 0, width, height).data;
+
+    const diff = createScratchCanvas(width, height);
+    const diffCtx = diff.getContext('2d')!;
+    const diffData = diffCtx.createImageData(width, height);
+
+    let totalError = 0;
+    let mismatches = 0;
+    for (let i = 0; i < actual.length; i += 4) {
+        let maxDelta = 0;
+        for (let c = 0; c < 4; c++) {
+            const delta = Math.abs(actual[i + c] - expected[i + c]);
+            totalError += delta;
+            if (delta > maxDelta) maxDelta = delta;
+        }
+        if (maxDelta > COMPOSITE_PIXEL_TOLERANCE) {
+            mismatches++;
+            diffData.data[i] = 239; // Red-500 heat
+            diffData.data[i + 1] = 68;
+            diffData.data[i + 2] = 68;
+            diffData.data[i + 3] = Math.max(64, maxDelta);
+        }
+    }
+    diffCtx.putImageData(diffData, 0, 0);
+
+    const pixelCount = Math.max(1, width * height);
+    return {
+        width,
+        height,
+        meanError: totalError / (pixelCount * 4 * 255),
+        mismatchRatio: mismatches / pixelCount,
+        diffUrl: diff.toDataURL('image/png'),
+    };
+};
+
 // Helper for drawing consistent AI placeholders
 const drawGenerativePlaceholder = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number) => {
     ctx.fillStyle = 'rgba(192, 132, 252, 0.3)'; // Purple tint
@@ -577,37 +1927,29 @@ const drawGenerativePlaceholder = (ctx: CanvasRenderingContext2D, x: number, y:
 export const getOpticalBounds = (ctx: CanvasRenderingContext2D, w: number, h: number): OpticalMetrics | null => {
     // Robustness check for invalid dimensions
     if (w <= 0 || h <= 0) return null;
+    return scanOpticalBounds(ctx.getImageData(0, 0, w, h).data, w, h);
+};
 
-    const imgData = ctx.getImageData(0, 0, w, h);
-    const data = imgData.data;
-    let minX = w, minY = h, maxX = 0, maxY = 0, found = false;
-    let nonTransparentPixels = 0;
-
-    // Scan alpha channel (every 4th byte)
-    for (let y = 0; y < h; y++) {
-        for (let x = 0; x < w; x++) {
-            const alpha = data[(y * w + x) * 4 + 3];
-            // Threshold logic: Alpha must be > 0 to be considered visible
-            if (alpha > 0) {
-                if (x < minX) minX = x;
-                if (x > maxX) maxX = x;
-                if (y < minY) minY = y;
-                if (y > maxY) maxY = y;
-                found = true;
-                nonTransparentPixels++;
-            }
-        }
-    }
-    
-    const density = (w * h) > 0 ? nonTransparentPixels / (w * h) : 0;
-    
-    if (!found) return null;
+// Stable ID -> optical bounds, indexed once per parsed document
+const opticalBoundsCache = new WeakMap<Psd, OpticalBoundsMap>();
 
-    return { 
-        bounds: { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 },
-        visualCenter: { x: minX + (maxX - minX + 1) / 2, y: minY + (maxY - minY + 1) / 2 },
-        pixelDensity: density
-    };
+/**
+ * Optical bounds of every raster layer in document coordinates, keyed by stable layer ID.
+ * The boxes are measured at load time (see annotateOpticalBounds); this only indexes them, so no pixels
+ * are read here. Groups, empty layers and layers without pixel data are omitted (callers fall back to the layer box).
+ */
+export const getLayerOpticalBounds = (psd: Psd): OpticalBoundsMap => {
+    const cached = opticalBoundsCache.get(psd);
+    if (cached) return cached;
+
+    const bounds: OpticalBoundsMap = {};
+    buildLayerIdentityIndex(psd.children).forEach((layer, id) => {
+        const optical = (layer as OpticalLayer).opticalBounds;
+        if (optical) bounds[id] = optical;
+    });
+
+    opticalBoundsCache.set(psd, bounds);
+    return bounds;
 };
 
 /**
@@ -619,7 +1961,8 @@ export const getOpticalBounds = (ctx: CanvasRenderingContext2D, w: number, h: nu
 export const writePsdFile = async (psd: Psd, filename: string) => {
   try {
     // writePsd returns an ArrayBuffer or Buffer depending on environment. In browser, ArrayBuffer.
-    const buffer = writePsd(psd, { generateThumbnail: false });
+    // invalidateTextLayers: Photoshop re-typesets rewritten text layers on open
+    const buffer = writePsd(psd, { generateThumbnail: false, invalidateTextLayers: true });
     
     const blob = new Blob([buffer], { type: 'application/octet-stream' });
     const url = URL.createObjectURL(blob);
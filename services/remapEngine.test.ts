@@ -0,0 +1,587 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SerializableLayer, TransformedLayer, LayoutStrategy, LayerOverride, TextLayerData } from '../types';
+import { remapLayers, resolveConstrainedLayout, resolveLayoutConstraints, mergeFeedbackStrategy, getSafetyViolationKey, RemapRequest } from './remapEngine';
+import { solveLayoutConstraints } from './constraintSolver';
+
+// --- SYNTHETIC LAYER TREES ---
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+const layer = (id: string, x: number, y: number, w: number, h: number, extra: Partial<SerializableLayer> = {}): SerializableLayer => ({
+    id,
+    name: id,
+    type: extra.children ? 'group' : 'layer',
+    isVisible: true,
+    opacity: 1,
+    coords: { x, y, w, h },
+    ...extra
+});
+
+const group = (id: string, children: SerializableLayer[], extra: Partial<SerializableLayer> = {}): SerializableLayer => {
+    const minX = Math.min(...children.map(c => c.coords.x));
+    const minY = Math.min(...children.map(c => c.coords.y));
+    const maxX = Math.max(...children.map(c => c.coords.x + c.coords.w));
+    const maxY = Math.max(...children.map(c => c.coords.y + c.coords.h));
+    return layer(id, minX, minY, maxX - minX, maxY - minY, { type: 'group', children, ...extra });
+};
+
+const strategy = (extra: Partial<LayoutStrategy> = {}): LayoutStrategy => ({
+    suggestedScale: 1,
+    anchor: 'CENTER',
+    generativePrompt: '',
+    reasoning: 'test',
+    ...extra
+});
+
+const override = (layerId: string, xOffset: number, yOffset: number, extra: Partial<LayerOverride> = {}): LayerOverride => ({
+    layerId, xOffset, yOffset, individualScale: 1, ...extra
+});
+
+const SOURCE: Rect = { x: 0, y: 0, w: 200, h: 100 };
+const SQUARE: Rect = { x: 1000, y: 0, w: 400, h: 400 };
+
+const remap = (request: Partial<RemapRequest>) => remapLayers({
+    layers: [],
+    sourceRect: SOURCE,
+    targetRect: SQUARE,
+    sourceNodeId: 'load-1',
+    sourceContainer: 'SOURCE',
+    targetContainer: 'TARGET',
+    ...request
+});
+
+const find = (layers: TransformedLayer[], id: string): TransformedLayer => {
+    for (const l of layers) {
+        if (l.id === id) return l;
+        const nested = l.children && find(l.children, id);
+        if (nested) return nested;
+    }
+    return undefined as unknown as TransformedLayer;
+};
+
+const intersection = (a: Rect, b: Rect) => {
+    const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+    const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+    return w > 0 && h > 0 ? w * h : 0;
+};
+
+const inside = (inner: Rect, outer: Rect) =>
+    inner.x >= outer.x - 0.5 && inner.y >= outer.y - 0.5 &&
+    inner.x + inner.w <= outer.x + outer.w + 0.5 && inner.y + inner.h <= outer.y + outer.h + 0.5;
+
+// --- CONSTRAINED LAYOUT (fit modes, anchors, padding) ---
+
+describe('resolveConstrainedLayout', () => {
+    it('maps proportionally into the padded rect without fit or anchor', () => {
+        const result = resolveConstrainedLayout(SOURCE, SQUARE, { pad: 20 }, 1.5);
+        expect(result.rect).toEqual({ x: 1020, y: 20, w: 360, h: 360 });
+        expect(result.scaleX).toBe(1.5);
+        expect(result.scaleY).toBe(1.5);
+    });
+
+    it('letterboxes with contain and centers by default', () => {
+        const { rect, scaleX, scaleY } = resolveConstrainedLayout(SOURCE, SQUARE, { fit: 'contain' }, 1);
+        expect(scaleX).toBe(2);
+        expect(scaleY).toBe(2);
+        expect(rect).toEqual({ x: 1000, y: 100, w: 400, h: 200 });
+    });
+
+    it('overhangs the target with cover', () => {
+        const { rect, scaleX } = resolveConstrainedLayout(SOURCE, SQUARE, { fit: 'cover' }, 1);
+        expect(scaleX).toBe(4);
+        expect(rect).toEqual({ x: 800, y: 0, w: 800, h: 400 });
+    });
+
+    it('scales the axes independently with stretch', () => {
+        const { rect, scaleX, scaleY } = resolveConstrainedLayout(SOURCE, SQUARE, { fit: 'stretch' }, 1);
+        expect(scaleX).toBe(2);
+        expect(scaleY).toBe(4);
+        expect(rect).toEqual(SQUARE);
+    });
+
+    it('keeps the source size with none', () => {
+        const { rect, scaleX } = resolveConstrainedLayout(SOURCE, SQUARE, { fit: 'none', anchor: 'top-left', pad: 10 }, 3);
+        expect(scaleX).toBe(1);
+        expect(rect).toEqual({ x: 1010, y: 10, w: 200, h: 100 });
+    });
+
+    it.each([
+        ['top', 1000, 0],
+        ['bottom', 1000, 200],
+        ['bottom-right', 1000, 200],
+        ['center', 1000, 100],
+    ] as const)('anchors contain-fitted content at %s', (anchor, x, y) => {
+        const { rect } = resolveConstrainedLayout(SOURCE, SQUARE, { fit: 'contain', anchor }, 1);
+        expect(rect.x).toBe(x);
+        expect(rect.y).toBe(y);
+    });
+
+    it('anchors horizontally when the content is narrower than the target', () => {
+        const tall: Rect = { x: 0, y: 0, w: 100, h: 200 };
+        expect(resolveConstrainedLayout(tall, SQUARE, { fit: 'contain', anchor: 'left' }, 1).rect.x).toBe(1000);
+        expect(resolveConstrainedLayout(tall, SQUARE, { fit: 'contain', anchor: 'right' }, 1).rect.x).toBe(1200);
+    });
+});
+
+describe('resolveLayoutConstraints', () => {
+    it('returns undefined when no source sets fit, anchor or pad', () => {
+        expect(resolveLayoutConstraints(undefined, undefined, undefined, undefined)).toBeUndefined();
+    });
+
+    it('ranks template over instance settings over the Analyst', () => {
+        const analyst = strategy({ anchor: 'STRETCH' });
+        expect(resolveLayoutConstraints(undefined, undefined, undefined, analyst)?.fit).toBe('stretch');
+        expect(resolveLayoutConstraints(undefined, 'UNIFORM_FIT', undefined, analyst)?.fit).toBe('contain');
+        expect(resolveLayoutConstraints({ fit: 'none' }, 'UNIFORM_FIT', undefined, analyst)?.fit).toBe('none');
+
+        const top = strategy({ anchor: 'TOP' });
+        expect(resolveLayoutConstraints(undefined, undefined, undefined, top)?.anchor).toBe('top');
+        expect(resolveLayoutConstraints(undefined, undefined, 'bottom', top)?.anchor).toBe('bottom');
+        expect(resolveLayoutConstraints({ anchor: 'left' }, undefined, 'bottom', top)?.anchor).toBe('left');
+    });
+});
+
+// --- BASE PLACEMENT ---
+
+describe('remapLayers placement', () => {
+    it('places layers relative to the layout rect and scales them by the fit', () => {
+        const payload = remap({ layers: [layer('a', 50, 25, 20, 10)], layoutConstraints: { fit: 'contain' } });
+        const a = find(payload.layers, 'a');
+        expect(a.coords).toEqual({ x: 1100, y: 150, w: 40, h: 20 });
+        expect(a.transform).toMatchObject({ scaleX: 2, scaleY: 2, offsetX: 1100, offsetY: 150 });
+        expect(payload.scaleFactor).toBe(2);
+        expect(payload.status).toBe('success');
+    });
+
+    it('places children in the same space as their group', () => {
+        const payload = remap({
+            layers: [group('g', [layer('c1', 0, 0, 20, 20), layer('c2', 100, 50, 20, 20)])],
+            layoutConstraints: { fit: 'contain' }
+        });
+        expect(find(payload.layers, 'c1').coords).toEqual({ x: 1000, y: 100, w: 40, h: 40 });
+        expect(find(payload.layers, 'c2').coords).toEqual({ x: 1200, y: 200, w: 40, h: 40 });
+    });
+
+    it('re-fits text by point size without a DOM', () => {
+        const text: TextLayerData = { text: 'Hello world', fontSize: 20, shapeType: 'box' };
+        const payload = remap({ layers: [layer('t', 0, 0, 200, 40, { text })], layoutConstraints: { fit: 'contain' } });
+        const t = find(payload.layers, 't');
+        expect(t.text?.fontSize).toBe(40);
+        expect(t.text?.lines?.join(' ')).toBe('Hello world');
+    });
+
+    it('measures text through the injected measurer', () => {
+        const measureText = vi.fn((text: string) => text.length * 100);
+        const text: TextLayerData = { text: 'one two', fontSize: 10, shapeType: 'box' };
+        const payload = remap({ layers: [layer('t', 0, 0, 100, 100, { text })], layoutConstraints: { fit: 'none' }, measureText });
+        expect(measureText).toHaveBeenCalled();
+        expect(find(payload.layers, 't').text?.lines).toEqual(['one', 'two']);
+    });
+
+    it('places the visible pixels with optical bounds, also without a strategy', () => {
+        // Right half of the layer box is transparent padding
+        const layers = [layer('icon', 100, 0, 100, 100)];
+        const opticalBounds = { icon: { x: 150, y: 0, w: 50, h: 100 } };
+
+        expect(find(remap({ layers }).layers, 'icon').coords.x).toBe(1200);
+        const icon = find(remap({ layers, opticalBounds }).layers, 'icon');
+        expect(icon.opticalCoords).toEqual({ x: 1300, y: 0, w: 50, h: 100 });
+        expect(icon.coords).toEqual({ x: 1250, y: 0, w: 100, h: 100 });
+    });
+});
+
+// --- OVERRIDES & FEEDBACK ---
+
+describe('overrides', () => {
+    it('positions overridden layers target-absolute with their individual scale', () => {
+        const payload = remap({
+            layers: [layer('logo', 10, 10, 20, 20)],
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ overrides: [override('logo', 30, 40, { individualScale: 0.5, layoutRole: 'static', citedRule: 'R1' })] })
+        });
+        const logo = find(payload.layers, 'logo');
+        expect(logo.coords).toEqual({ x: 1030, y: 40, w: 20, h: 20 });
+        expect(logo.transform.scaleX).toBe(1);
+        expect(logo.layoutRole).toBe('static');
+        expect(logo.citedRule).toBe('R1');
+    });
+
+    it('re-anchors the subtree of an overridden group', () => {
+        const payload = remap({
+            layers: [group('g', [layer('c1', 0, 0, 20, 20), layer('c2', 100, 50, 20, 20)])],
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ overrides: [override('g', 0, 0)] })
+        });
+        const c1 = find(payload.layers, 'c1');
+        const c2 = find(payload.layers, 'c2');
+        expect(c1.coords.x).toBe(1000);
+        expect(c1.coords.y).toBe(0);
+        // Relative placement inside the group is kept
+        expect(c2.coords.x - c1.coords.x).toBe(200);
+        expect(c2.coords.y - c1.coords.y).toBe(100);
+    });
+});
+
+describe('mergeFeedbackStrategy', () => {
+    it('replaces the Analyst overrides with the Reviewer ones', () => {
+        const analyst = strategy({ overrides: [override('a', 1, 1)], layoutMode: 'GRID' });
+        const merged = mergeFeedbackStrategy(analyst, { overrides: [override('b', 2, 2)] });
+        expect(merged?.overrides).toEqual([override('b', 2, 2)]);
+        expect(merged?.layoutMode).toBe('GRID');
+    });
+
+    it('keeps the Analyst strategy when feedback has no overrides', () => {
+        const analyst = strategy({ overrides: [override('a', 1, 1)] });
+        expect(mergeFeedbackStrategy(analyst, { overrides: [] })).toBe(analyst);
+        expect(mergeFeedbackStrategy(analyst, undefined)).toBe(analyst);
+    });
+
+    it('applies Reviewer feedback during the remap', () => {
+        const payload = remap({
+            layers: [layer('a', 0, 0, 10, 10)],
+            strategy: strategy({ overrides: [override('a', 5, 5)] }),
+            feedback: { overrides: [override('a', 100, 200)] }
+        });
+        expect(find(payload.layers, 'a').coords).toMatchObject({ x: 1100, y: 200 });
+    });
+});
+
+// --- GENERATIVE REPLACEMENT ---
+
+describe('replaceLayerId', () => {
+    const layers = [layer('bg', 0, 0, 200, 100), layer('title', 20, 20, 50, 10)];
+    const generative = strategy({ method: 'GENERATIVE', replaceLayerId: 'bg', generativePrompt: 'sunset backdrop' });
+
+    it('swaps the layer for a generative layer covering the target', () => {
+        const payload = remap({ layers, strategy: generative });
+        const bg = find(payload.layers, 'bg');
+        expect(bg.type).toBe('generative');
+        expect(bg.generativePrompt).toBe('sunset backdrop');
+        expect(bg.coords).toEqual(SQUARE);
+        expect(find(payload.layers, 'title').type).toBe('layer');
+    });
+
+    it('leaves the layer alone when generation is disabled', () => {
+        const payload = remap({ layers, strategy: generative, generationAllowed: false });
+        expect(find(payload.layers, 'bg').type).toBe('layer');
+        expect(payload.requiresGeneration).toBe(false);
+    });
+
+    it('requires generation only once the prompt is confirmed', () => {
+        expect(remap({ layers, strategy: generative }).requiresGeneration).toBe(false);
+        const confirmed = remap({ layers, strategy: generative, confirmedPrompt: 'sunset backdrop' });
+        expect(confirmed.requiresGeneration).toBe(true);
+        expect(confirmed.isConfirmed).toBe(true);
+    });
+
+    it('holds large upscales for confirmation', () => {
+        const payload = remap({ layers, strategy: { ...generative, suggestedScale: 3 } });
+        expect(payload.status).toBe('awaiting_confirmation');
+    });
+});
+
+// --- LAYOUT SOLVERS ---
+
+const cards = [
+    layer('card1', 0, 20, 40, 40),
+    layer('card2', 60, 20, 40, 40),
+    layer('card3', 120, 20, 40, 40),
+    layer('card4', 160, 50, 40, 40),
+];
+
+describe('GRID solver', () => {
+    it('packs items into the configured columns without overlap', () => {
+        const payload = remap({
+            layers: cards,
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ layoutMode: 'GRID', gridConfig: { cols: 2, gutter: 10 } })
+        });
+        const boxes = cards.map(c => find(payload.layers, c.id).coords);
+        // Two rows of two, in reading order
+        expect(boxes[0].y).toBeCloseTo(boxes[1].y);
+        expect(boxes[2].y).toBeCloseTo(boxes[3].y);
+        expect(boxes[2].y).toBeGreaterThan(boxes[0].y);
+        expect(boxes[1].x).toBeGreaterThan(boxes[0].x);
+        for (let i = 0; i < boxes.length; i++) {
+            expect(inside(boxes[i], SQUARE)).toBe(true);
+            for (let j = i + 1; j < boxes.length; j++) expect(intersection(boxes[i], boxes[j])).toBe(0);
+        }
+    });
+
+    it('derives a grid from the item count when none is configured', () => {
+        const payload = remap({
+            layers: cards,
+            targetRect: { x: 0, y: 0, w: 800, h: 100 },
+            layoutConstraints: { fit: 'stretch' },
+            strategy: strategy({ layoutMode: 'GRID' })
+        });
+        const ys = new Set(cards.map(c => Math.round(find(payload.layers, c.id).coords.y)));
+        expect(ys.size).toBe(1); // Wide target: a single row
+    });
+});
+
+describe('DISTRIBUTE solvers', () => {
+    it('centers items in equal horizontal slots', () => {
+        const items = [layer('a', 0, 0, 20, 20), layer('b', 30, 0, 20, 20), layer('c', 60, 0, 20, 20)];
+        const payload = remap({
+            layers: items,
+            layoutConstraints: { fit: 'none', anchor: 'top-left' },
+            strategy: strategy({ layoutMode: 'DISTRIBUTE_HORIZONTAL' })
+        });
+        // Layout rect is the 200px source at the target's top-left: slot centers at 1000 + 33.3, 100, 166.7
+        items.forEach((item, i) => {
+            const box = find(payload.layers, item.id).coords;
+            expect(box.x + box.w / 2).toBeCloseTo(1000 + (i + 0.5) * 200 / 3);
+        });
+    });
+
+    it('centers items in equal vertical slots', () => {
+        const items = [layer('a', 0, 0, 20, 20), layer('b', 0, 30, 20, 20)];
+        const payload = remap({
+            layers: items,
+            layoutConstraints: { fit: 'none', anchor: 'top-left' },
+            strategy: strategy({ layoutMode: 'DISTRIBUTE_VERTICAL' })
+        });
+        expect(find(payload.layers, 'a').coords.y + 10).toBeCloseTo(25);
+        expect(find(payload.layers, 'b').coords.y + 10).toBeCloseTo(75);
+    });
+
+    it('leaves pinned items out of the distribution', () => {
+        const items = [layer('a', 0, 0, 20, 20), layer('b', 30, 0, 20, 20), layer('pin', 60, 0, 20, 20)];
+        const payload = remap({
+            layers: items,
+            layoutConstraints: { fit: 'none', anchor: 'top-left' },
+            strategy: strategy({ layoutMode: 'DISTRIBUTE_HORIZONTAL', overrides: [override('pin', 300, 300)] })
+        });
+        expect(find(payload.layers, 'pin').coords).toMatchObject({ x: 1300, y: 300 });
+        expect(find(payload.layers, 'b').coords.x + 10).toBeCloseTo(1150);
+    });
+});
+
+describe('collision solver', () => {
+    const overlapping = [layer('a', 40, 40, 60, 40), layer('b', 70, 50, 60, 40)];
+
+    it('separates overlapping flow items by the padding', () => {
+        const payload = remap({
+            layers: overlapping,
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ physicsRules: { preventOverlap: true, overlapPadding: 8 } })
+        });
+        const a = find(payload.layers, 'a').coords;
+        const b = find(payload.layers, 'b').coords;
+        expect(intersection(a, b)).toBe(0);
+        const gapX = Math.max(b.x - (a.x + a.w), a.x - (b.x + b.w));
+        const gapY = Math.max(b.y - (a.y + a.h), a.y - (b.y + b.h));
+        expect(Math.max(gapX, gapY)).toBeGreaterThanOrEqual(7.5);
+        expect(payload.safetyReport?.violations.some(v => v.type === 'UNRESOLVED_OVERLAP') ?? false).toBe(false);
+    });
+
+    it('treats overridden items as fixed obstacles', () => {
+        const payload = remap({
+            layers: overlapping,
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ physicsRules: { preventOverlap: true }, overrides: [override('a', 80, 80)] })
+        });
+        const a = find(payload.layers, 'a').coords;
+        const b = find(payload.layers, 'b').coords;
+        expect(a).toMatchObject({ x: 1080, y: 80 });
+        expect(intersection(a, b)).toBe(0);
+    });
+
+    it('reports pairs that stay overlapping when both are pinned', () => {
+        const payload = remap({
+            layers: overlapping,
+            strategy: strategy({
+                physicsRules: { preventOverlap: true },
+                overrides: [override('a', 0, 0), override('b', 10, 10)]
+            })
+        });
+        const unresolved = payload.safetyReport?.violations.find(v => v.type === 'UNRESOLVED_OVERLAP');
+        expect(unresolved).toMatchObject({ layerId: 'a', otherLayerId: 'b', severity: 'error' });
+    });
+});
+
+describe('constraint solver', () => {
+    it('solves declared constraints against the target', () => {
+        const payload = remap({
+            layers: [layer('title', 20, 20, 50, 10), layer('cta', 20, 60, 50, 10)],
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({
+                constraints: [
+                    { layerId: 'title', attribute: 'left', relation: 'eq', constant: 10, unit: '%', strength: 'required' },
+                    { layerId: 'cta', attribute: 'top', relation: 'ge', toLayerId: 'title', toAttribute: 'bottom', constant: 100 }
+                ]
+            })
+        });
+        const title = find(payload.layers, 'title').coords;
+        const cta = find(payload.layers, 'cta').coords;
+        expect(title.x).toBeCloseTo(1040);
+        expect(cta.y).toBeGreaterThanOrEqual(title.y + title.h + 100 - 0.5);
+    });
+
+    it('keeps unpinned layers inside the clip rect with preventClipping', () => {
+        const payload = remap({
+            layers: [layer('edge', 180, 0, 60, 20)],
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ physicsRules: { preventClipping: true } })
+        });
+        expect(inside(find(payload.layers, 'edge').coords, SQUARE)).toBe(true);
+    });
+
+    it('reports conflicting required constraints', () => {
+        const payload = remap({
+            layers: [layer('a', 0, 0, 20, 20)],
+            strategy: strategy({
+                constraints: [
+                    { layerId: 'a', attribute: 'left', relation: 'eq', constant: 10, strength: 'required' },
+                    { layerId: 'a', attribute: 'left', relation: 'eq', constant: 300, strength: 'required' }
+                ]
+            })
+        });
+        const conflicts = payload.safetyReport?.violations.filter(v => v.type === 'CONSTRAINT_CONFLICT') || [];
+        expect(conflicts.length).toBeGreaterThan(0);
+        expect(conflicts[0].severity).toBe('error');
+    });
+
+    it('honours pins above required constraints', () => {
+        const frame = { x: 0, y: 0, w: 100, h: 100 };
+        const { boxes, conflicts } = solveLayoutConstraints(
+            frame,
+            [{ id: 'a', name: 'a', preferred: { x: 5, y: 5, w: 10, h: 10 }, pinned: true }],
+            [{ layerId: 'a', attribute: 'left', relation: 'eq', constant: 50, strength: 'required' }]
+        );
+        expect(boxes.get('a')?.x).toBeCloseTo(5);
+        expect(conflicts).toHaveLength(1);
+    });
+});
+
+// --- SAFETY AUDIT ---
+
+describe('safety audit', () => {
+    const overflowing = [layer('wide', 150, 0, 100, 20)]; // Contain-fitted: half of it lands outside the target
+
+    it('blocks the payload on large out-of-bounds areas', () => {
+        const payload = remap({ layers: overflowing, layoutConstraints: { fit: 'contain' } });
+        const violation = payload.safetyReport?.violations.find(v => v.type === 'OUT_OF_BOUNDS');
+        expect(violation?.severity).toBe('error');
+        expect(payload.safetyReport?.isAccepted).toBe(false);
+        expect(payload.status).toBe('awaiting_confirmation');
+    });
+
+    it('releases the payload once the user accepts the error', () => {
+        const first = remap({ layers: overflowing, layoutConstraints: { fit: 'contain' } });
+        const keys = first.safetyReport!.violations.filter(v => v.severity === 'error').map(getSafetyViolationKey);
+        const accepted = remap({ layers: overflowing, layoutConstraints: { fit: 'contain' }, acceptedViolations: keys });
+        expect(accepted.safetyReport?.isAccepted).toBe(true);
+        expect(accepted.status).toBe('success');
+    });
+
+    it('only warns for cover crops and pinned layers', () => {
+        const cover = remap({ layers: overflowing, layoutConstraints: { fit: 'cover' } });
+        expect(cover.safetyReport?.worstSeverity).toBe('warning');
+
+        const pinned = remap({ layers: overflowing, strategy: strategy({ overrides: [override('wide', 350, 0)] }) });
+        expect(pinned.safetyReport?.violations.find(v => v.type === 'OUT_OF_BOUNDS')?.severity).toBe('warning');
+    });
+
+    it('flags layers in the safe-area insets, except backgrounds', () => {
+        const safeRect = { x: 1000, y: 50, w: 400, h: 300 };
+        const layers = [layer('badge', 0, 0, 40, 40), layer('bg', 0, 0, 200, 100)];
+        const payload = remap({
+            layers,
+            safeRect,
+            strategy: strategy({ overrides: [override('badge', 0, 0), override('bg', 0, 0, { individualScale: 2, layoutRole: 'background' })] })
+        });
+        const unsafe = payload.safetyReport?.violations.filter(v => v.type === 'UNSAFE_ZONE') || [];
+        expect(unsafe.map(v => v.layerId)).toEqual(['badge']);
+        expect(unsafe[0].severity).toBe('warning'); // Pinned by an override
+    });
+
+    it('lays out full-bleed backgrounds against the target and content against the safe rect', () => {
+        const safeRect = { x: 1000, y: 50, w: 400, h: 300 };
+        const payload = remap({
+            layers: [layer('bg', 0, 0, 200, 100), layer('title', 50, 25, 100, 50)],
+            safeRect,
+            layoutConstraints: { fit: 'cover' }
+        });
+        const bg = find(payload.layers, 'bg').coords;
+        expect(inside(SQUARE, bg)).toBe(true); // No empty bands in the insets
+        expect(inside(find(payload.layers, 'title').coords, safeRect)).toBe(true);
+        expect(payload.safetyReport?.violations.some(v => v.type === 'UNSAFE_ZONE') ?? false).toBe(false);
+    });
+
+    it('reports overlaps between layers that were apart in the source', () => {
+        const payload = remap({
+            layers: [layer('a', 0, 0, 20, 20), layer('b', 100, 0, 20, 20)],
+            strategy: strategy({ overrides: [override('a', 0, 0), override('b', 5, 5)] })
+        });
+        const overlap = payload.safetyReport?.violations.find(v => v.type === 'OVERLAP');
+        expect(overlap).toMatchObject({ layerId: 'a', otherLayerId: 'b', severity: 'error' });
+    });
+
+    it('warns when the remap shrinks text below a legible size', () => {
+        const text: TextLayerData = { text: 'Legal copy', fontSize: 12, shapeType: 'point' };
+        const payload = remap({ layers: [layer('legal', 0, 0, 200, 14, { text })], targetRect: { x: 0, y: 0, w: 50, h: 25 }, layoutConstraints: { fit: 'contain' }, dropScaleThreshold: 0 });
+        const legibility = payload.safetyReport?.violations.find(v => v.type === 'MIN_LEGIBLE_SIZE');
+        expect(legibility?.layerId).toBe('legal');
+        expect(legibility?.severity).toBe('warning');
+    });
+});
+
+// --- PRIORITY DROPPING ---
+
+describe('priority dropping', () => {
+    const tiny: Rect = { x: 0, y: 0, w: 40, h: 20 }; // Contain scale 0.2
+    const layers = [
+        layer('logo', 0, 0, 40, 40, { priority: 1 }),
+        layer('tagline', 50, 0, 40, 20, { priority: 3 }),
+        layer('legal', 50, 80, 100, 10, { priority: 5 }),
+        layer('unranked', 100, 0, 40, 40),
+    ];
+
+    it('hides lower priorities first below the threshold', () => {
+        const payload = remap({ layers, targetRect: tiny, layoutConstraints: { fit: 'contain' } });
+        expect(payload.scaleFactor).toBeCloseTo(0.2);
+        expect(payload.droppedLayers?.map(d => d.layerId)).toEqual(['tagline', 'legal']);
+        expect(find(payload.layers, 'legal').isVisible).toBe(false);
+        expect(find(payload.layers, 'logo').isVisible).toBe(true);
+        expect(find(payload.layers, 'unranked').isVisible).toBe(true);
+        expect(payload.droppedLayers?.[1]).toMatchObject({ priority: 5, prioritySource: 'layer', minScale: 0.5 });
+    });
+
+    it('keeps middle priorities at moderate scales', () => {
+        const payload = remap({ layers, targetRect: { x: 0, y: 0, w: 80, h: 40 }, layoutConstraints: { fit: 'contain' } }); // 0.4
+        expect(payload.droppedLayers?.map(d => d.layerId)).toEqual(['legal']);
+    });
+
+    it('is disabled by a zero threshold', () => {
+        const payload = remap({ layers, targetRect: tiny, layoutConstraints: { fit: 'contain' }, dropScaleThreshold: 0 });
+        expect(payload.droppedLayers).toBeUndefined();
+    });
+
+    it('lets Analyst priorities replace name-derived ones and restores Reviewer picks', () => {
+        const payload = remap({
+            layers,
+            targetRect: tiny,
+            layoutConstraints: { fit: 'contain' },
+            strategy: strategy({ layerPriorities: [{ layerId: 'tagline', priority: 1 }, { layerId: 'unranked', priority: 5 }] }),
+            feedback: { overrides: [], restoredLayerIds: ['legal'] }
+        });
+        expect(payload.droppedLayers?.map(d => [d.layerId, d.prioritySource])).toEqual([['unranked', 'analyst']]);
+    });
+
+    it('gives unranked top-level layers the template priority', () => {
+        const payload = remap({ layers, targetRect: tiny, layoutConstraints: { fit: 'contain', priority: 4 } });
+        expect(payload.droppedLayers?.map(d => [d.layerId, d.prioritySource])).toEqual([['tagline', 'layer'], ['legal', 'layer'], ['unranked', 'template']]);
+        expect(find(payload.layers, 'logo').isVisible).toBe(true);
+    });
+
+    it('drops a group with its subtree and records only the group', () => {
+        const payload = remap({
+            layers: [group('footer', [layer('f1', 0, 80, 20, 10), layer('f2', 30, 80, 20, 10)], { priority: 5 })],
+            targetRect: tiny,
+            layoutConstraints: { fit: 'contain' }
+        });
+        expect(payload.droppedLayers?.map(d => d.layerId)).toEqual(['footer']);
+    });
+});
@@ -0,0 +1,987 @@
+import { SerializableLayer, TransformedLayer, TransformedPayload, LayoutStrategy, FeedbackStrategy, ContainerConstraints, ConstraintAnchor, ConstraintFit, RemapStrategy, GridConfig, SafetyViolation, SafetyReport, ValidationSeverity, LayoutConstraint, Point, OpticalBoundsMap, DroppedLayer, MAX_BOUNDARY_VIOLATION_PERCENT, LAYER_PRIORITY_LOWEST } from '../types';
+import { Rect, isRectInsidePolygon, getPolygonCentroid, getOverflowRatio } from './geometry';
+import { TextMeasurer, estimateTextWidth, fitTextLayout } from './textLayout';
+import { solveLayoutConstraints, LayoutItem } from './constraintSolver';
+
+/**
+ * Remap Engine.
+ * Pure layout core of the Remapper: maps a source container's layer tree into a target container
+ * (relative positioning, overrides, generative swaps, physics solvers) and derives the payload status.
+ * No React, store, DOM or network access, so batch runners, CLIs and tests can reuse it. Text is measured
+ * through RemapRequest.measureText (the browser passes a canvas measurer).
+ */
+
+/**
+ * Resolves the rect that source content is mapped into, applying template constraints as hard defaults.
+ * 'pad' insets the container, 'fit' derives the scale from the padded rect and 'anchor' positions the
+ * scaled source rect inside it. Without fit/anchor the content is mapped proportionally (legacy behaviour).
+ */
+export const resolveConstrainedLayout = (
+    sourceRect: { x: number, y: number, w: number, h: number },
+    targetRect: { x: number, y: number, w: number, h: number },
+    constraints: ContainerConstraints | undefined,
+    fallbackScale: number
+): { rect: { x: number, y: number, w: number, h: number }, scaleX: number, scaleY: number } => {
+    const pad = constraints?.pad ?? 0;
+    const inner = {
+        x: targetRect.x + pad,
+        y: targetRect.y + pad,
+        w: Math.max(1, targetRect.w - pad * 2),
+        h: Math.max(1, targetRect.h - pad * 2)
+    };
+
+    if (!constraints?.fit && !constraints?.anchor) {
+        return { rect: inner, scaleX: fallbackScale, scaleY: fallbackScale };
+    }
+
+    let scaleX = fallbackScale;
+    let scaleY = fallbackScale;
+    switch (constraints.fit) {
+        case 'contain':
+            scaleX = scaleY = Math.min(inner.w / sourceRect.w, inner.h / sourceRect.h);
+            break;
+        case 'cover':
+            scaleX = scaleY = Math.max(inner.w / sourceRect.w, inner.h / sourceRect.h);
+            break;
+        case 'stretch':
+            scaleX = inner.w / sourceRect.w;
+            scaleY = inner.h / sourceRect.h;
+            break;
+        case 'none':
+            scaleX = scaleY = 1;
+            break;
+    }
+
+    const w = sourceRect.w * scaleX;
+    const h = sourceRect.h * scaleY;
+    const anchor = constraints.anchor || 'center';
+
+    const x = anchor.endsWith('left') ? inner.x
+        : anchor.endsWith('right') ? inner.x + inner.w - w
+        : inner.x + (inner.w - w) / 2;
+    const y = anchor.startsWith('top') ? inner.y
+        : anchor.startsWith('bottom') ? inner.y + inner.h - h
+        : inner.y + (inner.h - h) / 2;
+
+    return { rect: { x, y, w, h }, scaleX, scaleY };
+};
+
+/**
+ * Visual extent of a transformed layer. Groups carry no pixel bounds of their own, so their
+ * extent is the union of their descendants. Optical boxes (trimmed pixels) win over layer boxes.
+ */
+type ExtentNode = { coords: Rect, opticalCoords?: Rect, children?: ExtentNode[] };
+
+const getLayerExtent = (layer: ExtentNode): Rect => {
+    const rects: Rect[] = [];
+    const collect = (node: ExtentNode) => {
+        const box = node.opticalCoords || node.coords;
+        if (box.w > 0 && box.h > 0) rects.push(box);
+        node.children?.forEach(collect);
+    };
+    collect(layer);
+    if (rects.length === 0) return { ...layer.coords };
+
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.w));
+    const maxY = Math.max(...rects.map(r => r.y + r.h));
+    return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+};
+
+/**
+ * Translates a layer together with its subtree so groups move as one unit.
+ */
+const translateLayer = (layer: TransformedLayer, dx: number, dy: number) => {
+    layer.coords.x += dx;
+    layer.coords.y += dy;
+    layer.transform.offsetX = layer.coords.x;
+    layer.transform.offsetY = layer.coords.y;
+    if (layer.opticalCoords) layer.opticalCoords = { ...layer.opticalCoords, x: layer.opticalCoords.x + dx, y: layer.opticalCoords.y + dy };
+    layer.children?.forEach(child => translateLayer(child, dx, dy));
+};
+
+/**
+ * Rescales a layer subtree around (originX, originY). Text is re-fitted at the new size.
+ */
+const scaleLayer = (layer: TransformedLayer, factorX: number, factorY: number, originX: number, originY: number, measure: TextMeasurer) => {
+    layer.coords.x = originX + (layer.coords.x - originX) * factorX;
+    layer.coords.y = originY + (layer.coords.y - originY) * factorY;
+    layer.coords.w *= factorX;
+    layer.coords.h *= factorY;
+    layer.transform.scaleX *= factorX;
+    layer.transform.scaleY *= factorY;
+    layer.transform.offsetX = layer.coords.x;
+    layer.transform.offsetY = layer.coords.y;
+    if (layer.opticalCoords) {
+        const optical = layer.opticalCoords;
+        layer.opticalCoords = {
+            x: originX + (optical.x - originX) * factorX,
+            y: originY + (optical.y - originY) * factorY,
+            w: optical.w * factorX,
+            h: optical.h * factorY
+        };
+    }
+    if (layer.text) layer.text = fitTextLayout(layer.text, layer.coords.w, layer.coords.h, Math.min(factorX, factorY), measure);
+    layer.children?.forEach(child => scaleLayer(child, factorX, factorY, originX, originY, measure));
+};
+
+/**
+ * Moves and resizes a layer subtree so its extent matches `box`.
+ */
+const fitLayerToBox = (layer: TransformedLayer, box: Rect, measure: TextMeasurer) => {
+    const extent = getLayerExtent(layer);
+    const factorX = extent.w > 0 ? box.w / extent.w : 1;
+    const factorY = extent.h > 0 ? box.h / extent.h : 1;
+    if (Math.abs(factorX - 1) > 1e-3 || Math.abs(factorY - 1) > 1e-3) {
+        scaleLayer(layer, factorX, factorY, extent.x, extent.y, measure);
+    }
+    translateLayer(layer, box.x - extent.x, box.y - extent.y);
+};
+
+/**
+ * Carries an ancestor's move onto its subtree during placement: p' = p * scale + offset.
+ */
+type LayerFollow = { scale: number, offsetX: number, offsetY: number };
+const IDENTITY_FOLLOW: LayerFollow = { scale: 1, offsetX: 0, offsetY: 0 };
+
+interface GroupSolveScope {
+    depth: number;
+    runLayout: boolean; // This level receives the strategy's layoutMode
+    pinned: boolean; // Inside an overridden group: boundary physics is suspended
+}
+
+/**
+ * GRID solver: packs items into rows x cols cells separated by a uniform gutter.
+ * Unspecified rows/cols are derived from the item count and the area's aspect ratio by picking the
+ * grid that allows the largest uniform item size (ties go to the grid with fewer empty cells).
+ * Items keep reading order, are shrunk (never enlarged) to fit their cell, and are aligned inside it.
+ */
+const solveGridLayout = (items: TransformedLayer[], area: Rect, config: GridConfig, measure: TextMeasurer) => {
+    const count = items.length;
+    if (count === 0 || area.w <= 0 || area.h <= 0) return;
+
+    const gutter = Math.max(0, config.gutter ?? Math.round(Math.min(area.w, area.h) * 0.02));
+    const align = config.align || 'center';
+    const extents = items.map(getLayerExtent);
+    const avgW = Math.max(1, extents.reduce((sum, e) => sum + e.w, 0) / count);
+    const avgH = Math.max(1, extents.reduce((sum, e) => sum + e.h, 0) / count);
+
+    const getCell = (cols: number, rows: number) => ({
+        w: (area.w - gutter * (cols - 1)) / cols,
+        h: (area.h - gutter * (rows - 1)) / rows
+    });
+
+    let cols = Math.max(0, Math.floor(config.cols ?? 0));
+    let rows = Math.max(0, Math.floor(config.rows ?? 0));
+    if (cols > 0 && rows > 0 && cols * rows < count) rows = 0; // Too few cells: keep the column count, add rows
+    if (cols > 0 && !rows) rows = Math.ceil(count / cols);
+    else if (rows > 0 && !cols) cols = Math.ceil(count / rows);
+    else if (!cols && !rows) {
+        let bestFit = -Infinity;
+        let bestWaste = Infinity;
+        for (let c = 1; c <= count; c++) {
+            const r = Math.ceil(count / c);
+            const cell = getCell(c, r);
+            if (cell.w <= 0 || cell.h <= 0) continue;
+            const fit = Math.min(cell.w / avgW, cell.h / avgH);
+            const waste = c * r - count;
+            if (fit > bestFit + 1e-6 || (Math.abs(fit - bestFit) <= 1e-6 && waste < bestWaste)) {
+                bestFit = fit;
+                bestWaste = waste;
+                cols = c;
+                rows = r;
+            }
+        }
+        if (!cols) { cols = count; rows = 1; }
+    }
+
+    const cell = getCell(cols, rows);
+    if (cell.w <= 0 || cell.h <= 0) return;
+
+    // Reading order: row bands of roughly one item height, then left to right
+    const order = items.map((item, index) => ({ item, extent: extents[index] }));
+    order.sort((a, b) => {
+        const bandA = Math.round((a.extent.y + a.extent.h / 2) / avgH);
+        const bandB = Math.round((b.extent.y + b.extent.h / 2) / avgH);
+        return bandA !== bandB ? bandA - bandB : a.extent.x - b.extent.x;
+    });
+
+    const place = (start: number, space: number, size: number) => {
+        if (align === 'start') return start;
+        if (align === 'end') return start + space - size;
+        return start + (space - size) / 2;
+    };
+
+    order.forEach(({ item, extent }, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        const itemsInRow = Math.min(cols, count - row * cols);
+        const rowWidth = itemsInRow * cell.w + (itemsInRow - 1) * gutter;
+        const rowX = place(area.x, area.w, rowWidth); // Partial last row follows the alignment too
+
+        const cellX = rowX + col * (cell.w + gutter);
+        const cellY = area.y + row * (cell.h + gutter);
+
+        const fit = Math.min(1, cell.w / Math.max(1, extent.w), cell.h / Math.max(1, extent.h));
+        if (fit < 1) scaleLayer(item, fit, fit, extent.x, extent.y, measure);
+
+        const w = extent.w * fit;
+        const h = extent.h * fit;
+        translateLayer(item, place(cellX, cell.w, w) - extent.x, place(cellY, cell.h, h) - extent.y);
+    });
+};
+
+const DEFAULT_OVERLAP_PADDING = 10;
+const OVERLAP_ERROR_RATIO = 0.5; // Share of the smaller layer hidden before an overlap blocks the payload
+const MAX_COLLISION_ITERATIONS = 60;
+
+const getOverlapSeverity = (ratio: number): ValidationSeverity => ratio > OVERLAP_ERROR_RATIO ? 'error' : 'warning';
+
+const getIntersectionArea = (a: Rect, b: Rect): number => {
+    const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+    const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+    return w > 0 && h > 0 ? w * h : 0;
+};
+
+// Share of the source rect a layer must cover to count as a full-bleed background
+const FULL_BLEED_COVERAGE = 0.95;
+
+const intersectRects = (a: Rect, b: Rect): Rect => {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    return { x, y, w: Math.max(1, Math.min(a.x + a.w, b.x + b.w) - x), h: Math.max(1, Math.min(a.y + a.h, b.y + b.h) - y) };
+};
+
+/**
+ * Largest part of `area` left beside each obstacle (the band above, below, left or right of it),
+ * so layout modes never deal slots over pinned layers. Obstacles outside the area are ignored.
+ */
+const excludeObstacles = (area: Rect, obstacles: Rect[]): Rect => {
+    return obstacles.reduce((free, obstacle) => {
+        if (getIntersectionArea(free, obstacle) <= 0) return free;
+        const bands: Rect[] = [
+            { x: free.x, y: free.y, w: free.w, h: obstacle.y - free.y },
+            { x: free.x, y: obstacle.y + obstacle.h, w: free.w, h: free.y + free.h - (obstacle.y + obstacle.h) },
+            { x: free.x, y: free.y, w: obstacle.x - free.x, h: free.h },
+            { x: obstacle.x + obstacle.w, y: free.y, w: free.x + free.w - (obstacle.x + obstacle.w), h: free.h }
+        ];
+        const best = bands.reduce((a, b) => (b.w > 0 && b.h > 0 && b.w * b.h > a.w * a.h ? b : a), { ...free, w: 0, h: 0 });
+        return best.w > 0 && best.h > 0 ? best : free;
+    }, area);
+};
+
+/**
+ * COLLISION SOLVER: iterative relaxation with separating-axis minimal displacement.
+ * Each overlapping pair (gap < padding) is pushed apart along the axis of least penetration, split
+ * between both items (locked items never move), and every movable item is kept inside `bounds`.
+ * Pairs still overlapping after relaxation are returned as UNRESOLVED_OVERLAP violations.
+ */
+const resolveCollisions = (
+    items: TransformedLayer[],
+    bounds: Rect,
+    padding: number,
+    isLocked: (layer: TransformedLayer) => boolean
+): SafetyViolation[] => {
+    const bodies = items.map(layer => {
+        const extent = getLayerExtent(layer);
+        return { layer, origin: { x: extent.x, y: extent.y }, rect: extent, locked: isLocked(layer) };
+    });
+
+    const clampToBounds = (rect: Rect) => {
+        rect.x = rect.w >= bounds.w ? bounds.x + (bounds.w - rect.w) / 2 : Math.max(bounds.x, Math.min(rect.x, bounds.x + bounds.w - rect.w));
+        rect.y = rect.h >= bounds.h ? bounds.y + (bounds.h - rect.h) / 2 : Math.max(bounds.y, Math.min(rect.y, bounds.y + bounds.h - rect.h));
+    };
+    bodies.forEach(body => { if (!body.locked) clampToBounds(body.rect); });
+
+    for (let iteration = 0; iteration < MAX_COLLISION_ITERATIONS; iteration++) {
+        let moved = false;
+
+        for (let i = 0; i < bodies.length; i++) {
+            for (let j = i + 1; j < bodies.length; j++) {
+                const a = bodies[i];
+                const b = bodies[j];
+                if (a.locked && b.locked) continue;
+
+                const penetrationX = Math.min(a.rect.x + a.rect.w, b.rect.x + b.rect.w) - Math.max(a.rect.x, b.rect.x) + padding;
+                const penetrationY = Math.min(a.rect.y + a.rect.h, b.rect.y + b.rect.h) - Math.max(a.rect.y, b.rect.y) + padding;
+                if (penetrationX <= 0.5 || penetrationY <= 0.5) continue;
+
+                // Separate along the axis of least penetration, away from each other's centers
+                const axis: 'x' | 'y' = penetrationX <= penetrationY ? 'x' : 'y';
+                const size = axis === 'x' ? 'w' : 'h';
+                const depth = axis === 'x' ? penetrationX : penetrationY;
+                const direction = (b.rect[axis] + b.rect[size] / 2) >= (a.rect[axis] + a.rect[size] / 2) ? 1 : -1;
+
+                const shareA = a.locked ? 0 : b.locked ? 1 : 0.5;
+                const shareB = 1 - shareA;
+                a.rect[axis] -= direction * depth * shareA;
+                b.rect[axis] += direction * depth * shareB;
+                if (!a.locked) clampToBounds(a.rect);
+                if (!b.locked) clampToBounds(b.rect);
+                moved = true;
+            }
+        }
+
+        if (!moved) break;
+    }
+
+    bodies.forEach(body => {
+        if (!body.locked) translateLayer(body.layer, body.rect.x - body.origin.x, body.rect.y - body.origin.y);
+    });
+
+    // Report pairs that still physically overlap (padding shortfalls alone are tolerated)
+    const violations: SafetyViolation[] = [];
+    for (let i = 0; i < bodies.length; i++) {
+        for (let j = i + 1; j < bodies.length; j++) {
+            const a = bodies[i];
+            const b = bodies[j];
+            const area = getIntersectionArea(a.rect, b.rect);
+            if (area <= 0) continue;
+            const ratio = area / Math.max(1, Math.min(a.rect.w * a.rect.h, b.rect.w * b.rect.h));
+            violations.push({
+                type: 'UNRESOLVED_OVERLAP',
+                severity: getOverlapSeverity(ratio),
+                layerId: a.layer.id,
+                layerName: a.layer.name,
+                otherLayerId: b.layer.id,
+                otherLayerName: b.layer.name,
+                ratio,
+                message: `'${a.layer.name}' still overlaps '${b.layer.name}' by ${Math.round(ratio * 100)}%${a.locked && b.locked ? ' (both pinned by overrides)' : ''}.`
+            });
+        }
+    }
+    return violations;
+};
+
+const REMAP_STRATEGY_FITS: Record<RemapStrategy, ConstraintFit> = {
+    STRETCH: 'stretch',
+    UNIFORM_FIT: 'contain',
+    UNIFORM_FILL: 'cover',
+    NONE: 'none',
+};
+
+const STRATEGY_ANCHORS: Record<LayoutStrategy['anchor'], ConstraintAnchor | undefined> = {
+    TOP: 'top',
+    CENTER: 'center',
+    BOTTOM: 'bottom',
+    STRETCH: undefined, // Expressed as a fit mode instead
+};
+
+/**
+ * Merges the layout sources into one constraint set. Precedence (highest first):
+ * template constraints -> instance settings (Remapper UI) -> Analyst anchor.
+ */
+export const resolveLayoutConstraints = (
+    templateConstraints: ContainerConstraints | undefined,
+    remapStrategy: RemapStrategy | undefined,
+    remapAnchor: ConstraintAnchor | undefined,
+    strategy: LayoutStrategy | undefined
+): ContainerConstraints | undefined => {
+    const analystFit: ConstraintFit | undefined = strategy?.anchor === 'STRETCH' ? 'stretch' : undefined;
+    const analystAnchor = strategy?.anchor ? STRATEGY_ANCHORS[strategy.anchor] : undefined;
+
+    const merged: ContainerConstraints = {
+        ...templateConstraints,
+        fit: templateConstraints?.fit ?? (remapStrategy ? REMAP_STRATEGY_FITS[remapStrategy] : analystFit),
+        anchor: templateConstraints?.anchor ?? remapAnchor ?? analystAnchor,
+    };
+
+    return merged.fit || merged.anchor || merged.pad || merged.priority !== undefined ? merged : undefined;
+};
+
+// --- SAFETY AUDIT ---
+
+const OUT_OF_BOUNDS_ERROR_RATIO = 0.25;
+const MIN_LEGIBLE_FONT_PX = 9;
+const MIN_CRITICAL_FONT_PX = 6;
+const MIN_LEGIBLE_GRAPHIC_PX = 8;
+
+const SEVERITY_RANK: Record<ValidationSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+/**
+ * Identifies a violation across re-renders (used to remember which errors the user accepted).
+ */
+export const getSafetyViolationKey = (violation: SafetyViolation): string => {
+    return [violation.type, violation.layerId, violation.otherLayerId || ''].join(':');
+};
+
+interface LayoutAuditContext {
+    sourceIndex: Map<string, SerializableLayer>;
+    clipRect: Rect;
+    clipPolygon?: Point[];
+    safeRect?: Rect;
+    allowBleed: boolean; // Cover crops and AI-declared bleed: out-of-bounds never blocks
+    isPinned: (layer: TransformedLayer) => boolean;
+    isBackground: (layer: TransformedLayer) => boolean; // Backgrounds may fill the safe-area insets
+    reported: SafetyViolation[]; // Solver violations already raised (not duplicated as OVERLAP)
+}
+
+/**
+ * Measures the solved layout per visible layer: area outside the clip rect/shape or inside the safe-area
+ * insets, new overlaps with siblings that were apart in the source, and text or graphics shrunk below a legible size.
+ */
+const auditLayout = (layers: TransformedLayer[], context: LayoutAuditContext): SafetyViolation[] => {
+    const violations: SafetyViolation[] = [];
+    const reportedPairs = new Set(context.reported.flatMap(v => [`${v.layerId}|${v.otherLayerId}`, `${v.otherLayerId}|${v.layerId}`]));
+
+    const auditLevel = (siblings: TransformedLayer[], pinnedAncestor: boolean, backgroundAncestor: boolean) => {
+        const visible = siblings.filter(l => l.isVisible && l.type !== 'generative');
+
+        // OVERLAP: pairs that were apart in the source
+        for (let i = 0; i < visible.length; i++) {
+            for (let j = i + 1; j < visible.length; j++) {
+                const a = visible[i];
+                const b = visible[j];
+                if (reportedPairs.has(`${a.id}|${b.id}`) || a.linkedAnchorId === b.id || b.linkedAnchorId === a.id) continue;
+                const sourceA = context.sourceIndex.get(a.id);
+                const sourceB = context.sourceIndex.get(b.id);
+                if (!sourceA || !sourceB || getIntersectionArea(getLayerExtent(sourceA), getLayerExtent(sourceB)) > 0) continue;
+
+                const extentA = getLayerExtent(a);
+                const extentB = getLayerExtent(b);
+                const ratio = getIntersectionArea(extentA, extentB) / Math.max(1, Math.min(extentA.w * extentA.h, extentB.w * extentB.h));
+                if (ratio <= 0.01) continue;
+                violations.push({
+                    type: 'OVERLAP',
+                    severity: getOverlapSeverity(ratio),
+                    layerId: a.id,
+                    layerName: a.name,
+                    otherLayerId: b.id,
+                    otherLayerName: b.name,
+                    ratio,
+                    message: `'${a.name}' now covers ${Math.round(ratio * 100)}% of '${b.name}' (apart in the source).`
+                });
+            }
+        }
+
+        visible.forEach(layer => {
+            const pinned = pinnedAncestor || context.isPinned(layer);
+            const background = backgroundAncestor || context.isBackground(layer);
+            if (layer.children) {
+                auditLevel(layer.children, pinned, background);
+                return;
+            }
+
+            const extent = getLayerExtent(layer);
+            if (extent.w <= 0 || extent.h <= 0) return;
+
+            // OUT_OF_BOUNDS: overrides and bleed-tolerant layouts are reported but never block
+            const overflow = getOverflowRatio(extent, context.clipRect, context.clipPolygon);
+            if (overflow > MAX_BOUNDARY_VIOLATION_PERCENT) {
+                const blocking = overflow > OUT_OF_BOUNDS_ERROR_RATIO && !pinned && !context.allowBleed;
+                violations.push({
+                    type: 'OUT_OF_BOUNDS',
+                    severity: blocking ? 'error' : 'warning',
+                    layerId: layer.id,
+                    layerName: layer.name,
+                    ratio: overflow,
+                    message: `'${layer.name}' extends ${Math.round(overflow * 100)}% outside the ${context.clipPolygon ? 'shape' : 'container'}.`
+                });
+            }
+
+            // UNSAFE_ZONE: only the share still inside the container counts (the rest is OUT_OF_BOUNDS)
+            if (context.safeRect && !background) {
+                const unsafe = getOverflowRatio(extent, context.safeRect) - overflow;
+                if (unsafe > MAX_BOUNDARY_VIOLATION_PERCENT) {
+                    const blocking = unsafe > OUT_OF_BOUNDS_ERROR_RATIO && !pinned && !context.allowBleed;
+                    violations.push({
+                        type: 'UNSAFE_ZONE',
+                        severity: blocking ? 'error' : 'warning',
+                        layerId: layer.id,
+                        layerName: layer.name,
+                        ratio: unsafe,
+                        message: `'${layer.name}' has ${Math.round(unsafe * 100)}% of its area in the container's safe-area insets.`
+                    });
+                }
+            }
+
+            // MIN_LEGIBLE_SIZE: only flags layers the remap shrank (tiny source details are by design)
+            const source = context.sourceIndex.get(layer.id);
+            if (layer.text) {
+                const fontSize = layer.text.fontSize;
+                if (fontSize < MIN_LEGIBLE_FONT_PX && (!source?.text || source.text.fontSize > fontSize)) {
+                    violations.push({
+                        type: 'MIN_LEGIBLE_SIZE',
+                        severity: fontSize < MIN_CRITICAL_FONT_PX ? 'error' : 'warning',
+                        layerId: layer.id,
+                        layerName: layer.name,
+                        ratio: fontSize / MIN_LEGIBLE_FONT_PX,
+                        message: `Text '${layer.name}' is set at ${fontSize.toFixed(1)}px (minimum legible ${MIN_LEGIBLE_FONT_PX}px).`
+                    });
+                }
+            } else if (source) {
+                const edge = Math.min(extent.w, extent.h);
+                const sourceEdge = Math.min(source.coords.w, source.coords.h);
+                if (edge < MIN_LEGIBLE_GRAPHIC_PX && sourceEdge >= MIN_LEGIBLE_GRAPHIC_PX) {
+                    violations.push({
+                        type: 'MIN_LEGIBLE_SIZE',
+                        severity: 'warning',
+                        layerId: layer.id,
+                        layerName: layer.name,
+                        ratio: edge / MIN_LEGIBLE_GRAPHIC_PX,
+                        message: `'${layer.name}' shrank to ${Math.round(extent.w)}x${Math.round(extent.h)}px.`
+                    });
+                }
+            }
+        });
+    };
+
+    auditLevel(layers, false, false);
+    return violations;
+};
+
+/**
+ * Builds the payload's safety report. `acceptedKeys` are the violation keys the user accepted.
+ */
+const buildSafetyReport = (violations: SafetyViolation[], acceptedKeys: string[] = []): SafetyReport | undefined => {
+    if (violations.length === 0) return undefined;
+    const worstSeverity = violations.reduce<ValidationSeverity>((worst, v) => SEVERITY_RANK[v.severity] > SEVERITY_RANK[worst] ? v.severity : worst, 'info');
+    const accepted = new Set(acceptedKeys);
+    const isAccepted = violations.every(v => v.severity !== 'error' || accepted.has(getSafetyViolationKey(v)));
+    return { violations, worstSeverity, isAccepted };
+};
+
+// --- PRIORITY DROPPING ---
+
+export const DEFAULT_DROP_SCALE_THRESHOLD = 0.5;
+
+/**
+ * Scale below which a layer of `priority` is hidden. The cut-offs are staggered from `threshold`
+ * (lowest priority, dropped first) down to 0 for priority 1, which is never dropped.
+ */
+const getDropMinScale = (priority: number, threshold: number): number => {
+    return threshold * (priority - 1) / (LAYER_PRIORITY_LOWEST - 1);
+};
+
+interface DropContext {
+    scale: number;
+    threshold: number;
+    analystPriorities: Map<string, number>;
+    templatePriority?: number; // Container `priority=`: applies to top-level layers without their own
+    restored: Set<string>; // FeedbackStrategy.restoredLayerIds
+    keepLayerId?: string | null; // Generative replacement target
+}
+
+/**
+ * Picks the layers to hide at `scale`. Analyst priorities replace name-derived ones, which replace the
+ * template's; a dropped group takes its subtree with it, so only the outermost dropped layer is recorded.
+ */
+const selectDroppedLayers = (layers: SerializableLayer[], context: DropContext): DroppedLayer[] => {
+    const dropped: DroppedLayer[] = [];
+    const walk = (nodes: SerializableLayer[], depth: number) => nodes.forEach(layer => {
+        const analystPriority = context.analystPriorities.get(layer.id);
+        const templatePriority = depth === 0 ? context.templatePriority : undefined;
+        const priority = analystPriority ?? layer.priority ?? templatePriority;
+        if (priority !== undefined && layer.isVisible && !context.restored.has(layer.id) && layer.id !== context.keepLayerId) {
+            const minScale = getDropMinScale(priority, context.threshold);
+            if (context.scale < minScale) {
+                dropped.push({
+                    layerId: layer.id,
+                    layerName: layer.name,
+                    priority,
+                    prioritySource: analystPriority !== undefined ? 'analyst' : layer.priority !== undefined ? 'layer' : 'template',
+                    minScale,
+                    reason: `Priority ${priority} needs ${Math.round(minScale * 100)}% scale; the target renders at ${Math.round(context.scale * 100)}%.`
+                });
+                return;
+            }
+        }
+        if (layer.children) walk(layer.children, depth + 1);
+    });
+    walk(layers, 0);
+    return dropped;
+};
+
+// --- ENGINE ---
+
+export interface RemapRequest {
+    layers: SerializableLayer[];
+    sourceRect: Rect;
+    targetRect: Rect;
+    clipRect?: Rect; // Parent container rect when targeting a nested slot (defaults to targetRect)
+    clipPolygon?: Point[];
+    safeRect?: Rect; // Target rect minus safe-area insets, see getContainerSafeRect (non-background content stays inside)
+    strategy?: LayoutStrategy;
+    feedback?: FeedbackStrategy; // Reviewer overrides replace the Analyst's
+    layoutConstraints?: ContainerConstraints; // Effective fit/anchor, see resolveLayoutConstraints
+    generationAllowed?: boolean; // Default true
+    confirmedPrompt?: string; // Generative prompt the user confirmed for this instance
+    opticalBounds?: OpticalBoundsMap; // When set, placement, solvers and the audit use trimmed pixels (see getLayerOpticalBounds)
+    acceptedViolations?: string[]; // getSafetyViolationKey of 'error' violations the user accepted
+    dropScaleThreshold?: number; // Default DEFAULT_DROP_SCALE_THRESHOLD, 0 disables priority dropping
+    measureText?: TextMeasurer; // Text fitting; defaults to the DOM-free estimateTextWidth
+    sourceNodeId: string;
+    sourceContainer: string;
+    targetContainer: string;
+}
+
+/**
+ * Phase 3.2: Merge Strategy with Feedback (Reviewer overrides replace the Analyst's).
+ */
+export const mergeFeedbackStrategy = (strategy: LayoutStrategy | undefined, feedback: FeedbackStrategy | undefined): LayoutStrategy | undefined => {
+    if (feedback && feedback.overrides.length > 0) {
+        return { ...strategy, overrides: feedback.overrides } as LayoutStrategy;
+    }
+    return strategy;
+};
+
+/**
+ * Remaps `layers` from `sourceRect` into `targetRect`.
+ * Preview bookkeeping (previewUrl, generationId, isSynthesizing, isTransient) is owned by the caller and left unset.
+ */
+export const remapLayers = (request: RemapRequest): TransformedPayload => {
+    const { layers, sourceRect, targetRect, clipPolygon, safeRect, layoutConstraints, opticalBounds } = request;
+    const clipRect = request.clipRect || targetRect;
+    const contentClipRect = safeRect ? intersectRects(clipRect, safeRect) : clipRect;
+    const generationAllowed = request.generationAllowed ?? true;
+    const measure = request.measureText || estimateTextWidth;
+    const strategy = mergeFeedbackStrategy(request.strategy, request.feedback);
+
+    // STEP 2: Target-Relative Scaling (Template constraints > instance fit mode > Analyst anchor > AI scale)
+    // Content is mapped into the safe rect; the insets are reserved for the target's UI chrome.
+    // Backgrounds (Analyst role, or covering the source) still fill the whole target.
+    const constrainedLayout = resolveConstrainedLayout(sourceRect, safeRect || targetRect, layoutConstraints, strategy?.suggestedScale || 1.0);
+    const bleedLayout = safeRect
+        ? resolveConstrainedLayout(sourceRect, targetRect, layoutConstraints, strategy?.suggestedScale || 1.0)
+        : constrainedLayout;
+    const layoutRect = constrainedLayout.rect;
+    const globalScale = Math.max(constrainedLayout.scaleX, constrainedLayout.scaleY);
+
+    const getOverride = (layerId: string) => strategy?.overrides?.find(o => o.layerId === layerId);
+    const isPinned = (l: TransformedLayer) => !!getOverride(l.id);
+    // Judged on the source geometry (placed layers have target coords)
+    const isFullBleed = (layerId: string) => {
+        const source = sourceIndex.get(layerId);
+        if (!source) return false;
+        const covered = intersectRects(source.coords, sourceRect);
+        return covered.w * covered.h >= FULL_BLEED_COVERAGE * sourceRect.w * sourceRect.h;
+    };
+    const isBackground = (l: SerializableLayer) => getOverride(l.id)?.layoutRole === 'background' || isFullBleed(l.id);
+
+    // STEP 2b: Priority dropping. Below the threshold the least important layers are hidden (and left out of
+    // the solvers) instead of shrinking everything into illegibility
+    const dropThreshold = request.dropScaleThreshold ?? DEFAULT_DROP_SCALE_THRESHOLD;
+    const droppedLayers = dropThreshold > 0 && globalScale < dropThreshold
+        ? selectDroppedLayers(layers, {
+            scale: globalScale,
+            threshold: dropThreshold,
+            analystPriorities: new Map((strategy?.layerPriorities || []).map(p => [p.layerId, p.priority])),
+            templatePriority: layoutConstraints?.priority !== undefined
+                ? Math.min(LAYER_PRIORITY_LOWEST, Math.max(1, Math.round(layoutConstraints.priority)))
+                : undefined,
+            restored: new Set(request.feedback?.restoredLayerIds),
+            keepLayerId: generationAllowed ? strategy?.replaceLayerId : undefined
+        })
+        : [];
+    const droppedIds = new Set(droppedLayers.map(d => d.layerId));
+    const isActive = (l: TransformedLayer) => !droppedIds.has(l.id);
+
+    // Source layers at every depth (overlay offsets and aspect ratios of nested layers)
+    const sourceIndex = new Map<string, SerializableLayer>();
+    const indexSource = (nodes: SerializableLayer[]) => nodes.forEach(node => {
+        sourceIndex.set(node.id, node);
+        if (node.children) indexSource(node.children);
+    });
+    indexSource(layers);
+
+    const placeLayers = (layers: SerializableLayer[], follow: LayerFollow, inBackground: boolean = false): TransformedLayer[] => {
+        return layers.map(layer => {
+            const background = inBackground || isBackground(layer);
+            const layout = background ? bleedLayout : constrainedLayout;
+            // Optical alignment positions the visible pixels; the layer box keeps its scaled padding around them
+            const optical = !layer.children ? opticalBounds?.[layer.id] : undefined;
+            const anchorBox = optical || layer.coords;
+            const relX = (anchorBox.x - sourceRect.x) / sourceRect.w;
+            const relY = (anchorBox.y - sourceRect.y) / sourceRect.h;
+        
+            const geomX = layout.rect.x + (relX * layout.rect.w) - (anchorBox.x - layer.coords.x) * layout.scaleX;
+            const geomY = layout.rect.y + (relY * layout.rect.h) - (anchorBox.y - layer.coords.y) * layout.scaleY;
+        
+            let finalX = geomX * follow.scale + follow.offsetX;
+            let finalY = geomY * follow.scale + follow.offsetY;
+            let layerScaleX = layout.scaleX * follow.scale;
+            let layerScaleY = layout.scaleY * follow.scale;
+            let childFollow = follow;
+        
+            if (generationAllowed && strategy?.replaceLayerId === layer.id) {
+                return {
+                    ...layer,
+                    type: 'generative', 
+                    generativePrompt: strategy.generativePrompt, 
+                    coords: { x: targetRect.x, y: targetRect.y, w: targetRect.w, h: targetRect.h }, 
+                    transform: { scaleX: 1, scaleY: 1, offsetX: targetRect.x, offsetY: targetRect.y },
+                    children: undefined 
+                };
+            }
+        
+            const override = getOverride(layer.id);
+
+            if (override) {
+                // Overrides are target-absolute: the subtree is re-anchored on the override, not on its ancestors
+                finalX = targetRect.x + override.xOffset;
+                finalY = targetRect.y + override.yOffset;
+                layerScaleX = layout.scaleX * override.individualScale;
+                layerScaleY = layout.scaleY * override.individualScale;
+                childFollow = {
+                    scale: override.individualScale,
+                    offsetX: finalX - geomX * override.individualScale,
+                    offsetY: finalY - geomY * override.individualScale
+                };
+            }
+        
+            const scaledW = layer.coords.w * layerScaleX;
+            const scaledH = layer.coords.h * layerScaleY;
+
+            // Optical box: the trimmed pixels, carried through the same transform as the layer box
+            const opticalCoords = optical ? {
+                x: finalX + (optical.x - layer.coords.x) * layerScaleX,
+                y: finalY + (optical.y - layer.coords.y) * layerScaleY,
+                w: optical.w * layerScaleX,
+                h: optical.h * layerScaleY
+            } : undefined;
+
+            // Text: resize by point size and re-wrap inside the scaled box (no bitmap scaling)
+            const text = layer.text
+                ? fitTextLayout(layer.text, scaledW, scaledH, Math.min(layerScaleX, layerScaleY), measure)
+                : undefined;
+
+            return {
+                ...layer,
+                isVisible: layer.isVisible && !droppedIds.has(layer.id),
+                text,
+                layoutRole: override?.layoutRole,
+                linkedAnchorId: override?.linkedAnchorId,
+                citedRule: override?.citedRule,
+                coords: { x: finalX, y: finalY, w: scaledW, h: scaledH },
+                opticalCoords,
+                transform: { scaleX: layerScaleX, scaleY: layerScaleY, offsetX: finalX, offsetY: finalY },
+                children: layer.children ? placeLayers(layer.children, childFollow, background) : undefined
+            };
+        });
+    };
+
+    // STEP 3 & 4: Physics Engine, run top-down per group.
+    // `frame` is the group's solved box (the target at the root) and the TARGET reference for constraints;
+    // solvers move whole subtrees, so children are solved after their parent has reached its final position.
+    const solveGroup = (transformed: TransformedLayer[], frame: Rect, layoutArea: Rect, scope: GroupSolveScope) => {
+        if (!strategy) return;
+
+        // A. GRID SOLVER (Semantic: Only 'flow' items)
+        // Phase 1.1 Fix: Grid Solver Lock (overridden items are immutable)
+        const gridCandidates = transformed.filter(l => !isPinned(l) && !isBackground(l));
+
+        // A lone flow group is a wrapper: the layout mode applies to its children, in this level's area
+        const layoutGroup = scope.runLayout && gridCandidates.length === 1 && gridCandidates[0].children?.length
+            ? gridCandidates[0]
+            : null;
+
+        // Pinned layers (statics, overlays) on the laid-out levels are obstacles: slots go around them
+        const flowArea = scope.runLayout
+            ? excludeObstacles(layoutArea, transformed.filter(l => l.isVisible && isPinned(l) && !isBackground(l)).map(getLayerExtent))
+            : layoutArea;
+
+        if (scope.runLayout && !layoutGroup && gridCandidates.length > 0) {
+            if (strategy.layoutMode === 'DISTRIBUTE_HORIZONTAL') {
+                const slotWidth = flowArea.w / gridCandidates.length;
+                gridCandidates.forEach((l, i) => {
+                    const extent = getLayerExtent(l);
+                    const slotCenter = flowArea.x + (i * slotWidth) + (slotWidth / 2);
+                    translateLayer(l, slotCenter - (extent.w / 2) - extent.x, 0);
+                });
+            } else if (strategy.layoutMode === 'DISTRIBUTE_VERTICAL') {
+                const slotHeight = flowArea.h / gridCandidates.length;
+                gridCandidates.forEach((l, i) => {
+                    const extent = getLayerExtent(l);
+                    const slotCenter = flowArea.y + (i * slotHeight) + (slotHeight / 2);
+                    translateLayer(l, 0, slotCenter - (extent.h / 2) - extent.y);
+                });
+            } else if (strategy.layoutMode === 'GRID') {
+                // Cells live in the visible part of the layout area (cover-mode rects overhang the target)
+                const gridLeft = Math.max(flowArea.x, frame.x);
+                const gridTop = Math.max(flowArea.y, frame.y);
+                const gridArea = {
+                    x: gridLeft,
+                    y: gridTop,
+                    w: Math.min(flowArea.x + flowArea.w, frame.x + frame.w) - gridLeft,
+                    h: Math.min(flowArea.y + flowArea.h, frame.y + frame.h) - gridTop
+                };
+                solveGridLayout(gridCandidates, gridArea, strategy.gridConfig || {}, measure);
+            }
+        }
+
+        // B. COLLISION SOLVER (Semantic: Only 'flow' items, on the root and the laid-out level;
+        // elsewhere inside groups, source overlaps are intentional composition)
+        if (strategy.physicsRules?.preventOverlap && (scope.depth === 0 || (scope.runLayout && !layoutGroup))) {
+            const flowItems = transformed.filter(l => {
+                const role = getOverride(l.id)?.layoutRole;
+                return (role === 'flow' || !role) && !isBackground(l);
+            });
+        
+            // Phase 1.2 Fix: Collision Solver Lock (overridden items act as fixed obstacles)
+            const padding = Math.max(0, strategy.physicsRules.overlapPadding ?? DEFAULT_OVERLAP_PADDING);
+            safetyViolations.push(...resolveCollisions(flowItems, frame, padding, isPinned));
+        }
+
+        // C. CONSTRAINT SOLVER: overlay links, boundary physics and strategy constraints are solved together.
+        // The geometric result above is the weak preference; LayerOverrides are pinned above everything.
+        const generatedConstraints: LayoutConstraint[] = [];
+
+        // Overlay links keep their (scaled) source offset to a sibling anchor
+        transformed.forEach(l => {
+            const anchorId = getOverride(l.id)?.linkedAnchorId;
+            if (getOverride(l.id)?.layoutRole !== 'overlay' || !anchorId) return;
+            const sourceOverlay = sourceIndex.get(l.id);
+            const sourceAnchor = sourceIndex.get(anchorId);
+            if (!sourceOverlay || !sourceAnchor || !transformed.some(t => t.id === anchorId)) return;
+            generatedConstraints.push(
+                { layerId: l.id, attribute: 'left', relation: 'eq', toLayerId: anchorId, constant: (sourceOverlay.coords.x - sourceAnchor.coords.x) * globalScale, strength: 'strong' },
+                { layerId: l.id, attribute: 'top', relation: 'eq', toLayerId: anchorId, constant: (sourceOverlay.coords.y - sourceAnchor.coords.y) * globalScale, strength: 'strong' }
+            );
+        });
+
+        // Boundary physics: stay inside the clip rect and safe area (manual overrides, and everything inside them, may bleed)
+        if (strategy.physicsRules?.preventClipping && !scope.pinned) {
+            transformed.filter(l => !isPinned(l)).forEach(l => {
+                const bounds = isBackground(l) ? clipRect : contentClipRect;
+                generatedConstraints.push(
+                    { layerId: l.id, attribute: 'left', relation: 'ge', toAttribute: 'left', constant: bounds.x - frame.x, strength: 'strong' },
+                    { layerId: l.id, attribute: 'top', relation: 'ge', toAttribute: 'top', constant: bounds.y - frame.y, strength: 'strong' },
+                    { layerId: l.id, attribute: 'right', relation: 'le', toAttribute: 'right', constant: (bounds.x + bounds.w) - (frame.x + frame.w), strength: 'strong' },
+                    { layerId: l.id, attribute: 'bottom', relation: 'le', toAttribute: 'bottom', constant: (bounds.y + bounds.h) - (frame.y + frame.h), strength: 'strong' }
+                );
+            });
+        }
+
+        // Declared constraints are solved on the level that owns their layer
+        const declaredConstraints = (strategy.constraints || []).filter(c => transformed.some(t => t.id === c.layerId));
+        if (generatedConstraints.length > 0 || declaredConstraints.length > 0) {
+            const items: LayoutItem[] = transformed.map(l => {
+                const source = sourceIndex.get(l.id);
+                return {
+                    id: l.id,
+                    name: l.name,
+                    preferred: getLayerExtent(l),
+                    aspect: source && source.coords.w > 0 && source.coords.h > 0 ? source.coords.w / source.coords.h : undefined,
+                    pinned: isPinned(l)
+                };
+            });
+
+            const solution = solveLayoutConstraints(frame, items, [...generatedConstraints, ...declaredConstraints]);
+            transformed.forEach(l => {
+                const box = solution.boxes.get(l.id);
+                if (box && !isPinned(l)) fitLayerToBox(l, box, measure);
+            });
+
+            solution.conflicts
+                .filter(conflict => declaredConstraints.includes(conflict.constraint))
+                .forEach(({ constraint, residual }) => {
+                    const layer = transformed.find(t => t.id === constraint.layerId);
+                    const other = transformed.find(t => t.id === constraint.toLayerId);
+                    safetyViolations.push({
+                        type: 'CONSTRAINT_CONFLICT',
+                        severity: constraint.strength === 'required' ? 'error' : 'warning',
+                        layerId: constraint.layerId,
+                        layerName: layer?.name || constraint.layerId,
+                        otherLayerId: other?.id,
+                        otherLayerName: other?.name,
+                        ratio: Math.min(1, residual / Math.max(1, Math.max(targetRect.w, targetRect.h))),
+                        message: `${constraint.strength || 'strong'} constraint '${layer?.name || constraint.layerId}.${constraint.attribute} ${constraint.relation} ${constraint.toLayerId || 'TARGET'}' missed by ${Math.round(residual)}px.`
+                    });
+                });
+        }
+
+        // D. SHAPE CONTAINERS: walk the box toward the shape centroid until it fits (non-linear, so outside the solver)
+        const polygon = clipPolygon;
+        if (strategy.physicsRules?.preventClipping && polygon && !scope.pinned) {
+            transformed.filter(l => !isPinned(l)).forEach(l => {
+                const start = getLayerExtent(l);
+                if (isRectInsidePolygon(start, polygon)) return;
+                const centroid = getPolygonCentroid(polygon);
+                const goalX = centroid.x - start.w / 2;
+                const goalY = centroid.y - start.h / 2;
+                let best = { x: start.x, y: start.y };
+                for (let step = 1; step <= 20; step++) {
+                    const t = step / 20;
+                    best = { x: start.x + (goalX - start.x) * t, y: start.y + (goalY - start.y) * t };
+                    if (isRectInsidePolygon({ ...start, ...best }, polygon)) break;
+                }
+                translateLayer(l, best.x - start.x, best.y - start.y);
+            });
+        }
+
+        // Recurse with each group's final box as its local frame
+        transformed.forEach(l => {
+            if (!l.children?.length) return;
+            const childScope: GroupSolveScope = { depth: scope.depth + 1, runLayout: l === layoutGroup, pinned: scope.pinned || isPinned(l) };
+            if (l === layoutGroup) {
+                solveGroup(l.children.filter(isActive), frame, flowArea, childScope);
+            } else {
+                const box = getLayerExtent(l);
+                solveGroup(l.children.filter(isActive), box, box, childScope);
+            }
+        });
+    };
+
+    const safetyViolations: SafetyViolation[] = [];
+    const transformedLayers = placeLayers(layers, IDENTITY_FOLLOW);
+    solveGroup(transformedLayers.filter(isActive), targetRect, layoutRect, { depth: 0, runLayout: true, pinned: false });
+
+    // STEP 5: Measured safety audit of the final layout
+    safetyViolations.push(...auditLayout(transformedLayers, {
+        sourceIndex,
+        clipRect,
+        clipPolygon,
+        safeRect,
+        allowBleed: layoutConstraints?.fit === 'cover' || !!strategy?.safetyReport?.allowedBleed,
+        isPinned,
+        isBackground,
+        reported: safetyViolations
+    }));
+    const safetyReport = buildSafetyReport(safetyViolations, request.acceptedViolations);
+
+    let requiresGeneration = false;
+    let status: TransformedPayload['status'] = 'success';
+    const currentPrompt = strategy?.generativePrompt;
+
+    const isMandatory = strategy?.isExplicitIntent || strategy?.directives?.includes('MANDATORY_GEN_FILL');
+    const isConfirmed = isMandatory || (!!currentPrompt && currentPrompt === request.confirmedPrompt);
+
+    if (currentPrompt && generationAllowed) {
+        if (isConfirmed) {
+            requiresGeneration = true;
+            status = 'success';
+        } else if (strategy?.isExplicitIntent || globalScale > 2.0) {
+            status = 'awaiting_confirmation';
+        }
+    }
+
+    // Measured severity: layout errors hold the payload until the user accepts them
+    if (safetyReport?.worstSeverity === 'error' && !safetyReport.isAccepted) {
+        status = 'awaiting_confirmation';
+    }
+
+    return {
+        status,
+        sourceNodeId: request.sourceNodeId,
+        sourceContainer: request.sourceContainer,
+        targetContainer: request.targetContainer,
+        layers: transformedLayers,
+        scaleFactor: globalScale,
+        metrics: { source: { w: sourceRect.w, h: sourceRect.h }, target: { w: targetRect.w, h: targetRect.h } },
+        targetBounds: { x: targetRect.x, y: targetRect.y, w: targetRect.w, h: targetRect.h },
+        clipBounds: request.clipRect,
+        clipPolygon,
+        safeBounds: safeRect,
+        requiresGeneration,
+        isConfirmed: strategy ? isConfirmed : false,
+        sourceReference: strategy?.sourceReference,
+        generationAllowed,
+        directives: strategy?.directives,
+        isMandatory,
+        replaceLayerId: strategy?.replaceLayerId,
+        triangulation: strategy?.triangulation,
+        safetyReport,
+        droppedLayers: droppedLayers.length > 0 ? droppedLayers : undefined
+    };
+};
@@ -0,0 +1,143 @@
+import { AIRequestErrorKind, AIRequestFailure } from '../types';
+
+/**
+ * AI Request Runner.
+ * Every model call goes through runAIRequest: it links the caller's AbortSignal (cancel buttons), enforces a
+ * per-call timeout and retries rate-limit, 5xx and network failures with exponential backoff. Whatever still
+ * fails is thrown as an AIRequestError, which nodes store on their instance via toAIRequestFailure.
+ */
+
+export const DEFAULT_AI_TIMEOUTS = {
+  text: 60_000,
+  json: 120_000,
+  image: 120_000,
+};
+
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 16_000;
+
+const RETRYABLE_KINDS: AIRequestErrorKind[] = ['rate_limit', 'server', 'network'];
+
+export class AIRequestError extends Error {
+  constructor(
+    public readonly kind: AIRequestErrorKind,
+    message: string,
+    public readonly status?: number,
+    public readonly attempts = 1
+  ) {
+    super(message);
+    this.name = 'AIRequestError';
+  }
+}
+
+export interface AIRequestOptions {
+  signal?: AbortSignal; // Caller cancellation
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts for retryable failures
+  label?: string; // Log prefix, e.g. 'Analyst #1'
+}
+
+// Gemini ApiError and the OpenAI-compatible adapter both carry the HTTP status
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as any)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const classify = (error: unknown): AIRequestErrorKind => {
+  if (error instanceof AIRequestError) return error.kind;
+  const status = getStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429 || /\bRESOURCE_EXHAUSTED\b/.test(message)) return 'rate_limit';
+  if ((status !== undefined && status >= 500) || /\b(UNAVAILABLE|INTERNAL)\b/.test(message)) return 'server';
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network/i.test(message)) return 'network';
+  return 'failed';
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const runAIRequest = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  options: AIRequestOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_AI_TIMEOUTS.text, retries = DEFAULT_RETRIES, label = 'AI' } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new AIRequestError('cancelled', 'Request cancelled', undefined, attempt - 1);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // SDKs that ignore the signal must not keep the caller waiting
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), aborted]);
+    } catch (error) {
+      if (signal?.aborted) throw new AIRequestError('cancelled', 'Request cancelled', undefined, attempt);
+      if (timedOut) throw new AIRequestError('timeout', `No response within ${Math.ceil(timeoutMs / 1000)}s`, undefined, attempt);
+      // Malformed model output is not a transport failure; callers may repair it (generateValidatedJson)
+      if (error instanceof SyntaxError) throw error;
+
+      const kind = classify(error);
+      const status = getStatus(error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (!RETRYABLE_KINDS.includes(kind) || attempt > retries) {
+        throw new AIRequestError(kind, message, status, attempt);
+      }
+
+      const retryAfterMs = (error as any)?.retryAfterMs;
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      const delay = typeof retryAfterMs === 'number' ? Math.min(MAX_DELAY_MS, retryAfterMs) : backoff;
+      console.warn(`[${label}] ${kind}${status ? ` (${status})` : ''}, retrying in ${Math.round(delay)}ms (${attempt}/${retries}).`);
+      try {
+        await sleep(delay, signal);
+      } catch {
+        throw new AIRequestError('cancelled', 'Request cancelled', undefined, attempt);
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
+
+export const isCancelledError = (error: unknown): boolean => error instanceof AIRequestError && error.kind === 'cancelled';
+
+/** Serializable failure record for node state (instances persist with the graph). */
+export const toAIRequestFailure = (error: unknown): AIRequestFailure => {
+  if (error instanceof AIRequestError) {
+    return { kind: error.kind, message: error.message, status: error.status, attempts: error.attempts, at: Date.now() };
+  }
+  return { kind: 'failed', message: error instanceof Error ? error.message : String(error), attempts: 1, at: Date.now() };
+};
+
+export const AI_ERROR_LABELS: Record<AIRequestErrorKind, string> = {
+  cancelled: 'Cancelled',
+  timeout: 'Timed out',
+  rate_limit: 'Rate limited',
+  server: 'Server error',
+  network: 'Network error',
+  unavailable: 'Not configured',
+  failed: 'Failed',
+};
@@ -0,0 +1,416 @@
+import { LayoutStrategy, ReviewerStrategy, LayerOverride, LayoutConstraint, LayerPriority, GridConfig, TriangulationAudit, StrategyValidationIssue, StrategyValidationReport, LAYER_PRIORITY_LOWEST } from '../types';
+import { AIProvider, AIJsonRequest, AIMessage, toMessages } from './aiProvider';
+import { AIRequestOptions, DEFAULT_AI_TIMEOUTS, runAIRequest } from './requestRunner';
+
+/**
+ * Strategy Validator.
+ * Model output is untrusted: every field of a LayoutStrategy / ReviewerStrategy is type-checked, every layer
+ * reference is resolved against the source tree and numbers are kept in range. Unusable values are dropped
+ * or defaulted and reported as errors (which trigger a repair re-ask); clamped values are warnings.
+ * Only known fields survive; app-owned flags (sourceReference, knowledgeMuted...) are set by the caller.
+ */
+
+export interface StrategyValidationContext {
+    layerIds: Set<string>; // Every layer ID of the source tree, at any depth (see collectLayerIds)
+    anchorCount?: number; // Visual anchors sent with the request: the valid 'anchorIndex' range
+    fallback?: Pick<LayoutStrategy, 'suggestedScale' | 'anchor'>; // Replaces an unusable scale / anchor
+}
+
+export interface StrategyValidationResult<T> {
+    value: T;
+    issues: StrategyValidationIssue[];
+}
+
+export const MIN_STRATEGY_SCALE = 0.01;
+export const MAX_STRATEGY_SCALE = 10;
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+type LayerNode = { id: string, children?: LayerNode[] };
+
+export const collectLayerIds = (layers: LayerNode[], ids = new Set<string>()): Set<string> => {
+    layers.forEach(l => {
+        ids.add(l.id);
+        if (l.children) collectLayerIds(l.children, ids);
+    });
+    return ids;
+};
+
+// --- FIELD READERS ---
+
+type IssueLog = {
+    issues: StrategyValidationIssue[];
+    error: (path: string, message: string) => void;
+    warn: (path: string, message: string) => void;
+};
+
+const createIssueLog = (): IssueLog => {
+    const issues: StrategyValidationIssue[] = [];
+    return {
+        issues,
+        error: (path, message) => { issues.push({ path, severity: 'error', message }); },
+        warn: (path, message) => { issues.push({ path, severity: 'warning', message }); }
+    };
+};
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isMissing = (value: unknown) => value === undefined || value === null;
+const describe = (value: unknown) => typeof value === 'string' ? `'${value}'`
+    : typeof value === 'number' ? String(value)
+    : JSON.stringify(value) ?? String(value);
+
+/** Optional enum: missing stays undefined, an unknown value is dropped. */
+const readEnum = <T extends string>(value: unknown, allowed: readonly T[], path: string, log: IssueLog): T | undefined => {
+    if (isMissing(value)) return undefined;
+    if (allowed.includes(value as T)) return value as T;
+    log.error(path, `${describe(value)} is not one of ${allowed.join(', ')}; removed`);
+    return undefined;
+};
+
+/** Required enum: missing or unknown values fall back to `fallback`. */
+const readRequiredEnum = <T extends string>(value: unknown, allowed: readonly T[], path: string, log: IssueLog, fallback: T): T => {
+    if (allowed.includes(value as T)) return value as T;
+    log.error(path, `${isMissing(value) ? 'missing' : `${describe(value)} is not one of ${allowed.join(', ')}`}; defaulted to ${fallback}`);
+    return fallback;
+};
+
+/** Optional number: non-numbers are dropped, out-of-range values clamped (and rounded when `integer`). */
+const readNumber = (value: unknown, path: string, log: IssueLog, range: { min?: number, max?: number, integer?: boolean } = {}): number | undefined => {
+    if (isMissing(value)) return undefined;
+    if (!isFiniteNumber(value)) {
+        log.error(path, `${describe(value)} is not a finite number; removed`);
+        return undefined;
+    }
+    let result = range.integer ? Math.round(value) : value;
+    if (range.min !== undefined && result < range.min) result = range.min;
+    if (range.max !== undefined && result > range.max) result = range.max;
+    if (result !== value) log.warn(path, `${value} clamped to ${result}`);
+    return result;
+};
+
+const readBoolean = (value: unknown, path: string, log: IssueLog): boolean | undefined => {
+    if (isMissing(value)) return undefined;
+    if (typeof value === 'boolean') return value;
+    log.error(path, `${describe(value)} is not a boolean; removed`);
+    return undefined;
+};
+
+const readString = (value: unknown, path: string, log: IssueLog): string | undefined => {
+    if (isMissing(value)) return undefined;
+    if (typeof value === 'string') return value;
+    log.error(path, `${describe(value)} is not a string; removed`);
+    return undefined;
+};
+
+const readArray = (value: unknown, path: string, log: IssueLog): unknown[] => {
+    if (isMissing(value)) return [];
+    if (Array.isArray(value)) return value;
+    log.error(path, 'expected an array; ignored');
+    return [];
+};
+
+const readLayerRef = (value: unknown, path: string, ctx: StrategyValidationContext, log: IssueLog, consequence: string): string | undefined => {
+    if (typeof value === 'string' && ctx.layerIds.has(value)) return value;
+    log.error(path, `${describe(value)} is not a layer ID of the source tree; ${consequence}`);
+    return undefined;
+};
+
+// Drops undefined keys so the validated object only carries what was actually provided
+const compact = <T extends object>(value: T): T => {
+    Object.keys(value).forEach(key => {
+        if ((value as any)[key] === undefined) delete (value as any)[key];
+    });
+    return value;
+};
+
+// --- SECTIONS ---
+
+const LAYOUT_ROLES = ['flow', 'static', 'overlay', 'background'] as const;
+const LAYOUT_ATTRIBUTES = ['left', 'right', 'top', 'bottom', 'centerX', 'centerY', 'width', 'height'] as const;
+
+const validateOverrides = (value: unknown, path: string, ctx: StrategyValidationContext, log: IssueLog): LayerOverride[] => {
+    const seen = new Set<string>();
+    const overrides: LayerOverride[] = [];
+
+    readArray(value, path, log).forEach((raw, i) => {
+        const p = `${path}[${i}]`;
+        if (!isObject(raw)) return log.error(p, 'expected an object; override dropped');
+
+        const layerId = readLayerRef(raw.layerId, `${p}.layerId`, ctx, log, 'override dropped');
+        if (!layerId) return;
+        if (seen.has(layerId)) return log.error(`${p}.layerId`, `duplicate override for '${layerId}'; dropped`);
+
+        const badOffset = (['xOffset', 'yOffset'] as const).find(key => !isFiniteNumber(raw[key]));
+        if (badOffset) return log.error(`${p}.${badOffset}`, `${describe(raw[badOffset])} is not a finite number; override dropped`);
+
+        let individualScale = raw.individualScale;
+        if (!isFiniteNumber(individualScale) || individualScale <= 0) {
+            log.error(`${p}.individualScale`, `${describe(individualScale)} is not a positive number; defaulted to 1`);
+            individualScale = 1;
+        } else {
+            individualScale = readNumber(individualScale, `${p}.individualScale`, log, { min: MIN_STRATEGY_SCALE, max: MAX_STRATEGY_SCALE });
+        }
+
+        let anchorIndex = readNumber(raw.anchorIndex, `${p}.anchorIndex`, log, { integer: true });
+        const anchorCount = ctx.anchorCount ?? 0;
+        if (anchorIndex !== undefined && (anchorIndex < 0 || anchorIndex >= anchorCount)) {
+            log.error(`${p}.anchorIndex`, `${anchorIndex} is outside the ${anchorCount} visual anchor(s) provided; removed`);
+            anchorIndex = undefined;
+        }
+
+        let linkedAnchorId: string | undefined;
+        if (!isMissing(raw.linkedAnchorId)) {
+            linkedAnchorId = readLayerRef(raw.linkedAnchorId, `${p}.linkedAnchorId`, ctx, log, 'removed');
+            if (linkedAnchorId === layerId) {
+                log.error(`${p}.linkedAnchorId`, 'a layer cannot anchor to itself; removed');
+                linkedAnchorId = undefined;
+            }
+        }
+
+        seen.add(layerId);
+        overrides.push(compact({
+            layerId,
+            xOffset: raw.xOffset,
+            yOffset: raw.yOffset,
+            individualScale,
+            rotation: readNumber(raw.rotation, `${p}.rotation`, log),
+            citedRule: readString(raw.citedRule, `${p}.citedRule`, log),
+            anchorIndex,
+            layoutRole: readEnum(raw.layoutRole, LAYOUT_ROLES, `${p}.layoutRole`, log),
+            linkedAnchorId
+        }));
+    });
+
+    return overrides;
+};
+
+const validateConstraints = (value: unknown, ctx: StrategyValidationContext, log: IssueLog): LayoutConstraint[] => {
+    const constraints: LayoutConstraint[] = [];
+
+    readArray(value, 'constraints', log).forEach((raw, i) => {
+        const p = `constraints[${i}]`;
+        if (!isObject(raw)) return log.error(p, 'expected an object; constraint dropped');
+
+        const layerId = readLayerRef(raw.layerId, `${p}.layerId`, ctx, log, 'constraint dropped');
+        if (!layerId) return;
+        const attribute = readEnum(raw.attribute, [...LAYOUT_ATTRIBUTES, 'aspectRatio'] as const, `${p}.attribute`, log);
+        if (!attribute) return log.error(`${p}.attribute`, 'missing or invalid; constraint dropped');
+        const relation = readEnum(raw.relation, ['eq', 'le', 'ge'] as const, `${p}.relation`, log);
+        if (!relation) return log.error(`${p}.relation`, 'missing or invalid; constraint dropped');
+
+        let toLayerId: string | undefined;
+        if (!isMissing(raw.toLayerId) && raw.toLayerId !== 'TARGET') {
+            toLayerId = readLayerRef(raw.toLayerId, `${p}.toLayerId`, ctx, log, 'constraint dropped');
+            if (!toLayerId) return;
+        }
+
+        constraints.push(compact({
+            layerId,
+            attribute,
+            relation,
+            toLayerId,
+            toAttribute: readEnum(raw.toAttribute, LAYOUT_ATTRIBUTES, `${p}.toAttribute`, log),
+            multiplier: readNumber(raw.multiplier, `${p}.multiplier`, log),
+            constant: readNumber(raw.constant, `${p}.constant`, log),
+            unit: readEnum(raw.unit, ['px', '%'] as const, `${p}.unit`, log),
+            strength: readEnum(raw.strength, ['required', 'strong', 'medium', 'weak'] as const, `${p}.strength`, log)
+        }));
+    });
+
+    return constraints;
+};
+
+const validateLayerPriorities = (value: unknown, ctx: StrategyValidationContext, log: IssueLog): LayerPriority[] => {
+    const priorities: LayerPriority[] = [];
+
+    readArray(value, 'layerPriorities', log).forEach((raw, i) => {
+        const p = `layerPriorities[${i}]`;
+        if (!isObject(raw)) return log.error(p, 'expected an object; dropped');
+        const layerId = readLayerRef(raw.layerId, `${p}.layerId`, ctx, log, 'priority dropped');
+        if (!layerId) return;
+        const priority = readNumber(raw.priority, `${p}.priority`, log, { min: 1, max: LAYER_PRIORITY_LOWEST, integer: true });
+        if (priority === undefined) {
+            if (isMissing(raw.priority)) log.error(`${p}.priority`, 'missing; priority dropped');
+            return;
+        }
+        priorities.push({ layerId, priority });
+    });
+
+    return priorities;
+};
+
+const validateGridConfig = (value: unknown, log: IssueLog): GridConfig | undefined => {
+    if (isMissing(value)) return undefined;
+    if (!isObject(value)) {
+        log.error('gridConfig', 'expected an object; removed');
+        return undefined;
+    }
+    return compact({
+        rows: readNumber(value.rows, 'gridConfig.rows', log, { min: 1, integer: true }),
+        cols: readNumber(value.cols, 'gridConfig.cols', log, { min: 1, integer: true }),
+        gutter: readNumber(value.gutter, 'gridConfig.gutter', log, { min: 0 }),
+        align: readEnum(value.align, ['start', 'center', 'end'] as const, 'gridConfig.align', log)
+    });
+};
+
+const validateTriangulation = (value: unknown, log: IssueLog): TriangulationAudit | undefined => {
+    if (isMissing(value)) return undefined;
+    if (!isObject(value)) {
+        log.error('triangulation', 'expected an object; removed');
+        return undefined;
+    }
+
+    const evidenceCount = readNumber(value.evidence_count, 'triangulation.evidence_count', log, { min: 0, max: 3, integer: true });
+    return {
+        visual_identification: readString(value.visual_identification, 'triangulation.visual_identification', log) || '',
+        knowledge_correlation: readString(value.knowledge_correlation, 'triangulation.knowledge_correlation', log) || '',
+        metadata_validation: readString(value.metadata_validation, 'triangulation.metadata_validation', log) || '',
+        evidence_count: evidenceCount ?? 0,
+        // An unreadable verdict is the weakest one, never a promotion
+        confidence_verdict: readRequiredEnum(value.confidence_verdict, ['HIGH', 'MEDIUM', 'LOW'] as const, 'triangulation.confidence_verdict', log, 'LOW')
+    };
+};
+
+// --- STRATEGIES ---
+
+export const validateLayoutStrategy = (raw: unknown, ctx: StrategyValidationContext): StrategyValidationResult<LayoutStrategy> => {
+    const log = createIssueLog();
+    if (!isObject(raw)) log.error('$', 'expected a JSON object');
+    const s = isObject(raw) ? raw : {};
+
+    let suggestedScale: number;
+    if (!isFiniteNumber(s.suggestedScale) || s.suggestedScale <= 0) {
+        suggestedScale = ctx.fallback?.suggestedScale ?? 1;
+        log.error('suggestedScale', `${describe(s.suggestedScale)} is not a positive number; defaulted to ${suggestedScale}`);
+    } else {
+        suggestedScale = readNumber(s.suggestedScale, 'suggestedScale', log, { min: MIN_STRATEGY_SCALE, max: MAX_STRATEGY_SCALE })!;
+    }
+
+    const anchor = readRequiredEnum(s.anchor, ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] as const, 'anchor', log, ctx.fallback?.anchor ?? 'CENTER');
+    const method = readRequiredEnum(s.method, ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] as const, 'method', log, 'GEOMETRIC');
+
+    let replaceLayerId: string | null = null;
+    if (!isMissing(s.replaceLayerId) && s.replaceLayerId !== '') {
+        replaceLayerId = readLayerRef(s.replaceLayerId, 'replaceLayerId', ctx, log, 'cleared, no layer will be swapped') ?? null;
+    }
+
+    const directives = readArray(s.directives, 'directives', log).filter((d, i): d is string => {
+        if (typeof d === 'string') return true;
+        log.warn(`directives[${i}]`, `${describe(d)} is not a string; removed`);
+        return false;
+    });
+
+    let physicsRules: LayoutStrategy['physicsRules'];
+    if (isObject(s.physicsRules)) {
+        physicsRules = compact({
+            preventOverlap: readBoolean(s.physicsRules.preventOverlap, 'physicsRules.preventOverlap', log),
+            preventClipping: readBoolean(s.physicsRules.preventClipping, 'physicsRules.preventClipping', log),
+            overlapPadding: readNumber(s.physicsRules.overlapPadding, 'physicsRules.overlapPadding', log, { min: 0 })
+        });
+    } else if (!isMissing(s.physicsRules)) {
+        log.error('physicsRules', 'expected an object; removed');
+    }
+
+    let safetyReport: LayoutStrategy['safetyReport'];
+    if (isObject(s.safetyReport)) {
+        safetyReport = {
+            allowedBleed: readBoolean(s.safetyReport.allowedBleed, 'safetyReport.allowedBleed', log) ?? false,
+            violationCount: readNumber(s.safetyReport.violationCount, 'safetyReport.violationCount', log, { min: 0, integer: true }) ?? 0
+        };
+    } else if (!isMissing(s.safetyReport)) {
+        log.error('safetyReport', 'expected an object; removed');
+    }
+
+    const value: LayoutStrategy = compact({
+        method,
+        suggestedScale,
+        anchor,
+        generativePrompt: readString(s.generativePrompt, 'generativePrompt', log) ?? '',
+        reasoning: readString(s.reasoning, 'reasoning', log) ?? '',
+        overrides: validateOverrides(s.overrides, 'overrides', ctx, log),
+        directives,
+        replaceLayerId,
+        safetyReport,
+        clearance: readBoolean(s.clearance, 'clearance', log),
+        knowledgeApplied: readBoolean(s.knowledgeApplied, 'knowledgeApplied', log),
+        triangulation: validateTriangulation(s.triangulation, log),
+        layoutMode: readEnum(s.layoutMode, ['STANDARD', 'DISTRIBUTE_HORIZONTAL', 'DISTRIBUTE_VERTICAL', 'GRID'] as const, 'layoutMode', log),
+        gridConfig: validateGridConfig(s.gridConfig, log),
+        constraints: isMissing(s.constraints) ? undefined : validateConstraints(s.constraints, ctx, log),
+        layerPriorities: isMissing(s.layerPriorities) ? undefined : validateLayerPriorities(s.layerPriorities, ctx, log),
+        physicsRules
+    });
+
+    if ((method === 'GENERATIVE' || method === 'HYBRID') && !value.generativePrompt) {
+        log.warn('generativePrompt', `empty for method ${method}; nothing will be generated`);
+    }
+
+    return { value, issues: log.issues };
+};
+
+export const validateReviewerStrategy = (raw: unknown, ctx: StrategyValidationContext): StrategyValidationResult<ReviewerStrategy> => {
+    const log = createIssueLog();
+    if (!isObject(raw)) log.error('$', 'expected a JSON object');
+    const s = isObject(raw) ? raw : {};
+
+    return {
+        value: {
+            CARO_Audit: readString(s.CARO_Audit, 'CARO_Audit', log) ?? '',
+            overrides: validateOverrides(s.overrides, 'overrides', ctx, log)
+        },
+        issues: log.issues
+    };
+};
+
+// --- REPAIR LOOP ---
+
+const formatRepairRequest = (errors: StrategyValidationIssue[]) => [
+    'Your JSON response failed validation:',
+    ...errors.map(e => `- ${e.path}: ${e.message}`),
+    'Return the complete corrected JSON object. Only reference layer IDs that exist in the provided hierarchy.'
+].join('\n');
+
+/**
+ * Requests JSON and validates it; while errors remain the model is re-asked with the error list
+ * (up to `maxRepairs` times). The last response is accepted in its repaired (dropped / defaulted) form.
+ * Each call goes through the request runner, so `options` carries the cancel signal and timeout.
+ */
+export const generateValidatedJson = async <T>(
+    provider: AIProvider,
+    request: AIJsonRequest,
+    validate: (raw: unknown) => StrategyValidationResult<T>,
+    maxRepairs = MAX_REPAIR_ATTEMPTS,
+    options: AIRequestOptions = {}
+): Promise<{ value: T, data: any, text: string, report: StrategyValidationReport }> => {
+    let contents: AIMessage[] = toMessages(request.contents);
+
+    for (let attempt = 0; ; attempt++) {
+        let data: any;
+        let text: string;
+        try {
+            ({ data, text } = await runAIRequest(
+                signal => provider.generateJson({ ...request, contents, signal }),
+                { timeoutMs: DEFAULT_AI_TIMEOUTS.json, ...options }
+            ));
+        } catch (e) {
+            // Unparseable output is repairable too; transport errors are not
+            if (!(e instanceof SyntaxError) || attempt >= maxRepairs) throw e;
+            console.warn(`[Validator] Model response is not valid JSON, asking for a repair (${attempt + 1}/${maxRepairs}).`);
+            contents = [...contents, { role: 'user', parts: [{ text: `Your previous response was not valid JSON (${e.message}). Return only the JSON object.` }] }];
+            continue;
+        }
+
+        const result = validate(data);
+        const errors = result.issues.filter(i => i.severity === 'error');
+        if (errors.length === 0 || attempt >= maxRepairs) {
+            return { value: result.value, data, text, report: { issues: result.issues, repairAttempts: attempt } };
+        }
+
+        console.warn(`[Validator] ${errors.length} invalid field(s) in the model response, asking for a repair (${attempt + 1}/${maxRepairs}).`);
+        contents = [
+            ...contents,
+            { role: 'model', parts: [{ text }] },
+            { role: 'user', parts: [{ text: formatRepairRequest(errors) }] }
+        ];
+    }
+};
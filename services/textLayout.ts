@@ -0,0 +1,88 @@
+import { TextLayerData } from '../types';
+
+/**
+ * Text Layout.
+ * Point-size text fitting for remapped text layers. Glyph widths come from a TextMeasurer, so the
+ * layout runs without a DOM: the browser passes a canvas measurer (see psdService.measureTextWidth),
+ * Node, workers and tests fall back to estimateTextWidth.
+ */
+
+export const AUTO_LEADING_RATIO = 1.2;
+const MIN_FONT_SIZE = 6;
+
+// Average advance of a sans-serif glyph relative to the font size (used when no real measurer exists)
+const ESTIMATED_GLYPH_WIDTH = 0.55;
+
+/** Width in px of `text` rendered with the CSS `font` shorthand. */
+export type TextMeasurer = (text: string, font: string) => number;
+
+/**
+ * DOM-free width estimate: glyph count x font size x an average glyph advance.
+ */
+export const estimateTextWidth: TextMeasurer = (text, font) => {
+  const size = parseFloat(font) || 12;
+  return text.length * size * ESTIMATED_GLYPH_WIDTH;
+};
+
+export const getTextFont = (text: TextLayerData, fontSize: number = text.fontSize): string => {
+  return text.fontName ? `${fontSize}px "${text.fontName}", sans-serif` : `${fontSize}px sans-serif`;
+};
+
+/**
+ * Greedy word wrap of every paragraph to `maxWidth`.
+ */
+export const wrapTextLines = (content: string, font: string, maxWidth: number, measure: TextMeasurer = estimateTextWidth): string[] => {
+  const lines: string[] = [];
+  content.split(/\r\n|\r|\n/).forEach(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let line = '';
+    words.forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate, font) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+/**
+ * Resizes text by point size instead of bitmap scaling, then re-wraps it inside the scaled box.
+ * If the wrapped block still overflows, the size steps down (shrink-to-fit) to MIN_FONT_SIZE.
+ * Point text is never wrapped; it only shrinks when its widest line exceeds the box.
+ */
+export const fitTextLayout = (
+  text: TextLayerData,
+  boxW: number,
+  boxH: number,
+  scale: number,
+  measure: TextMeasurer = estimateTextWidth
+): TextLayerData => {
+  const leadingRatio = text.leading ? text.leading / text.fontSize : AUTO_LEADING_RATIO;
+  const isPoint = text.shapeType === 'point';
+
+  const layout = (size: number) => {
+    const font = getTextFont(text, size);
+    const lines = isPoint ? text.text.split(/\r\n|\r|\n/) : wrapTextLines(text.text, font, boxW, measure);
+    const widest = Math.max(0, ...lines.map(l => measure(l, font)));
+    return { lines, fits: lines.length * size * leadingRatio <= boxH && (!isPoint || widest <= boxW) };
+  };
+
+  let fontSize = Math.max(MIN_FONT_SIZE, text.fontSize * scale);
+  let result = layout(fontSize);
+  while (!result.fits && fontSize > MIN_FONT_SIZE) {
+    fontSize = Math.max(MIN_FONT_SIZE, fontSize * 0.92);
+    result = layout(fontSize);
+  }
+
+  return {
+    ...text,
+    fontSize: Math.round(fontSize * 100) / 100,
+    leading: text.leading ? Math.round(fontSize * leadingRatio * 100) / 100 : undefined,
+    lines: result.lines
+  };
+};
@@ -1,5 +1,5 @@
-import { Psd } from 'ag-psd';
-import { Node, Edge } from 'reactflow';
+import type { Psd } from 'ag-psd';
+import type { Node, Edge } from 'reactflow';
 
 export const MAX_BOUNDARY_VIOLATION_PERCENT = 0.03;
 
@@ -18,6 +18,39 @@ export interface OpticalMetrics {
   pixelDensity: number;
 }
 
+// Stable layer ID -> trimmed pixel bounds in document coordinates
+export type OpticalBoundsMap = Record<string, { x: number, y: number, w: number, h: number }>;
+
+// --- TEMPLATE CONSTRAINTS ---
+// Authored in the layer name, e.g. `!!SYMBOLS[anchor=bottom; pad=24; fit=contain; priority=2]`
+export type ConstraintAnchor = 'top' | 'center' | 'bottom' | 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type ConstraintFit = 'contain' | 'cover' | 'stretch' | 'none';
+
+export interface ContainerConstraints {
+  anchor?: ConstraintAnchor;
+  pad?: number; // Inset in px applied on every side of the container
+  fit?: ConstraintFit;
+  priority?: number; // Lower value = more important; drop priority of the slot's content (see DroppedLayer)
+  safeArea?: SafeAreaInsets; // UI chrome zones (e.g. story headers) where only backgrounds may go
+}
+
+export interface SafeAreaInset {
+  value: number;
+  unit: 'px' | '%'; // '%' is relative to the container's width (left/right) or height (top/bottom)
+}
+
+export interface SafeAreaInsets {
+  top?: SafeAreaInset;
+  right?: SafeAreaInset;
+  bottom?: SafeAreaInset;
+  left?: SafeAreaInset;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
 export interface ContainerDefinition {
   id: string;
   name: string;
@@ -34,14 +67,34 @@ export interface ContainerDefinition {
     w: number;
     h: number;
   };
+
+  // Nested Slots: '!!' groups inside a container become sub-containers
+  parentId?: string;
+  depth?: number;
+  relativeBounds?: {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }; // Offset from the parent container origin (equals `bounds` for root containers)
+  children?: ContainerDefinition[];
+
+  constraints?: ContainerConstraints;
+
+  // Non-rectangular slots: flattened vector mask / shape path in document coordinates
+  polygon?: Point[];
 }
 
 export interface TemplateMetadata {
+  id: string; // Unique within the document (artboard / template group position); names may repeat
+  name?: string; // Artboard or '!!TEMPLATE <name>' label in multi-template documents
+  origin?: { x: number; y: number }; // Artboard offset in the document. Bounds stay document-absolute; export subtracts it
+  artboardIndex?: number; // Index of the owning artboard in psd.children (its children are the design roots)
   canvas: {
     width: number;
     height: number;
   };
-  containers: ContainerDefinition[];
+  containers: ContainerDefinition[]; // Flattened (pre-order) list of every container, root and nested
 }
 
 // --- KNOWLEDGE INTEGRATION ---
@@ -73,13 +126,28 @@ export interface ContainerContext {
   };
 }
 
+// --- TEXT LAYERS ---
+export interface TextLayerData {
+  text: string;
+  fontName?: string; // PostScript name as stored in the PSD
+  fontSize: number; // Effective px size (style size x transform scale)
+  leading?: number; // Effective line height in px
+  justification?: 'left' | 'center' | 'right' | 'justify';
+  color?: string; // CSS color of the first style run
+  shapeType?: 'point' | 'box';
+  lines?: string[]; // Wrapped lines after remapping (set by the Remapper)
+}
+
 export interface SerializableLayer {
-  id: string;
+  id: string; // Stable identity: 'lyr-<photoshop id>' or 'fp-<name path hash>'
+  path?: string; // Index path at parse time (e.g. "0.3.1"), diagnostic only
   name: string;
   type: 'layer' | 'group' | 'generative';
   children?: SerializableLayer[];
   isVisible: boolean;
   opacity: number;
+  text?: TextLayerData;
+  priority?: number; // From the layer name ('logo_p1', 'Legal [priority=4]'); 1 = essential, see LAYER_PRIORITY_LOWEST
   coords: {
     x: number;
     y: number;
@@ -88,6 +156,7 @@ export interface SerializableLayer {
   };
 }
 
+// STRETCH: fill both axes independently | UNIFORM_FIT: letterbox | UNIFORM_FILL: cover + crop | NONE: 1:1 passthrough
 export type RemapStrategy = 'STRETCH' | 'UNIFORM_FIT' | 'UNIFORM_FILL' | 'NONE';
 
 export interface LayerOverride {
@@ -114,6 +183,31 @@ export interface TriangulationAudit {
 }
 // ----------------------------------------
 
+// --- DECLARATIVE LAYOUT CONSTRAINTS ---
+// layer.attribute <relation> multiplier * toLayer.toAttribute + constant
+// e.g. LOGO.left = TARGET.left + 5% | CTA.top >= TITLE.bottom + 16 | HERO.aspectRatio = source aspect
+export type LayoutAttribute = 'left' | 'right' | 'top' | 'bottom' | 'centerX' | 'centerY' | 'width' | 'height';
+export type ConstraintStrength = 'required' | 'strong' | 'medium' | 'weak';
+
+export interface LayoutConstraint {
+  layerId: string;
+  attribute: LayoutAttribute | 'aspectRatio'; // 'aspectRatio': width = height * (multiplier ?? source aspect)
+  relation: 'eq' | 'le' | 'ge';
+  toLayerId?: string; // Another layer ID or 'TARGET' (default)
+  toAttribute?: LayoutAttribute; // Defaults to `attribute`
+  multiplier?: number; // Default 1
+  constant?: number;
+  unit?: 'px' | '%'; // '%' = percent of the target width (x attributes) or height (y attributes)
+  strength?: ConstraintStrength; // Default 'strong'
+}
+
+export interface GridConfig {
+  rows?: number;
+  cols?: number;
+  gutter?: number; // px between cells (target space)
+  align?: 'start' | 'center' | 'end'; // Placement of items inside their cell and of a partial last row
+}
+
 export interface LayoutStrategy {
   method?: 'GEOMETRIC' | 'GENERATIVE' | 'HYBRID';
   suggestedScale: number;
@@ -137,30 +231,84 @@ export interface LayoutStrategy {
   sourceReference?: string; 
   knowledgeApplied?: boolean; 
   knowledgeMuted?: boolean; 
+  isHeuristic?: boolean; // Derived from geometry by the rule-based analyst, no model involved
+  validationReport?: StrategyValidationReport; // Set when the strategy came from a model
+  cachedAt?: number; // Served from the analysis cache; time of the original model run
   
   // Phase 5: Confidence Audit
   triangulation?: TriangulationAudit; 
 
   // Phase 4D: Physics & Layout Engine
   layoutMode?: 'STANDARD' | 'DISTRIBUTE_HORIZONTAL' | 'DISTRIBUTE_VERTICAL' | 'GRID';
+  gridConfig?: GridConfig; // Only read when layoutMode is 'GRID'; omitted fields are derived by the solver
+  constraints?: LayoutConstraint[]; // Solved after the geometric passes; LayerOverrides stay pinned above them
+  layerPriorities?: LayerPriority[]; // Replace name-derived priorities; drive layer dropping on small targets
   physicsRules?: {
       preventOverlap?: boolean;
       preventClipping?: boolean;
+      overlapPadding?: number; // Minimum px gap kept between flow items by the collision solver (default 10)
   };
 }
 
+// --- PRIORITY-BASED LAYER DROPPING ---
+export const LAYER_PRIORITY_LOWEST = 5; // Priorities run 1 (essential, never dropped) .. 5 (first to go)
+
+export interface LayerPriority {
+  layerId: string;
+  priority: number;
+}
+
+export interface DroppedLayer {
+  layerId: string;
+  layerName: string;
+  priority: number;
+  prioritySource: 'layer' | 'analyst' | 'template'; // Layer name convention / annotation, LayoutStrategy.layerPriorities, or the container's `priority=`
+  minScale: number; // Scale below which this priority is hidden
+  reason: string;
+}
+
 export interface ReviewerStrategy {
     CARO_Audit: string; 
     overrides: LayerOverride[]; 
+    validationReport?: StrategyValidationReport;
+    cachedAt?: number; // Served from the analysis cache; time of the original model run
+}
+
+// --- STRATEGY VALIDATION ---
+export interface StrategyValidationIssue {
+  path: string; // Field path in the model response, e.g. 'overrides[2].layerId'
+  severity: 'error' | 'warning'; // error: unusable, dropped or defaulted | warning: clamped or normalized
+  message: string;
+}
+
+export interface StrategyValidationReport {
+  issues: StrategyValidationIssue[]; // Of the accepted response
+  repairAttempts: number; // Re-asks sent back to the model with the error list
 }
 
 // --- FEEDBACK LOOP ---
 export interface FeedbackStrategy {
   overrides: LayerOverride[];
   directives?: string[];
+  restoredLayerIds?: string[]; // Dropped layers the Reviewer brought back
   isCommitted?: boolean;
 }
 
+// --- LAYER RE-BINDING ---
+export interface UnmatchedOverride {
+  nodeId: string;
+  instanceIndex: number;
+  source: 'analyst' | 'reviewer';
+  layerId: string;
+  field: 'layerId' | 'linkedAnchorId' | 'replaceLayerId' | 'constraints.layerId' | 'constraints.toLayerId' | 'layerPriorities';
+}
+
+export interface LayerRebindReport {
+  timestamp: number;
+  rebound: number;
+  unmatched: UnmatchedOverride[];
+}
+
 export type FeedbackRegistry = Record<string, Record<string, FeedbackStrategy>>;
 
 export interface TransformedLayer extends SerializableLayer {
@@ -173,6 +321,7 @@ export interface TransformedLayer extends SerializableLayer {
   };
   children?: TransformedLayer[];
   generativePrompt?: string;
+  opticalCoords?: { x: number, y: number, w: number, h: number }; // Visible-pixel box after transform (optical alignment only)
 
   // Phase 4D: Hydration for Reviewer Visibility
   layoutRole?: 'flow' | 'static' | 'overlay' | 'background';
@@ -191,10 +340,24 @@ export interface MappingContext {
   generationAllowed?: boolean; 
 }
 
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export type ValidationIssueType =
+  | 'PROCEDURAL_VIOLATION'   // Layer exceeds its container beyond MAX_BOUNDARY_VIOLATION_PERCENT
+  | 'BOUNDARY_TOLERANCE'     // Layer bleeds outside its container but within tolerance
+  | 'HIDDEN_POPULATED_GROUP'
+  | 'ZERO_SIZE_LAYER'
+  | 'MISSING_DESIGN_GROUP'   // Container without a matching design group
+  | 'ORPHAN_DESIGN_GROUP'    // Design group without a container
+  | 'CASE_MISMATCH'
+  | 'CONTAINER_OVERLAP';
+
 export interface ValidationIssue {
   layerName: string;
   containerName: string;
-  type: 'PROCEDURAL_VIOLATION';
+  type: ValidationIssueType;
+  severity: ValidationSeverity;
+  layerPath?: string; // Name path, e.g. "SYMBOLS / coins / coin_01"
   message: string;
 }
 
@@ -215,6 +378,32 @@ export interface TargetAssembly {
   }[];
 }
 
+// --- LAYOUT SAFETY ---
+export type SafetyViolationType =
+  | 'UNRESOLVED_OVERLAP' // Collision solver could not separate two flow items
+  | 'CONSTRAINT_CONFLICT' // A declared layout constraint was missed
+  | 'OUT_OF_BOUNDS' // Layer area outside the clip rect / shape
+  | 'OVERLAP' // Siblings that were apart in the source now overlap
+  | 'MIN_LEGIBLE_SIZE' // Text or graphic shrunk below a legible size
+  | 'UNSAFE_ZONE'; // Non-background layer inside the container's safe-area insets
+
+export interface SafetyViolation {
+  type: SafetyViolationType;
+  severity: ValidationSeverity; // 'error' holds the payload in awaiting_confirmation
+  layerId: string;
+  layerName: string;
+  otherLayerId?: string;
+  otherLayerName?: string;
+  ratio: number; // Affected share of the (smaller) layer's area, 0..1 (MIN_LEGIBLE_SIZE: measured / minimum size)
+  message: string;
+}
+
+export interface SafetyReport {
+  violations: SafetyViolation[];
+  worstSeverity?: ValidationSeverity;
+  isAccepted?: boolean; // The user accepted every 'error' violation of this layout
+}
+
 export interface TransformedPayload {
   status: 'success' | 'error' | 'idle' | 'awaiting_confirmation';
   sourceNodeId: string;
@@ -232,6 +421,19 @@ export interface TransformedPayload {
       w: number;
       h: number;
   };
+  clipBounds?: {
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+  }; // Parent container rect when targeting a nested slot
+  clipPolygon?: Point[]; // Container shape (document coords); content is clipped to it instead of the rect
+  safeBounds?: {
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+  }; // Target rect minus the safe-area insets (absent when the container declares none)
   requiresGeneration?: boolean;
   previewUrl?: string;
   isConfirmed?: boolean;
@@ -247,6 +449,8 @@ export interface TransformedPayload {
   
   replaceLayerId?: string | null; 
   triangulation?: TriangulationAudit; 
+  safetyReport?: SafetyReport; // Measured by the Remapper (as opposed to LayoutStrategy.safetyReport, which the AI claims)
+  droppedLayers?: DroppedLayer[]; // Hidden because the scale fell below the drop threshold
 }
 
 export interface RemapperConfig {
@@ -257,6 +461,10 @@ export interface RemapperConfig {
 
 export interface InstanceSettings {
   generationAllowed?: boolean;
+  remapStrategy?: RemapStrategy; // Unset = follow the Analyst strategy (legacy proportional mapping)
+  remapAnchor?: ConstraintAnchor; // Unset = follow the Analyst anchor
+  opticalAlignment?: boolean; // Align, distribute and clip by trimmed pixel bounds instead of layer boxes
+  dropScaleThreshold?: number; // Unset = DEFAULT_DROP_SCALE_THRESHOLD, 0 = never drop layers
 }
 
 export interface ChatMessage {
@@ -270,13 +478,29 @@ export interface ChatMessage {
 export interface AnalystInstanceState {
   chatHistory: ChatMessage[];
   layoutStrategy: LayoutStrategy | null;
-  selectedModel: 'gemini-3-flash' | 'gemini-3-pro' | 'gemini-3-pro-thinking';
+  selectedModel: 'heuristic' | 'gemini-3-flash' | 'gemini-3-pro' | 'gemini-3-pro-thinking';
   isKnowledgeMuted: boolean; 
+  lastError?: AIRequestFailure | null; // Failure of the last analysis run (cleared on the next run)
 }
 
 export interface ReviewerInstanceState {
   chatHistory: ChatMessage[];
   reviewerStrategy: ReviewerStrategy | null;
+  restoredLayerIds?: string[]; // Dropped layers pushed back to the Remapper
+  lastError?: AIRequestFailure | null; // Failure of the last adjustment request (cleared on the next one)
+}
+
+// --- AI REQUESTS ---
+// cancelled: aborted by the user | timeout: per-call limit hit | rate_limit / server / network: still failing
+// after the retries | unavailable: no provider configured | failed: anything else (bad request, invalid output)
+export type AIRequestErrorKind = 'cancelled' | 'timeout' | 'rate_limit' | 'server' | 'network' | 'unavailable' | 'failed';
+
+export interface AIRequestFailure {
+  kind: AIRequestErrorKind;
+  message: string;
+  status?: number; // HTTP status of the last attempt, when known
+  attempts: number;
+  at: number;
 }
 
 export interface InspectorState {
@@ -305,6 +529,13 @@ export interface PSDNodeData {
   
   inspectorState?: InspectorState;
 
+  layerRebindReport?: LayerRebindReport | null;
+
+  // Multi-template documents (artboards)
+  templates?: TemplateMetadata[];
+  selectedTemplateId?: string | null;
+  safeAreaOverrides?: Record<string, string>; // Target Splitter: safe-area shorthand per container id ('' clears the template's)
+
   error?: string | null;
 }
 